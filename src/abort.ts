@@ -0,0 +1,71 @@
+/**
+ * AbortSignal helpers for Inheritage SDK
+ *
+ * Links caller, scope and timeout signals without relying on
+ * AbortSignal.any (unavailable on Node 18)
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ */
+
+/**
+ * Throw the signal's abort reason if it has been aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw signal.reason
+}
+
+export interface LinkedAbortSignal {
+  signal: AbortSignal | undefined
+  /** True once the timeout fired (as opposed to a caller abort). */
+  readonly timedOut: boolean
+  dispose(): void
+}
+
+/**
+ * Combine optional signals and an optional timeout into one signal.
+ * Returns the original signal untouched when there is nothing to combine.
+ */
+export function linkAbortSignals(signals: Array<AbortSignal | undefined>, timeoutMs?: number): LinkedAbortSignal {
+  const sources = signals.filter((signal): signal is AbortSignal => signal !== undefined)
+  const hasTimeout = typeof timeoutMs === "number" && timeoutMs > 0 && Number.isFinite(timeoutMs)
+
+  if (!hasTimeout && sources.length <= 1) {
+    return { signal: sources[0], timedOut: false, dispose: () => undefined }
+  }
+
+  const controller = new AbortController()
+  const cleanups: Array<() => void> = []
+  let timedOut = false
+
+  for (const source of sources) {
+    if (source.aborted) {
+      controller.abort(source.reason)
+      break
+    }
+    const onAbort = () => controller.abort(source.reason)
+    source.addEventListener("abort", onAbort, { once: true })
+    cleanups.push(() => source.removeEventListener("abort", onAbort))
+  }
+
+  if (hasTimeout && !controller.signal.aborted) {
+    const timer = setTimeout(() => {
+      timedOut = true
+      controller.abort(new DOMException(`Request timed out after ${timeoutMs}ms`, "TimeoutError"))
+    }, timeoutMs)
+    cleanups.push(() => clearTimeout(timer))
+  }
+
+  return {
+    signal: controller.signal,
+    get timedOut() {
+      return timedOut
+    },
+    dispose: () => {
+      cleanups.forEach((cleanup) => cleanup())
+      cleanups.length = 0
+    },
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * HTTP Cache for Inheritage SDK
+ *
+ * Pluggable response cache with automatic ETag / If-Modified-Since
+ * revalidation, so 304 responses come back with usable data
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * const client = new InheritageClient({
+ *   cache: { store: new MemoryCacheStore({ maxEntries: 1000 }), ttlMs: 60_000 },
+ * })
+ * ```
+ */
+
+import { fnv1a32 } from "./checksum"
+
+type MaybePromise<T> = T | Promise<T>
+
+export interface CacheEntry<T = unknown> {
+  data: T
+  status: number
+  headers: Record<string, string>
+  etag: string | null
+  lastModified: string | null
+  /** Epoch milliseconds when the entry was stored or last revalidated. */
+  storedAt: number
+  /** Approximate serialized size in bytes. */
+  size: number
+}
+
+export interface CacheStore {
+  get(key: string): MaybePromise<CacheEntry | undefined>
+  set(key: string, entry: CacheEntry): MaybePromise<void>
+  delete(key: string): MaybePromise<void>
+  clear(): MaybePromise<void>
+}
+
+export interface HttpCacheOptions {
+  /** Backing store. Defaults to a `MemoryCacheStore`. */
+  store?: CacheStore
+  /** Serve entries younger than this without a network round-trip. Defaults to 0 (always revalidate). */
+  ttlMs?: number
+  /** Skip caching bodies larger than this many bytes. */
+  maxEntrySize?: number
+}
+
+export interface MemoryCacheStoreOptions {
+  /** Maximum number of entries before least-recently-used eviction. Defaults to 500. */
+  maxEntries?: number
+  /** Maximum combined entry size in bytes. */
+  maxSize?: number
+}
+
+/**
+ * In-memory least-recently-used cache store.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>()
+  private readonly maxEntries: number
+  private readonly maxSize: number
+  private totalSize = 0
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 500)
+    this.maxSize = options.maxSize ?? Number.POSITIVE_INFINITY
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.delete(key)
+    if (entry.size > this.maxSize) return
+    this.entries.set(key, entry)
+    this.totalSize += entry.size
+    while (this.entries.size > this.maxEntries || this.totalSize > this.maxSize) {
+      const oldest = this.entries.keys().next().value as string
+      this.delete(oldest)
+    }
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key)
+    if (!entry) return
+    this.totalSize -= entry.size
+    this.entries.delete(key)
+  }
+
+  clear(): void {
+    this.entries.clear()
+    this.totalSize = 0
+  }
+}
+
+export interface FileSystemCacheStoreOptions {
+  /** Directory that holds one JSON file per cache entry. Created on first write. */
+  directory: string
+}
+
+const ENTRY_FILE = /^[0-9a-f]{8}\.json$/
+
+function hashKey(key: string): string {
+  return fnv1a32(key).toString(16).padStart(8, "0")
+}
+
+/**
+ * Node.js filesystem cache store. Entries survive process restarts, which suits
+ * nightly sync jobs that revalidate the same resources every run.
+ */
+export class FileSystemCacheStore implements CacheStore {
+  private readonly directory: string
+
+  constructor(options: FileSystemCacheStoreOptions) {
+    if (!options?.directory) {
+      throw new Error("directory is required")
+    }
+    this.directory = options.directory
+  }
+
+  private async pathFor(key: string): Promise<string> {
+    const path = await import("node:path")
+    return path.join(this.directory, `${hashKey(key)}.json`)
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const fs = await import("node:fs/promises")
+    try {
+      const raw = await fs.readFile(await this.pathFor(key), "utf8")
+      const stored = JSON.parse(raw) as { key: string; entry: CacheEntry }
+      return stored.key === key ? stored.entry : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const fs = await import("node:fs/promises")
+    await fs.mkdir(this.directory, { recursive: true })
+    await fs.writeFile(await this.pathFor(key), JSON.stringify({ key, entry }), "utf8")
+  }
+
+  async delete(key: string): Promise<void> {
+    const fs = await import("node:fs/promises")
+    await fs.rm(await this.pathFor(key), { force: true })
+  }
+
+  /** Remove the entry files this store writes; anything else in the directory is left alone. */
+  async clear(): Promise<void> {
+    const fs = await import("node:fs/promises")
+    const path = await import("node:path")
+    let names: string[]
+    try {
+      names = await fs.readdir(this.directory)
+    } catch {
+      return
+    }
+    await Promise.all(
+      names.filter((name) => ENTRY_FILE.test(name)).map((name) => fs.rm(path.join(this.directory, name), { force: true }))
+    )
+  }
+}
+
+/**
+ * Approximate byte size of a cached body.
+ */
+export function estimateEntrySize(data: unknown): number {
+  if (typeof data === "string") return data.length
+  try {
+    return JSON.stringify(data)?.length ?? 0
+  } catch {
+    return 0
+  }
+}
+
+export function headersToRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {}
+  headers.forEach((value, key) => {
+    record[key] = value
+  })
+  return record
+}
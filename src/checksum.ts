@@ -0,0 +1,79 @@
+/**
+ * Checksum Helpers for Inheritage SDK
+ *
+ * SHA-256 over canonical JSON, using Web Crypto where available
+ * and node:crypto otherwise
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ */
+
+import type { Heritage } from "./types"
+
+/**
+ * 32-bit FNV-1a hash. Fast and stable, for file names and shard selection only.
+ */
+export function fnv1a32(input: string): number {
+  let hash = 0x811c9dc5
+  for (let index = 0; index < input.length; index += 1) {
+    hash ^= input.charCodeAt(index)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Serialize with object keys sorted at every level, so equal records hash equally
+ * regardless of key order.
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, entry: unknown) => {
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) return entry
+    const sorted: Record<string, unknown> = {}
+    for (const key of Object.keys(entry).sort()) {
+      sorted[key] = (entry as Record<string, unknown>)[key]
+    }
+    return sorted
+  })
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+/**
+ * Hex-encoded SHA-256 digest of a UTF-8 string or raw bytes.
+ */
+export async function sha256Hex(input: string | Uint8Array): Promise<string> {
+  const bytes = typeof input === "string" ? new TextEncoder().encode(input) : input
+  const subtle = globalThis.crypto?.subtle
+  if (subtle) {
+    return toHex(await subtle.digest("SHA-256", bytes as Uint8Array<ArrayBuffer>))
+  }
+  const { createHash } = await import("node:crypto")
+  return createHash("sha256").update(bytes).digest("hex")
+}
+
+/**
+ * Compare digests, ignoring case and an optional `sha256:` prefix.
+ */
+export function checksumsMatch(expected: string, actual: string): boolean {
+  const normalize = (value: string) => value.trim().toLowerCase().replace(/^sha-?256:/, "")
+  return normalize(expected) === normalize(actual)
+}
+
+/**
+ * Default record checksum: SHA-256 over canonical (key-sorted) JSON.
+ */
+export function defaultHeritageChecksum(record: Heritage): Promise<string> {
+  return sha256Hex(canonicalJson(record))
+}
+
+/**
+ * Default embedding checksum: SHA-256 over the JSON-encoded vector.
+ */
+export function defaultEmbeddingChecksum(vector: readonly number[]): Promise<string> {
+  return sha256Hex(JSON.stringify(vector))
+}
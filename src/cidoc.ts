@@ -0,0 +1,385 @@
+/**
+ * CIDOC-CRM Graph for Inheritage SDK
+ *
+ * Typed CIDOC-CRM entities over the JSON-LD from `getHeritageCIDOC`,
+ * with navigation along CRM properties
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * const graph = new CidocGraph((await client.getHeritageCIDOC('hoysaleswara-temple')).data)
+ * const temple = graph.object()
+ * console.log(temple?.production?.carriedOutBy.map((actor) => actor.label))
+ * console.log(temple?.production?.timeSpan?.begin, temple?.location?.coordinates)
+ * ```
+ */
+
+import { canonicalJson } from "./checksum"
+import type { CidocJsonLd, JsonValue } from "./types"
+
+export const CIDOC_CRM_NAMESPACE = "http://www.cidoc-crm.org/cidoc-crm/"
+
+export interface CidocEntity {
+  /** `@id`, or a generated `_:n<index>` for blank nodes. */
+  id: string
+  /** `@type` local names, e.g. `E22_Human-Made_Object`. */
+  classes: string[]
+  label?: string
+}
+
+/** E55 Type. */
+export interface CidocType extends CidocEntity {
+  /** Getty AAT numeric ID when `id` is an AAT URI. */
+  aatId?: string
+}
+
+/** E52 Time-Span. */
+export interface CidocTimeSpan extends CidocEntity {
+  /** P82a begin of the begin. */
+  begin?: string
+  /** P82b end of the end. */
+  end?: string
+  /** P82 at some time within, or P1 appellation, e.g. `12th century`. */
+  display?: string
+}
+
+/** E53 Place. */
+export interface CidocPlace extends CidocEntity {
+  /** `[lat, lon]` from a WKT `POINT(lon lat)` in P168, or `lat` / `long` properties. */
+  coordinates?: [number, number]
+  /** P168 place is defined by, as given. */
+  definition?: string
+  /** P89 falls within. */
+  fallsWithin: CidocPlace[]
+}
+
+/** E39 Actor (including E21 Person and E74 Group). */
+export interface CidocActor extends CidocEntity {
+  sameAs: string[]
+}
+
+/** E12 Production. */
+export interface CidocProduction extends CidocEntity {
+  /** P4 has time-span. */
+  timeSpan?: CidocTimeSpan
+  /** P14 carried out by. */
+  carriedOutBy: CidocActor[]
+  /** P7 took place at. */
+  tookPlaceAt: CidocPlace[]
+  /** P32 used general technique. */
+  techniques: CidocType[]
+}
+
+/** E22 Human-Made Object. */
+export interface CidocHumanMadeObject extends CidocEntity {
+  /** P1 is identified by / P102 has title appellations. */
+  names: string[]
+  /** P2 has type. */
+  types: CidocType[]
+  /** P108i was produced by. */
+  production?: CidocProduction
+  /** P53 has former or current location. */
+  location?: CidocPlace
+  /** P45 consists of. */
+  materials: CidocType[]
+  sameAs: string[]
+}
+
+type JsonObject = { [key: string]: JsonValue }
+
+interface GraphNode {
+  id: string
+  classes: string[]
+  properties: Map<string, JsonValue[]>
+}
+
+const LABEL_KEYS = ["label", "_label", "name", "P190_has_symbolic_content"]
+const SAME_AS_KEYS = ["sameAs", "exactMatch", "equivalent"]
+const AAT_URI = /^https?:\/\/vocab\.getty\.edu\/(?:page\/)?aat\/(\d+)$/
+const WKT_POINT = /^\s*POINT\s*\(\s*(-?[\d.]+)\s+(-?[\d.]+)\s*\)\s*$/i
+
+function isObject(value: JsonValue | undefined): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function asArray(value: JsonValue | undefined): JsonValue[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+/**
+ * Strip a prefix or namespace: `crm:P4_has_time-span` and
+ * `http://www.cidoc-crm.org/cidoc-crm/P4_has_time-span` become `P4_has_time-span`.
+ */
+function localName(key: string): string {
+  return key.slice(Math.max(key.lastIndexOf("/"), key.lastIndexOf("#"), key.lastIndexOf(":")) + 1)
+}
+
+/** CRM code of a class or property name (`E22`, `P108i`, `P82a`), if it has one. */
+function crmCode(name: string): string | undefined {
+  return /^([EP]\d+[a-z]?i?)(?:_|$)/.exec(localName(name))?.[1]
+}
+
+function matches(key: string, name: string): boolean {
+  const code = crmCode(name)
+  return code ? crmCode(key) === code : localName(key) === localName(name)
+}
+
+function inverseCode(name: string): string | undefined {
+  const code = crmCode(name)
+  if (!code?.startsWith("P")) return undefined
+  return code.endsWith("i") ? code.slice(0, -1) : `${code}i`
+}
+
+function literal(value: JsonValue): string | undefined {
+  if (typeof value === "string") return value
+  if (typeof value === "number" || typeof value === "boolean") return String(value)
+  if (isObject(value) && "@value" in value) return literal(value["@value"])
+  return undefined
+}
+
+/**
+ * Graph over a CIDOC-CRM JSON-LD document. Accepts compacted documents (nested nodes),
+ * flattened ones (`@graph` with `@id` references) and mixtures of both. Property and
+ * class names are matched by CRM code, so `P108i`, `P108i_was_produced_by` and
+ * `crm:P108i_was_produced_by` are equivalent.
+ */
+export class CidocGraph {
+  private readonly nodes = new Map<string, GraphNode>()
+  private readonly roots: string[] = []
+  private blankNodes = 0
+
+  constructor(document: CidocJsonLd | JsonValue) {
+    const json = document as JsonValue
+    const top = isObject(json) && Array.isArray(json["@graph"]) ? json["@graph"] : asArray(json)
+    for (const value of top) {
+      if (!isObject(value)) continue
+      this.roots.push(this.collect(value))
+    }
+  }
+
+  private collect(value: JsonObject): string {
+    const explicitId = value["@id"] ?? value["id"]
+    const id = typeof explicitId === "string" ? explicitId : `_:n${this.blankNodes++}`
+    let node = this.nodes.get(id)
+    if (!node) {
+      node = { id, classes: [], properties: new Map() }
+      this.nodes.set(id, node)
+    }
+    for (const type of asArray(value["@type"] ?? value["type"])) {
+      if (typeof type === "string" && !node.classes.includes(localName(type))) node.classes.push(localName(type))
+    }
+    for (const [key, raw] of Object.entries(value)) {
+      if (key.startsWith("@") || key === "type" || key === "id") continue
+      const values = node.properties.get(key) ?? []
+      // A node repeated under the same @id (flattened and nested copies) merges as a set.
+      const seen = new Set(values.map(canonicalJson))
+      for (const item of asArray(raw)) {
+        const value = isObject(item) && !("@value" in item) ? { "@id": this.collect(item) } : item
+        const identity = canonicalJson(value)
+        if (seen.has(identity)) continue
+        seen.add(identity)
+        values.push(value)
+      }
+      node.properties.set(key, values)
+    }
+    return id
+  }
+
+  /** Number of distinct nodes. */
+  get size(): number {
+    return this.nodes.size
+  }
+
+  private node(ref: string | CidocEntity): GraphNode | undefined {
+    return this.nodes.get(typeof ref === "string" ? ref : ref.id)
+  }
+
+  private values(node: GraphNode, property: string): JsonValue[] {
+    const result: JsonValue[] = []
+    for (const [key, values] of node.properties) {
+      if (matches(key, property)) result.push(...values)
+    }
+    return result
+  }
+
+  private toEntity(node: GraphNode): CidocEntity {
+    const entity: CidocEntity = { id: node.id, classes: [...node.classes] }
+    const label = this.labelOf(node)
+    if (label !== undefined) entity.label = label
+    return entity
+  }
+
+  private labelOf(node: GraphNode, nested = false): string | undefined {
+    for (const key of LABEL_KEYS) {
+      const value = this.literals(node.id, key)[0]
+      if (value !== undefined) return value
+    }
+    if (nested) return undefined
+    // Fall back to the first P1 appellation, one level deep.
+    for (const value of this.values(node, "P1")) {
+      const appellation = isObject(value) && typeof value["@id"] === "string" ? this.nodes.get(value["@id"]) : undefined
+      const label = appellation && this.labelOf(appellation, true)
+      if (label !== undefined) return label
+    }
+    return undefined
+  }
+
+  /**
+   * The entity with this `@id`.
+   */
+  entity(id: string): CidocEntity | undefined {
+    const node = this.nodes.get(id)
+    return node ? this.toEntity(node) : undefined
+  }
+
+  /**
+   * All entities, or those of a class (`E53`, `E53_Place` or `crm:E53_Place`).
+   */
+  entities(cidocClass?: string): CidocEntity[] {
+    const nodes = [...this.nodes.values()].filter(
+      (node) => cidocClass === undefined || node.classes.some((name) => matches(name, cidocClass))
+    )
+    return nodes.map((node) => this.toEntity(node))
+  }
+
+  /**
+   * Entities linked from `from` by `property`, plus entities linking to it by the inverse
+   * property (`P108i` also finds productions pointing at the object with `P108`).
+   */
+  related(from: string | CidocEntity, property: string): CidocEntity[] {
+    const node = this.node(from)
+    if (!node) return []
+    const ids = new Set<string>()
+    for (const value of this.values(node, property)) {
+      if (isObject(value) && typeof value["@id"] === "string") ids.add(value["@id"])
+      else if (typeof value === "string" && this.nodes.has(value)) ids.add(value)
+    }
+    const inverse = inverseCode(property)
+    if (inverse) {
+      for (const other of this.nodes.values()) {
+        if (this.values(other, inverse).some((value) => isObject(value) && value["@id"] === node.id)) ids.add(other.id)
+      }
+    }
+    return [...ids].map((id) => this.nodes.get(id) ?? { id, classes: [], properties: new Map() }).map((target) => this.toEntity(target))
+  }
+
+  /**
+   * Literal values of `property` on `from` (`@value` objects are unwrapped).
+   */
+  literals(from: string | CidocEntity, property: string): string[] {
+    const node = this.node(from)
+    if (!node) return []
+    return this.values(node, property)
+      .map((value) => (typeof value === "string" && this.nodes.has(value) ? undefined : literal(value)))
+      .filter((value): value is string => value !== undefined)
+  }
+
+  private sameAs(id: string): string[] {
+    const links = SAME_AS_KEYS.flatMap((key) => [...this.literals(id, key), ...this.related(id, key).map((entity) => entity.id)])
+    return [...new Set(links)]
+  }
+
+  /** View an entity as an E55 Type. */
+  type(ref: string | CidocEntity): CidocType | undefined {
+    const entity = typeof ref === "string" ? this.entity(ref) ?? { id: ref, classes: [] } : ref
+    const aatId = AAT_URI.exec(entity.id)?.[1]
+    return aatId ? { ...entity, aatId } : { ...entity }
+  }
+
+  /** View an entity as an E52 Time-Span. */
+  timeSpan(ref: string | CidocEntity): CidocTimeSpan | undefined {
+    const entity = typeof ref === "string" ? this.entity(ref) : ref
+    if (!entity) return undefined
+    const span: CidocTimeSpan = { ...entity }
+    const begin = this.literals(entity, "P82a")[0] ?? this.literals(entity, "P81a")[0]
+    const end = this.literals(entity, "P82b")[0] ?? this.literals(entity, "P81b")[0]
+    const display = this.literals(entity, "P82")[0] ?? this.literals(entity, "P81")[0] ?? entity.label
+    if (begin !== undefined) span.begin = begin
+    if (end !== undefined) span.end = end
+    if (display !== undefined) span.display = display
+    return span
+  }
+
+  /** View an entity as an E53 Place. */
+  place(ref: string | CidocEntity, seen = new Set<string>()): CidocPlace | undefined {
+    const entity = typeof ref === "string" ? this.entity(ref) : ref
+    if (!entity) return undefined
+    seen.add(entity.id)
+    const place: CidocPlace = {
+      ...entity,
+      fallsWithin: this.related(entity, "P89")
+        .filter((parent) => !seen.has(parent.id))
+        .map((parent) => this.place(parent, seen)!),
+    }
+    const definition = this.literals(entity, "P168")[0]
+    if (definition !== undefined) place.definition = definition
+    const point = definition ? WKT_POINT.exec(definition) : null
+    const lat = Number(point ? point[2] : this.literals(entity, "lat")[0])
+    const lon = Number(point ? point[1] : this.literals(entity, "long")[0] ?? this.literals(entity, "lng")[0])
+    if (Number.isFinite(lat) && Number.isFinite(lon)) place.coordinates = [lat, lon]
+    return place
+  }
+
+  /** View an entity as an E39 Actor. */
+  actor(ref: string | CidocEntity): CidocActor | undefined {
+    const entity = typeof ref === "string" ? this.entity(ref) : ref
+    return entity ? { ...entity, sameAs: this.sameAs(entity.id) } : undefined
+  }
+
+  /** View an entity as an E12 Production. */
+  production(ref: string | CidocEntity): CidocProduction | undefined {
+    const entity = typeof ref === "string" ? this.entity(ref) : ref
+    if (!entity) return undefined
+    const production: CidocProduction = {
+      ...entity,
+      carriedOutBy: this.related(entity, "P14").map((actor) => this.actor(actor)!),
+      tookPlaceAt: this.related(entity, "P7").map((place) => this.place(place)!),
+      techniques: this.related(entity, "P32").map((type) => this.type(type)!),
+    }
+    const [span] = this.related(entity, "P4")
+    if (span) production.timeSpan = this.timeSpan(span)
+    return production
+  }
+
+  /** View an entity as an E22 Human-Made Object, resolving its production and location. */
+  humanMadeObject(ref: string | CidocEntity): CidocHumanMadeObject | undefined {
+    const entity = typeof ref === "string" ? this.entity(ref) : ref
+    if (!entity) return undefined
+    const names = [...this.related(entity, "P1"), ...this.related(entity, "P102")]
+      .map((appellation) => this.literals(appellation, "P190")[0] ?? appellation.label)
+      .filter((name): name is string => name !== undefined)
+    const object: CidocHumanMadeObject = {
+      ...entity,
+      names: names.length > 0 ? [...new Set(names)] : entity.label ? [entity.label] : [],
+      types: this.related(entity, "P2").map((type) => this.type(type)!),
+      materials: this.related(entity, "P45").map((type) => this.type(type)!),
+      sameAs: this.sameAs(entity.id),
+    }
+    const [production] = this.related(entity, "P108i")
+    if (production) object.production = this.production(production)
+    const [location] = this.related(entity, "P53")
+    if (location) object.location = this.place(location)
+    return object
+  }
+
+  /**
+   * Every E22 Human-Made Object in the document.
+   */
+  objects(): CidocHumanMadeObject[] {
+    return this.entities("E22").map((entity) => this.humanMadeObject(entity)!)
+  }
+
+  /**
+   * The object with this `@id`, or the document's main object: the first top-level E22.
+   */
+  object(id?: string): CidocHumanMadeObject | undefined {
+    if (id !== undefined) return this.humanMadeObject(id)
+    const root = this.roots.map((rootId) => this.nodes.get(rootId)!).find((node) => node.classes.some((name) => matches(name, "E22")))
+    return root ? this.humanMadeObject(root.id) : this.objects()[0]
+  }
+}
@@ -17,7 +17,55 @@
  * ```
  */
 
-import { InheritageApiError } from "./errors"
+import {
+  estimateEntrySize,
+  headersToRecord,
+  MemoryCacheStore,
+  type CacheEntry,
+  type CacheStore,
+  type HttpCacheOptions,
+} from "./cache"
+import { linkAbortSignals } from "./abort"
+import { sha256Hex } from "./checksum"
+import {
+  createApiError,
+  InheritageApiError,
+  InheritageTimeoutError,
+  NetworkError,
+  ParseError,
+  ResponseValidationError,
+  ValidationError,
+} from "./errors"
+import {
+  computeRetryDelay,
+  isAbortError,
+  isIdempotentMethod,
+  resolveRetryPolicy,
+  shouldRetry,
+  sleep,
+  type RetryOptions,
+} from "./retry"
+import { parseNdjsonStream, type NdjsonParseOptions, type NdjsonSource } from "./ndjson"
+import { createPaginators, type InheritagePaginators } from "./pagination"
+import { RequestScheduler, type RequestSchedulerOptions } from "./scheduler"
+import { ChangeWatcher, type WatchChangesOptions } from "./watch"
+import {
+  projectionIssues,
+  responseSchemas,
+  validateSchema,
+  type Schema,
+  type SchemaIssue,
+  type ValidationMode,
+  type ValidationReport,
+} from "./schema"
+import {
+  applyErrorMiddleware,
+  applyRequestMiddleware,
+  applyResponseMiddleware,
+  applyResultMiddleware,
+  type InheritageMiddleware,
+  type MiddlewareRequest,
+} from "./middleware"
 import {
   type AIContextDumpParams,
   type AIContextResponse,
@@ -34,6 +82,7 @@ import {
   type ApiResponse,
   type ChangefeedParams,
   type ChangefeedResponse,
+  type CidocJsonLd,
   type CitationReportRequest,
   type CitationReportResponse,
   type CitationResponse,
@@ -47,9 +96,12 @@ import {
   type HeritageFiltersResponse,
   type HeritageLIDOParams,
   type HeritageLidoExportParams,
+  type HeritageField,
   type HeritageListParams,
   type HeritageListResponse,
+  type HeritageProjection,
   type HeritageSearchParams,
+  type HeritageSearchResponse,
   type JsonValue,
   type MediaResponse,
   type MediaSearchParams,
@@ -83,6 +135,7 @@ const ATTRIBUTION_VISIBLE = "visible"
 const ATTRIBUTION_SUPPRESSED = "suppressed"
 const PLAN_PUBLIC = "public"
 const PLAN_COMMERCIAL = "commercial"
+const CREDENTIAL_HEADERS = ["Authorization", "Proxy-Authorization", "Cookie", "X-API-Key"]
 
 export type AttributionMode = typeof ATTRIBUTION_VISIBLE | typeof ATTRIBUTION_SUPPRESSED
 export type PlanMode = typeof PLAN_PUBLIC | typeof PLAN_COMMERCIAL
@@ -94,13 +147,71 @@ export interface InheritageClientOptions {
   fetch?: typeof globalThis.fetch
   userAgent?: string
   defaultHeaders?: HeadersInit
+  /**
+   * Retry transient failures (429/5xx, network errors) with exponential backoff.
+   * Disabled by default; pass `true` for the default policy.
+   */
+  retry?: RetryOptions | boolean
+  /**
+   * Queue requests behind a concurrency cap and the server's rate-limit window.
+   * Pass a `RequestScheduler` instance to share one budget across clients.
+   */
+  scheduler?: RequestScheduler | RequestSchedulerOptions | boolean
+  /** Middleware applied to every request, in order. See `InheritageClient.use`. */
+  middleware?: InheritageMiddleware[]
+  /**
+   * Cache GET responses and revalidate them with ETag / If-Modified-Since.
+   * Pass `true` for an in-memory LRU store. Per call, `cache: "no-store"` bypasses it.
+   */
+  cache?: HttpCacheOptions | boolean
+  /** Abort requests that take longer than this many milliseconds. Disabled by default. */
+  timeoutMs?: number
+  /**
+   * Check JSON responses against runtime schemas. `"warn"` reports mismatches via
+   * `onValidationIssues`; `"strict"` throws `ResponseValidationError`. Defaults to `"off"`.
+   */
+  validate?: ValidationMode
+  /** Receives schema mismatches in `"warn"` mode. Defaults to `console.warn`. */
+  onValidationIssues?: (report: ValidationReport) => void
+  /**
+   * Report keys a `fields` projection did not ask for (via `onValidationIssues`, or as
+   * `ResponseValidationError` in strict mode). Defaults to true unless `NODE_ENV` is `"production"`.
+   */
+  checkProjections?: boolean
+}
+
+/**
+ * Per-call options for `streamHeritageDump` / `streamAIContextDump`.
+ * `timeoutMs` bounds the wait for response headers, not the full download.
+ */
+export interface NdjsonStreamRequestOptions extends ApiRequestOptions, Omit<NdjsonParseOptions, "signal"> {}
+
+/**
+ * Child client returned by `InheritageClient.createScope`. Shares configuration
+ * with its parent; `abort()` cancels every in-flight and queued request it made.
+ */
+export interface InheritageClientScope extends InheritageClient {
+  readonly signal: AbortSignal
+  abort(reason?: unknown): void
+  /** Detach from the parent scope without aborting, once this scope is no longer used. */
+  dispose(): void
 }
 
 interface RequestOptions<TBody = unknown> extends ApiRequestOptions {
   method: string
   path: string
   body?: TBody
-  responseType?: "json" | "text" | "arrayBuffer"
+  responseType?: "json" | "text" | "arrayBuffer" | "stream"
+  /** Safe to replay on failure. Defaults to true for GET/HEAD/OPTIONS/PUT/DELETE. */
+  idempotent?: boolean
+  /** Runtime schema for the decoded body, checked when validation is enabled. */
+  schema?: Schema
+  /** Requested `fields` projection, checked for unrequested keys when `checkProjections` is on. */
+  fields?: readonly string[]
+}
+
+function isDevelopment(): boolean {
+  return typeof process !== "undefined" && process.env?.["NODE_ENV"] !== "production"
 }
 
 function ensureFetch(fetchImpl: typeof globalThis.fetch | undefined): typeof globalThis.fetch {
@@ -113,6 +224,66 @@ function ensureFetch(fetchImpl: typeof globalThis.fetch | undefined): typeof glo
   throw new Error("Fetch API is not available. Provide a fetch implementation via options.fetch.")
 }
 
+/**
+ * Per-call settings every endpoint forwards to `send`.
+ */
+function forwardOptions(
+  options: ApiRequestOptions
+): Pick<RequestOptions, "ifNoneMatch" | "ifModifiedSince" | "signal" | "timeoutMs" | "validate" | "retry" | "cache" | "revalidate"> {
+  return {
+    ifNoneMatch: options.ifNoneMatch,
+    ifModifiedSince: options.ifModifiedSince,
+    signal: options.signal,
+    timeoutMs: options.timeoutMs,
+    validate: options.validate,
+    retry: options.retry,
+    cache: options.cache,
+    revalidate: options.revalidate,
+  }
+}
+
+interface ResolvedCache {
+  store: CacheStore
+  ttlMs: number
+  maxEntrySize: number
+}
+
+function resolveCache(options: HttpCacheOptions | boolean | undefined): ResolvedCache | undefined {
+  if (!options) return undefined
+  const config = options === true ? {} : options
+  return {
+    store: config.store ?? new MemoryCacheStore(),
+    ttlMs: Math.max(0, config.ttlMs ?? 0),
+    maxEntrySize: config.maxEntrySize ?? Number.POSITIVE_INFINITY,
+  }
+}
+
+function fromCacheEntry<T>(entry: CacheEntry): ApiResponse<T> {
+  return {
+    status: entry.status,
+    data: entry.data as T,
+    headers: new Headers(entry.headers),
+    notModified: false,
+    cached: true,
+  }
+}
+
+/**
+ * Wrap transport failures in `NetworkError`. Caller aborts and timeouts pass through untouched.
+ */
+function toNetworkError(error: unknown, signal?: AbortSignal): unknown {
+  if (error instanceof InheritageApiError || signal?.aborted || isAbortError(error)) {
+    return error
+  }
+  if (error instanceof DOMException && error.name === "TimeoutError") {
+    return error
+  }
+  return new NetworkError({
+    message: error instanceof Error ? error.message : String(error),
+    cause: error,
+  })
+}
+
 function toRateLimit(headers: Headers): RateLimitInfo | undefined {
   const limit = headers.get("X-RateLimit-Limit")
   const remaining = headers.get("X-RateLimit-Remaining")
@@ -195,7 +366,11 @@ function parseNdjsonRecords(input: string | null | undefined): AIVectorRecord[]
       const parsed = JSON.parse(line) as AIVectorRecord
       records.push(parsed)
     } catch (error) {
-      throw new Error(`Failed to parse NDJSON vector record: ${(error as Error).message}`)
+      throw new ParseError({
+        message: `Failed to parse NDJSON vector record: ${(error as Error).message}`,
+        payload: line,
+        cause: error,
+      })
     }
   }
   return records
@@ -207,6 +382,15 @@ export class InheritageClient {
   private readonly attribution: AttributionMode
   private readonly plan: PlanMode
   private readonly baseHeaders: Headers
+  private readonly retry?: RetryOptions | boolean
+  public readonly scheduler?: RequestScheduler
+  private readonly middleware: InheritageMiddleware[]
+  private readonly cache?: ResolvedCache
+  private readonly timeoutMs?: number
+  private readonly validate: ValidationMode
+  private readonly onValidationIssues: (report: ValidationReport) => void
+  private readonly checkProjections: boolean
+  private scopeSignal?: AbortSignal
 
   constructor(options: InheritageClientOptions = {}) {
     this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "")
@@ -220,6 +404,25 @@ export class InheritageClient {
     }
 
     this.fetchImpl = ensureFetch(options.fetch)
+    this.retry = options.retry
+    this.middleware = [...(options.middleware ?? [])]
+    this.cache = resolveCache(options.cache)
+    this.timeoutMs = options.timeoutMs
+    this.validate = options.validate ?? "off"
+    this.checkProjections = options.checkProjections ?? isDevelopment()
+    this.onValidationIssues =
+      options.onValidationIssues ??
+      ((report) => {
+        console.warn(
+          `[inheritage-sdk] ${report.method} ${report.path} response does not match schema (trace ${report.traceId ?? "n/a"})`,
+          report.issues
+        )
+      })
+    if (options.scheduler instanceof RequestScheduler) {
+      this.scheduler = options.scheduler
+    } else if (options.scheduler) {
+      this.scheduler = new RequestScheduler(options.scheduler === true ? {} : options.scheduler)
+    }
 
     this.baseHeaders = new Headers()
     this.baseHeaders.set("Accept", "application/json")
@@ -240,6 +443,63 @@ export class InheritageClient {
     }
   }
 
+  /**
+   * Register middleware that can inspect or modify every request and response.
+   * `onRequest` hooks run in registration order; response-side hooks run in reverse.
+   */
+  use(middleware: InheritageMiddleware): this {
+    this.middleware.push(middleware)
+    return this
+  }
+
+  /**
+   * Async iterators over paginated endpoints (`heritage`, `media`, `aat`, `vectors`).
+   *
+   * @example
+   * ```typescript
+   * for await (const site of client.paginate.heritage({ state: 'Karnataka', limit: 50 })) {
+   *   console.log(site.slug)
+   * }
+   * ```
+   */
+  get paginate(): InheritagePaginators {
+    return createPaginators(this)
+  }
+
+  /**
+   * Create a child client whose requests can all be cancelled together,
+   * e.g. on React unmount or job shutdown. Aborting a parent scope cascades to its children.
+   *
+   * @example
+   * ```typescript
+   * const scope = client.createScope()
+   * scope.getHeritageDump().catch(() => {})
+   * process.once('SIGTERM', () => scope.abort())
+   * ```
+   */
+  createScope(): InheritageClientScope {
+    const controller = new AbortController()
+    const parentSignal = this.scopeSignal
+    const onParentAbort = () => controller.abort(parentSignal?.reason)
+    const detach = () => parentSignal?.removeEventListener("abort", onParentAbort)
+    if (parentSignal?.aborted) {
+      controller.abort(parentSignal.reason)
+    } else if (parentSignal) {
+      parentSignal.addEventListener("abort", onParentAbort, { once: true })
+      controller.signal.addEventListener("abort", detach, { once: true })
+    }
+
+    const scope = Object.assign(Object.create(Object.getPrototypeOf(this)), this) as InheritageClientScope
+    Object.defineProperties(scope, {
+      scopeSignal: { value: controller.signal, writable: false },
+      middleware: { value: [...this.middleware], writable: false },
+      signal: { value: controller.signal, enumerable: true },
+      abort: { value: (reason?: unknown) => controller.abort(reason) },
+      dispose: { value: detach },
+    })
+    return scope
+  }
+
   /**
    * Fetch API dataset manifest (JSON-LD Dataset + discovery links).
    */
@@ -247,9 +507,7 @@ export class InheritageClient {
     return this.send<DatasetManifest>({
       method: "GET",
       path: "/",
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
@@ -260,16 +518,17 @@ export class InheritageClient {
     return this.send<StatsResponse>({
       method: "GET",
       path: "/stats",
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
   /**
    * Paginated heritage catalogue listing.
    */
-  async listHeritage(params: HeritageListParams = {}, options: ApiRequestOptions = {}): Promise<ApiResponse<HeritageListResponse>> {
+  async listHeritage<F extends HeritageField = HeritageField>(
+    params: HeritageListParams<F> = {},
+    options: ApiRequestOptions = {}
+  ): Promise<ApiResponse<HeritageListResponse<HeritageProjection<F>>>> {
     const query: Record<string, string | number | boolean | undefined> = {
       state: params.state,
       dynasty: params.dynasty,
@@ -285,13 +544,13 @@ export class InheritageClient {
       query['fields'] = params.fields.join(",")
     }
 
-    return this.send<HeritageListResponse>({
+    return this.send<HeritageListResponse<HeritageProjection<F>>>({
       method: "GET",
       path: "/heritage",
+      schema: params.fields?.length ? undefined : responseSchemas.heritageList,
+      fields: params.fields,
       query,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
@@ -302,18 +561,20 @@ export class InheritageClient {
     return this.send<HeritageFiltersResponse>({
       method: "GET",
       path: "/heritage/filters",
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
   /**
    * Fetch heritage detail by slug.
    */
-  async getHeritage(slug: string, params: { fields?: string[] } = {}, options: ApiRequestOptions = {}): Promise<ApiResponse<Heritage>> {
+  async getHeritage<F extends HeritageField = HeritageField>(
+    slug: string,
+    params: { fields?: readonly F[] } = {},
+    options: ApiRequestOptions = {}
+  ): Promise<ApiResponse<HeritageProjection<F>>> {
     if (!slug || typeof slug !== "string") {
-      throw new Error("slug is required")
+      throw new ValidationError({ message: "slug is required", field: "slug" })
     }
 
     const query: Record<string, string | undefined> = {}
@@ -324,19 +585,22 @@ export class InheritageClient {
     return this.send<Heritage>({
       method: "GET",
       path: `/heritage/${encodeURIComponent(slug)}`,
+      schema: params.fields?.length ? undefined : responseSchemas.heritage,
+      fields: params.fields,
       query,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
   /**
    * Search heritage catalogue.
    */
-  async searchHeritage(params: HeritageSearchParams, options: ApiRequestOptions = {}): Promise<ApiResponse<{ data: Heritage[]; meta: { total: number; limit: number } }>> {
+  async searchHeritage<F extends HeritageField = HeritageField>(
+    params: HeritageSearchParams<F>,
+    options: ApiRequestOptions = {}
+  ): Promise<ApiResponse<HeritageSearchResponse<HeritageProjection<F>>>> {
     if (!params?.q?.trim()) {
-      throw new Error("search query `q` is required")
+      throw new ValidationError({ message: "search query `q` is required", field: "q" })
     }
 
     const query: Record<string, string | number | undefined> = {
@@ -350,13 +614,13 @@ export class InheritageClient {
       query['fields'] = params.fields.join(",")
     }
 
-    return this.send({
+    return this.send<HeritageSearchResponse<HeritageProjection<F>>>({
       method: "GET",
       path: "/heritage/search",
+      schema: params.fields?.length ? undefined : responseSchemas.heritageSearch,
+      fields: params.fields,
       query,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
@@ -367,9 +631,8 @@ export class InheritageClient {
     return this.send<Heritage>({
       method: "GET",
       path: "/heritage/random",
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      schema: responseSchemas.heritage,
+      ...forwardOptions(options),
     })
   }
 
@@ -380,9 +643,7 @@ export class InheritageClient {
     return this.send<TimelineFeaturedResponse>({
       method: "GET",
       path: "/timeline/featured",
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
@@ -402,10 +663,9 @@ export class InheritageClient {
     return this.send<GeoFeatureCollection>({
       method: "GET",
       path: "/geo/heritage",
+      schema: responseSchemas.geoFeatureCollection,
       query,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
@@ -414,15 +674,14 @@ export class InheritageClient {
    */
   async getGeoFeature(slug: string, options: ApiRequestOptions = {}): Promise<ApiResponse<GeoFeature>> {
     if (!slug || typeof slug !== "string") {
-      throw new Error("slug is required")
+      throw new ValidationError({ message: "slug is required", field: "slug" })
     }
 
     return this.send<GeoFeature>({
       method: "GET",
       path: `/geo/heritage/${encodeURIComponent(slug)}`,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      schema: responseSchemas.geoFeature,
+      ...forwardOptions(options),
     })
   }
 
@@ -431,7 +690,7 @@ export class InheritageClient {
    */
   async getGeoNearby(params: GeoNearbyParams, options: ApiRequestOptions = {}): Promise<ApiResponse<GeoFeatureCollection>> {
     if (!Number.isFinite(params?.lat) || !Number.isFinite(params?.lon)) {
-      throw new Error("lat and lon parameters are required numeric values")
+      throw new ValidationError({ message: "lat and lon parameters are required numeric values", field: "lat" })
     }
 
     const query: Record<string, string | number> = {
@@ -445,15 +704,15 @@ export class InheritageClient {
     return this.send<GeoFeatureCollection>({
       method: "GET",
       path: "/geo/nearby",
+      schema: responseSchemas.geoFeatureCollection,
       query,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
   /**
-   * Stream heritage NDJSON dump.
+   * Download the heritage NDJSON dump as a single string.
+   * Prefer `streamHeritageDump` for the full catalogue.
    */
   async getHeritageDump(params: HeritageDumpParams = {}, options: ApiRequestOptions = {}): Promise<ApiResponse<string>> {
     const query: Record<string, number> = {}
@@ -469,9 +728,7 @@ export class InheritageClient {
       path: "/dump/heritage.ndjson",
       query,
       headers,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
@@ -485,15 +742,15 @@ export class InheritageClient {
     return this.send<GeoFeatureCollection>({
       method: "GET",
       path: "/dump/geo.geojson",
+      schema: responseSchemas.geoFeatureCollection,
       headers,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
   /**
-   * Stream AI context JSONL dump.
+   * Download the AI context JSONL dump as a single string.
+   * Prefer `streamAIContextDump` when embeddings are included.
    */
   async getAIContextDump(params: AIContextDumpParams = {}, options: ApiRequestOptions = {}): Promise<ApiResponse<string>> {
     const query: Record<string, string | number> = {}
@@ -512,12 +769,71 @@ export class InheritageClient {
       path: "/dump/ai-context.jsonl",
       query,
       headers,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
+  /**
+   * Stream the heritage NDJSON dump record by record without buffering the body.
+   *
+   * @example
+   * ```typescript
+   * for await (const site of client.streamHeritageDump({}, { skipInvalid: true, onInvalidLine: (e) => log(e.line) })) {
+   *   await db.upsert(site)
+   * }
+   * ```
+   */
+  streamHeritageDump(params: HeritageDumpParams = {}, options: NdjsonStreamRequestOptions = {}): AsyncGenerator<Heritage, void, undefined> {
+    const query: Record<string, number> = {}
+    if (params.batch !== undefined) {
+      query['batch'] = params.batch
+    }
+
+    const headers = new Headers(options.headers)
+    headers.set("Accept", "application/x-ndjson")
+
+    return this.streamNdjson<Heritage>(
+      {
+        method: "GET",
+        path: "/dump/heritage.ndjson",
+        query,
+        headers,
+        ...forwardOptions(options),
+      },
+      options
+    )
+  }
+
+  /**
+   * Stream the AI context JSONL dump record by record without buffering the body.
+   */
+  streamAIContextDump(
+    params: AIContextDumpParams = {},
+    options: NdjsonStreamRequestOptions = {}
+  ): AsyncGenerator<AIContextResponse, void, undefined> {
+    const query: Record<string, string | number> = {}
+    if (params.batch !== undefined) {
+      query['batch'] = params.batch
+    }
+    if (params.includeEmbedding) {
+      query['include'] = "embedding"
+    }
+
+    const headers = new Headers(options.headers)
+    headers.set("Accept", "application/jsonl")
+
+    return this.streamNdjson<AIContextResponse>(
+      {
+        method: "GET",
+        path: "/dump/ai-context.jsonl",
+        query,
+        headers,
+        ...forwardOptions(options),
+      },
+      options
+    )
+  }
+
   /**
    * Retrieve dataset changefeed entries.
    */
@@ -533,26 +849,38 @@ export class InheritageClient {
     return this.send<ChangefeedResponse>({
       method: "GET",
       path: "/changes",
+      schema: responseSchemas.changefeed,
       query,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
+  /**
+   * Poll the changefeed in the background and emit `upsert`, `unpublished` and
+   * `datasetHashChanged` events (optionally POSTed to a webhook). Call `stop()` to end it.
+   *
+   * @example
+   * ```typescript
+   * const watcher = client.watchChanges({ intervalMs: 30_000, filter: (entry) => entry.slug?.startsWith('hampi') ?? false })
+   * watcher.on('upsert', ({ slug }) => revalidate(slug))
+   * ```
+   */
+  watchChanges(options: WatchChangesOptions = {}): ChangeWatcher {
+    return new ChangeWatcher(this, options).start()
+  }
+
   /**
    * Media bundle for a heritage site.
    */
   async getMedia(slug: string, options: ApiRequestOptions = {}): Promise<ApiResponse<MediaResponse>> {
     if (!slug || typeof slug !== "string") {
-      throw new Error("slug is required")
+      throw new ValidationError({ message: "slug is required", field: "slug" })
     }
     return this.send<MediaResponse>({
       method: "GET",
       path: `/media/${encodeURIComponent(slug)}`,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      schema: responseSchemas.mediaResponse,
+      ...forwardOptions(options),
     })
   }
 
@@ -572,10 +900,9 @@ export class InheritageClient {
     return this.send<MediaSearchResponse>({
       method: "GET",
       path: "/media/search",
+      schema: responseSchemas.mediaSearch,
       query,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
@@ -586,9 +913,8 @@ export class InheritageClient {
     return this.send<MediaResponse>({
       method: "GET",
       path: "/media/random",
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      schema: responseSchemas.mediaResponse,
+      ...forwardOptions(options),
     })
   }
 
@@ -597,15 +923,13 @@ export class InheritageClient {
    */
   async getCitation(entityId: string, options: ApiRequestOptions = {}): Promise<ApiResponse<CitationResponse>> {
     if (!entityId || typeof entityId !== "string") {
-      throw new Error("entityId is required")
+      throw new ValidationError({ message: "entityId is required", field: "entityId" })
     }
 
     return this.send<CitationResponse>({
       method: "GET",
       path: `/citation/${encodeURIComponent(entityId)}`,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
@@ -614,14 +938,14 @@ export class InheritageClient {
    */
   async reportCitation(body: CitationReportRequest, options: ApiRequestOptions = {}): Promise<ApiResponse<CitationReportResponse>> {
     if (!body?.entity || !body.app_name || !body.domain) {
-      throw new Error("entity, app_name, and domain are required fields")
+      throw new ValidationError({ message: "entity, app_name, and domain are required fields" })
     }
 
     return this.send<CitationReportResponse>({
       method: "POST",
       path: "/citation/report",
       body,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
@@ -630,15 +954,14 @@ export class InheritageClient {
    */
   async getAIContext(slug: string, options: ApiRequestOptions = {}): Promise<ApiResponse<AIContextResponse>> {
     if (!slug || typeof slug !== "string") {
-      throw new Error("slug is required")
+      throw new ValidationError({ message: "slug is required", field: "slug" })
     }
 
     return this.send<AIContextResponse>({
       method: "GET",
       path: `/ai/context/${encodeURIComponent(slug)}`,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      schema: responseSchemas.aiContext,
+      ...forwardOptions(options),
     })
   }
 
@@ -647,15 +970,14 @@ export class InheritageClient {
    */
   async getAIEmbedding(slug: string, options: ApiRequestOptions = {}): Promise<ApiResponse<AIEmbeddingResponse>> {
     if (!slug || typeof slug !== "string") {
-      throw new Error("slug is required")
+      throw new ValidationError({ message: "slug is required", field: "slug" })
     }
 
     return this.send<AIEmbeddingResponse>({
       method: "GET",
       path: `/ai/embedding/${encodeURIComponent(slug)}`,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      schema: responseSchemas.aiEmbedding,
+      ...forwardOptions(options),
     })
   }
 
@@ -664,10 +986,10 @@ export class InheritageClient {
    */
   async findSimilar(params: AISimilarParams, options: ApiRequestOptions = {}): Promise<ApiResponse<AISimilarResponse>> {
     if (!params?.slug && !params?.embedding) {
-      throw new Error("Provide either a slug or an embedding array")
+      throw new ValidationError({ message: "Provide either a slug or an embedding array" })
     }
     if (params.embedding && !Array.isArray(params.embedding)) {
-      throw new Error("embedding must be an array of numbers")
+      throw new ValidationError({ message: "embedding must be an array of numbers", field: "embedding" })
     }
 
     const body: Record<string, unknown> = {}
@@ -684,8 +1006,9 @@ export class InheritageClient {
     return this.send<AISimilarResponse>({
       method: "POST",
       path: "/ai/similar",
+      idempotent: true,
       body,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
@@ -694,16 +1017,14 @@ export class InheritageClient {
    */
   async getAIMetadata(slug: string, options: ApiRequestOptions = {}): Promise<ApiResponse<AIMetadataResponse>> {
     if (!slug || typeof slug !== "string") {
-      throw new Error("slug is required")
+      throw new ValidationError({ message: "slug is required", field: "slug" })
     }
 
     return this.send<AIMetadataResponse>({
       method: "GET",
       path: `/ai/meta/${encodeURIComponent(slug)}`,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
       headers: options.headers,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
@@ -712,15 +1033,16 @@ export class InheritageClient {
    */
   async getAIVisionContext(body: AIVisionRequest, options: ApiRequestOptions = {}): Promise<ApiResponse<AIVisionResponse>> {
     if (!body || (typeof body.image_url !== "string" && typeof body.image_base64 !== "string")) {
-      throw new Error("Provide either image_url or image_base64 in the request body")
+      throw new ValidationError({ message: "Provide either image_url or image_base64 in the request body" })
     }
 
     return this.send<AIVisionResponse>({
       method: "POST",
       path: "/ai/vision/context",
+      idempotent: true,
       body,
       headers: options.headers,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
@@ -734,13 +1056,13 @@ export class InheritageClient {
     const query: Record<string, number> = {}
     if (params.limit !== undefined) {
       if (!Number.isFinite(params.limit)) {
-        throw new Error("limit must be a finite number")
+        throw new ValidationError({ message: "limit must be a finite number", field: "limit" })
       }
       query['limit'] = Number(params.limit)
     }
     if (params.offset !== undefined) {
       if (!Number.isFinite(params.offset)) {
-        throw new Error("offset must be a finite number")
+        throw new ValidationError({ message: "offset must be a finite number", field: "offset" })
       }
       query['offset'] = Number(params.offset)
     }
@@ -753,9 +1075,7 @@ export class InheritageClient {
       path: "/ai/vector-index.ndjson",
       query,
       headers,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
 
     return {
@@ -771,31 +1091,27 @@ export class InheritageClient {
     return this.send<AILicenseResponse>({
       method: "GET",
       path: "/license/ai",
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
       headers: options.headers,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
   /**
    * CIDOC-CRM JSON-LD payload for a heritage site.
    */
-  async getHeritageCIDOC(slug: string, options: ApiRequestOptions = {}): Promise<ApiResponse<JsonValue>> {
+  async getHeritageCIDOC(slug: string, options: ApiRequestOptions = {}): Promise<ApiResponse<CidocJsonLd>> {
     if (!slug || typeof slug !== "string") {
-      throw new Error("slug is required")
+      throw new ValidationError({ message: "slug is required", field: "slug" })
     }
 
     const headers = new Headers(options.headers)
     headers.set("Accept", "application/ld+json")
 
-    return this.send<JsonValue>({
+    return this.send<CidocJsonLd>({
       method: "GET",
       path: `/cidoc/${encodeURIComponent(slug)}`,
       headers,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
@@ -804,7 +1120,7 @@ export class InheritageClient {
    */
   async getHeritageLIDO(slug: string, params: HeritageLIDOParams = {}, options: ApiRequestOptions = {}): Promise<ApiResponse<string>> {
     if (!slug || typeof slug !== "string") {
-      throw new Error("slug is required")
+      throw new ValidationError({ message: "slug is required", field: "slug" })
     }
 
     const query: Record<string, string> = {}
@@ -820,9 +1136,7 @@ export class InheritageClient {
       path: `/lido/${encodeURIComponent(slug)}`,
       query,
       headers,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
@@ -855,7 +1169,7 @@ export class InheritageClient {
       path: "/lido/export",
       query,
       headers,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
@@ -888,7 +1202,7 @@ export class InheritageClient {
       path: "/aat",
       query,
       headers: options.headers,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
@@ -897,23 +1211,177 @@ export class InheritageClient {
    */
   async getAATTerm(idOrSlug: string, options: ApiRequestOptions = {}): Promise<ApiResponse<AATStyle>> {
     if (!idOrSlug || typeof idOrSlug !== "string") {
-      throw new Error("idOrSlug is required")
+      throw new ValidationError({ message: "idOrSlug is required", field: "idOrSlug" })
     }
 
     return this.send<AATStyle>({
       method: "GET",
       path: `/aat/${encodeURIComponent(idOrSlug)}`,
       headers: options.headers,
-      ifNoneMatch: options.ifNoneMatch,
-      ifModifiedSince: options.ifModifiedSince,
-      signal: options.signal,
+      ...forwardOptions(options),
     })
   }
 
   /**
-   * Low-level request helper.
+   * Low-level request helper. Serves and revalidates cached GET responses.
    */
   private async send<T>(options: RequestOptions): Promise<ApiResponse<T>> {
+    if (!this.scopeSignal) {
+      return this.sendCached<T>(options)
+    }
+
+    const linked = linkAbortSignals([options.signal, this.scopeSignal])
+    try {
+      return await this.sendCached<T>({ ...options, signal: linked.signal })
+    } finally {
+      linked.dispose()
+    }
+  }
+
+  private async sendCached<T>(options: RequestOptions): Promise<ApiResponse<T>> {
+    const cache = this.cache
+    const mode = options.cache ?? "default"
+    if (!cache || options.method !== "GET" || mode === "no-store" || options.responseType === "stream") {
+      return this.sendWithRetry<T>(options)
+    }
+
+    const key = await this.cacheKey(options)
+    const entry = mode === "reload" ? undefined : await cache.store.get(key)
+    const ttlMs = options.revalidate !== undefined ? options.revalidate * 1000 : cache.ttlMs
+    if (entry) {
+      const fresh = Date.now() - entry.storedAt < ttlMs
+      if (mode === "force-cache" || mode === "only-if-cached" || (mode === "default" && fresh)) {
+        return fromCacheEntry<T>(entry)
+      }
+    }
+    if (mode === "only-if-cached") {
+      throw new InheritageApiError({
+        status: 504,
+        code: "CACHE_MISS",
+        message: `No cached response for ${options.path}`,
+      })
+    }
+
+    const request: RequestOptions = { ...options }
+    if (entry && !options.ifNoneMatch && !options.ifModifiedSince) {
+      request.ifNoneMatch = entry.etag ?? undefined
+      request.ifModifiedSince = entry.lastModified ?? undefined
+    }
+
+    const response = await this.sendWithRetry<T>(request)
+    if (response.notModified) {
+      if (!entry) return response
+      await cache.store.set(key, { ...entry, storedAt: Date.now() })
+      return { ...response, data: entry.data as T, cached: true }
+    }
+
+    await this.storeInCache(cache, key, response, ttlMs)
+    return response
+  }
+
+  /**
+   * URL and Accept, plus a digest of any credential headers so a store shared by
+   * clients with different credentials never serves one caller's response to another.
+   */
+  private async cacheKey(options: RequestOptions): Promise<string> {
+    const headers = this.prepareHeaders(options.headers)
+    const key = `${this.buildUrl(options).toString()} ${headers.get("Accept") ?? ""}`
+    const credentials = CREDENTIAL_HEADERS.map((name) => headers.get(name)).filter((value): value is string => value !== null)
+    if (credentials.length === 0) return key
+    return `${key} ${await sha256Hex(credentials.join("\n"))}`
+  }
+
+  private async storeInCache(cache: ResolvedCache, key: string, response: ApiResponse<unknown>, ttlMs: number): Promise<void> {
+    const etag = response.headers.get("ETag")
+    const lastModified = response.headers.get("Last-Modified")
+    const cacheControl = response.headers.get("Cache-Control") ?? ""
+    if (response.data === null || response.data instanceof ArrayBuffer || /no-store/i.test(cacheControl)) return
+    if (!etag && !lastModified && ttlMs <= 0) return
+
+    const size = estimateEntrySize(response.data)
+    if (size > cache.maxEntrySize) return
+
+    await cache.store.set(key, {
+      data: response.data,
+      status: response.status,
+      headers: headersToRecord(response.headers),
+      etag,
+      lastModified,
+      storedAt: Date.now(),
+      size,
+    })
+  }
+
+  /**
+   * Applies the retry policy around `dispatch`.
+   */
+  private async sendWithRetry<T>(options: RequestOptions): Promise<ApiResponse<T>> {
+    const policy = resolveRetryPolicy(this.retry, options.retry)
+    const idempotent = options.idempotent ?? isIdempotentMethod(options.method)
+    if (!policy || (!idempotent && !policy.retryNonIdempotent)) {
+      return this.dispatch<T>(options)
+    }
+
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        return await this.dispatch<T>(options)
+      } catch (error) {
+        if (attempt >= policy.maxAttempts || options.signal?.aborted || !shouldRetry(policy, error)) {
+          throw error
+        }
+        const retryAfter = error instanceof InheritageApiError ? error.retryAfter : null
+        const delayMs = computeRetryDelay(policy, attempt, retryAfter)
+        policy.onRetry?.({ attempt, delayMs, method: options.method, url: options.path, error })
+        await sleep(delayMs, options.signal)
+      }
+    }
+  }
+
+  /**
+   * Run a single attempt, through the scheduler when one is configured.
+   */
+  private async dispatch<T>(options: RequestOptions): Promise<ApiResponse<T>> {
+    const scheduler = this.scheduler
+    if (!scheduler) {
+      return this.sendOnce<T>(options)
+    }
+
+    return scheduler.schedule(async () => {
+      try {
+        const response = await this.sendOnce<T>(options)
+        scheduler.update(response.rateLimit)
+        return response
+      } catch (error) {
+        if (error instanceof InheritageApiError) {
+          scheduler.update(error.rateLimit)
+          if (error.status === 429 && typeof error.retryAfter === "number") {
+            scheduler.pauseFor(error.retryAfter * 1000)
+          }
+        }
+        throw error
+      }
+    }, options.signal)
+  }
+
+  /**
+   * Request a body as a stream and parse it line by line. The caller and scope
+   * signals stay linked to the body for the whole iteration.
+   */
+  private async *streamNdjson<T>(options: RequestOptions, parse: NdjsonParseOptions): AsyncGenerator<T, void, undefined> {
+    const response = await this.send<NdjsonSource>({ ...options, responseType: "stream" })
+    const linked = linkAbortSignals([options.signal, this.scopeSignal])
+    try {
+      yield* parseNdjsonStream<T>(response.data, {
+        skipInvalid: parse.skipInvalid,
+        onInvalidLine: parse.onInvalidLine,
+        signal: linked.signal,
+      })
+    } finally {
+      linked.dispose()
+    }
+  }
+
+  private buildUrl(options: RequestOptions): URL {
     const base = this.baseUrl.endsWith("/") ? this.baseUrl : `${this.baseUrl}/`
     const relativePath = (options.path ?? "").replace(/^\/+/, "")
     const url = new URL(relativePath, base)
@@ -929,6 +1397,11 @@ export class InheritageClient {
       }
     }
 
+    return url
+  }
+
+  private async sendOnce<T>(options: RequestOptions): Promise<ApiResponse<T>> {
+    const url = this.buildUrl(options)
     const headers = this.prepareHeaders(options.headers, options.body)
 
     if (options.ifNoneMatch) {
@@ -950,13 +1423,83 @@ export class InheritageClient {
       }
     }
 
-    const response = await this.fetchImpl(url.toString(), {
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs
+    const abort = linkAbortSignals([options.signal], timeoutMs)
+    let request: MiddlewareRequest
+    try {
+      request = await applyRequestMiddleware(this.middleware, {
+        method: options.method,
+        url,
+        headers,
+        body: payload,
+        signal: abort.signal,
+      })
+    } catch (error) {
+      abort.dispose()
+      throw error
+    }
+
+    let result: ApiResponse<T>
+    try {
+      const rawResponse = await this.fetchImpl(request.url.toString(), {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: request.signal,
+      }).catch((error: unknown) => {
+        throw toNetworkError(error, request.signal)
+      })
+      const response = await applyResponseMiddleware(this.middleware, rawResponse, request)
+      result = await this.parseResponse<T>(response, options.responseType)
+      this.validateResult(result, options)
+    } catch (error) {
+      if (abort.timedOut) {
+        const timeout = new InheritageTimeoutError({ timeoutMs: timeoutMs!, method: request.method, url: request.url.toString(), cause: error })
+        return applyErrorMiddleware<T>(this.middleware, timeout, request)
+      }
+      if (error instanceof InheritageApiError) {
+        return applyErrorMiddleware<T>(this.middleware, error, request)
+      }
+      throw error
+    } finally {
+      abort.dispose()
+    }
+    return applyResultMiddleware(this.middleware, result, request)
+  }
+
+  private validateResult(result: ApiResponse<unknown>, options: RequestOptions): void {
+    const mode = options.validate ?? this.validate
+    if (result.notModified) return
+
+    const issues: SchemaIssue[] = []
+    if (mode !== "off" && options.schema) {
+      issues.push(...validateSchema(options.schema, result.data))
+    }
+    if (this.checkProjections && options.fields?.length) {
+      issues.push(...projectionIssues(options.fields, result.data))
+    }
+    if (issues.length === 0) return
+
+    if (mode === "strict") {
+      throw new ResponseValidationError({
+        status: result.status,
+        path: options.path,
+        issues,
+        traceId: result.traceId,
+        rateLimit: result.rateLimit,
+        payload: result.data,
+      })
+    }
+    this.onValidationIssues({
       method: options.method,
-      headers,
-      body: payload,
-      signal: options.signal,
+      path: options.path,
+      status: result.status,
+      traceId: result.traceId,
+      issues,
     })
+  }
 
+  private async parseResponse<T>(response: Response, responseType?: RequestOptions["responseType"]): Promise<ApiResponse<T>> {
     const traceId = response.headers.get("X-Trace-Id") ?? undefined
     const rateLimit = toRateLimit(response.headers)
 
@@ -971,9 +1514,22 @@ export class InheritageClient {
       }
     }
 
+    if (responseType === "stream" && response.ok) {
+      return {
+        status: response.status,
+        data: (response.status === 204 ? "" : response.body ?? (await response.text())) as T,
+        headers: response.headers,
+        traceId,
+        rateLimit,
+        notModified: false,
+      }
+    }
+
     const contentType = response.headers.get("Content-Type") || ""
     const inferredType = inferResponseType(contentType)
-    let finalType: "json" | "text" | "arrayBuffer" = inferredType === "json" ? "json" : options.responseType ?? inferredType
+    // Streamed error bodies are decoded like any other error response.
+    const requestedType = responseType === "stream" ? undefined : responseType
+    let finalType: "json" | "text" | "arrayBuffer" = inferredType === "json" ? "json" : requestedType ?? inferredType
     if (inferredType === "json") {
       finalType = "json"
     }
@@ -981,30 +1537,41 @@ export class InheritageClient {
     let parsedBody: unknown = null
 
     if (response.status !== 204) {
-      try {
-        if (finalType === "arrayBuffer") {
-          parsedBody = await response.arrayBuffer()
-        } else if (finalType === "text") {
-          parsedBody = await response.text()
-        } else {
-          parsedBody = await response.json()
-        }
-      } catch {
-        if (finalType === "arrayBuffer") {
-          parsedBody = new ArrayBuffer(0)
-        } else if (finalType === "text") {
-          parsedBody = ""
-        } else {
-          parsedBody = null
+      if (finalType === "arrayBuffer") {
+        parsedBody = await response.arrayBuffer().catch((error: unknown) => {
+          throw toNetworkError(error)
+        })
+      } else {
+        const text = await response.text().catch((error: unknown) => {
+          throw toNetworkError(error)
+        })
+        if (finalType === "text") {
+          parsedBody = text
+        } else if (text.trim()) {
+          try {
+            parsedBody = JSON.parse(text)
+          } catch (error) {
+            if (response.ok) {
+              throw new ParseError({
+                status: response.status,
+                message: `Failed to parse JSON response: ${(error as Error).message}`,
+                traceId,
+                rateLimit,
+                payload: text,
+                cause: error,
+              })
+            }
+            parsedBody = text
+          }
         }
       }
     }
 
     if (!response.ok) {
       const errorEnvelope = typeof parsedBody === "object" && parsedBody !== null ? (parsedBody as Record<string, any>)['error'] : undefined
-      const error = new InheritageApiError({
+      throw createApiError({
         status: response.status,
-        code: errorEnvelope?.code ?? "INTERNAL_SERVER_ERROR",
+        code: errorEnvelope?.code,
         message: errorEnvelope?.message ?? response.statusText,
         hint: errorEnvelope?.hint ?? null,
         doc: errorEnvelope?.doc ?? null,
@@ -1013,7 +1580,6 @@ export class InheritageClient {
         rateLimit,
         payload: parsedBody,
       })
-      throw error
     }
 
     return {
@@ -1054,6 +1620,7 @@ export class InheritageClient {
 
   /**
    * Execute a SPARQL query against the heritage knowledge graph.
+   * Build queries with `sparqlSelect` and get typed rows from `querySparql` / `paginateSparql`.
    * @param request - SPARQL query request
    * @param options - Request options
    * @returns SPARQL query results
@@ -1065,7 +1632,7 @@ export class InheritageClient {
     options: ApiRequestOptions = {}
   ): Promise<ApiResponse<SparqlResponse>> {
     if (!request.query || typeof request.query !== "string") {
-      throw new Error("query is required")
+      throw new ValidationError({ message: "query is required", field: "query" })
     }
 
     // Use POST for large queries, GET for small ones
@@ -1075,15 +1642,18 @@ export class InheritageClient {
       return this.send<SparqlResponse>({
         method: "POST",
         path: "/sparql",
+        idempotent: true,
         body: request,
-        ...options,
+        headers: options.headers,
+        ...forwardOptions(options),
       })
     } else {
       return this.send<SparqlResponse>({
         method: "GET",
         path: "/sparql",
         query: { query: request.query },
-        ...options,
+        headers: options.headers,
+        ...forwardOptions(options),
       })
     }
   }
@@ -1102,7 +1672,8 @@ export class InheritageClient {
     return this.send<AtlasSitesResponse>({
       method: "GET",
       path: "/atlas/sites",
-      ...options,
+      headers: options.headers,
+      ...forwardOptions(options),
     })
   }
 
@@ -1122,14 +1693,15 @@ export class InheritageClient {
     options: ApiRequestOptions = {}
   ): Promise<ApiResponse<GeocodeResponse>> {
     if (!address || typeof address !== "string") {
-      throw new Error("address is required")
+      throw new ValidationError({ message: "address is required", field: "address" })
     }
 
     return this.send<GeocodeResponse>({
       method: "GET",
       path: "/google-maps/geocode",
       query: { address },
-      ...options,
+      headers: options.headers,
+      ...forwardOptions(options),
     })
   }
 
@@ -1145,14 +1717,16 @@ export class InheritageClient {
     options: ApiRequestOptions = {}
   ): Promise<ApiResponse<ElevationResponse>> {
     if (!request.locations || !Array.isArray(request.locations) || request.locations.length === 0) {
-      throw new Error("locations array is required")
+      throw new ValidationError({ message: "locations array is required", field: "locations" })
     }
 
     return this.send<ElevationResponse>({
       method: "POST",
       path: "/google-maps/elevation",
+      idempotent: true,
       body: request,
-      ...options,
+      headers: options.headers,
+      ...forwardOptions(options),
     })
   }
 
@@ -1168,14 +1742,16 @@ export class InheritageClient {
     options: ApiRequestOptions = {}
   ): Promise<ApiResponse<PlacesResponse>> {
     if (!request.location || !request.radius) {
-      throw new Error("location and radius are required")
+      throw new ValidationError({ message: "location and radius are required" })
     }
 
     return this.send<PlacesResponse>({
       method: "POST",
       path: "/google-maps/places",
+      idempotent: true,
       body: request,
-      ...options,
+      headers: options.headers,
+      ...forwardOptions(options),
     })
   }
 
@@ -1193,7 +1769,8 @@ export class InheritageClient {
     return this.send<AATLanguagesResponse>({
       method: "GET",
       path: "/aat/languages",
-      ...options,
+      headers: options.headers,
+      ...forwardOptions(options),
     })
   }
 
@@ -1207,7 +1784,8 @@ export class InheritageClient {
     return this.send<AATMaterialsResponse>({
       method: "GET",
       path: "/aat/materials",
-      ...options,
+      headers: options.headers,
+      ...forwardOptions(options),
     })
   }
 
@@ -1221,7 +1799,8 @@ export class InheritageClient {
     return this.send<AATScriptsResponse>({
       method: "GET",
       path: "/aat/scripts",
-      ...options,
+      headers: options.headers,
+      ...forwardOptions(options),
     })
   }
 
@@ -1238,14 +1817,16 @@ export class InheritageClient {
     options: ApiRequestOptions = {}
   ): Promise<ApiResponse<AATReconcileResponse>> {
     if (!request.queries || typeof request.queries !== "object") {
-      throw new Error("queries object is required")
+      throw new ValidationError({ message: "queries object is required", field: "queries" })
     }
 
     return this.send<AATReconcileResponse>({
       method: "POST",
       path: "/aat/reconcile",
+      idempotent: true,
       body: request,
-      ...options,
+      headers: options.headers,
+      ...forwardOptions(options),
     })
   }
 
@@ -1265,14 +1846,15 @@ export class InheritageClient {
     options: ApiRequestOptions = {}
   ): Promise<ApiResponse<{ success: boolean }>> {
     if (!request.organization || !request.contact_name || !request.email || !request.intended_use) {
-      throw new Error("organization, contact_name, email, and intended_use are required")
+      throw new ValidationError({ message: "organization, contact_name, email, and intended_use are required" })
     }
 
     return this.send<{ success: boolean }>({
       method: "POST",
       path: "/leads/submit",
       body: request,
-      ...options,
+      headers: options.headers,
+      ...forwardOptions(options),
     })
   }
 
@@ -1298,7 +1880,7 @@ export class InheritageClient {
     ]
     for (const field of requiredFields) {
       if (!request[field]) {
-        throw new Error(`${field} is required`)
+        throw new ValidationError({ message: `${field} is required`, field })
       }
     }
 
@@ -1306,7 +1888,8 @@ export class InheritageClient {
       method: "POST",
       path: "/pilots/apply",
       body: request,
-      ...options,
+      headers: options.headers,
+      ...forwardOptions(options),
     })
   }
 
@@ -1321,14 +1904,14 @@ export class InheritageClient {
    * @endpoint GET /oai-pmh?verb=Identify
    * @standard OAI-PMH 2.0
    */
-  public async oaipmhIdentify(options?: ApiRequestOptions): Promise<ApiResponse<string>> {
+  public async oaipmhIdentify(options: ApiRequestOptions = {}): Promise<ApiResponse<string>> {
     return this.send<string>({
       method: "GET",
       path: "/oai-pmh",
       query: { verb: "Identify" },
-      ...options,
+      ...forwardOptions(options),
       headers: {
-        ...options?.headers,
+        ...options.headers,
         Accept: "text/xml",
       },
     })
@@ -1341,14 +1924,14 @@ export class InheritageClient {
    * @endpoint GET /oai-pmh?verb=ListMetadataFormats
    * @standard OAI-PMH 2.0
    */
-  public async oaipmhListMetadataFormats(options?: ApiRequestOptions): Promise<ApiResponse<string>> {
+  public async oaipmhListMetadataFormats(options: ApiRequestOptions = {}): Promise<ApiResponse<string>> {
     return this.send<string>({
       method: "GET",
       path: "/oai-pmh",
       query: { verb: "ListMetadataFormats" },
-      ...options,
+      ...forwardOptions(options),
       headers: {
-        ...options?.headers,
+        ...options.headers,
         Accept: "text/xml",
       },
     })
@@ -1361,14 +1944,14 @@ export class InheritageClient {
    * @endpoint GET /oai-pmh?verb=ListSets
    * @standard OAI-PMH 2.0
    */
-  public async oaipmhListSets(options?: ApiRequestOptions): Promise<ApiResponse<string>> {
+  public async oaipmhListSets(options: ApiRequestOptions = {}): Promise<ApiResponse<string>> {
     return this.send<string>({
       method: "GET",
       path: "/oai-pmh",
       query: { verb: "ListSets" },
-      ...options,
+      ...forwardOptions(options),
       headers: {
-        ...options?.headers,
+        ...options.headers,
         Accept: "text/xml",
       },
     })
@@ -1391,19 +1974,18 @@ export class InheritageClient {
       set?: string
       resumptionToken?: string
     },
-    options?: ApiRequestOptions
+    options: ApiRequestOptions = {}
   ): Promise<ApiResponse<string>> {
     return this.send<string>({
       method: "GET",
       path: "/oai-pmh",
-      query: {
-        verb: "ListIdentifiers",
-        metadataPrefix,
-        ...params,
-      } as Record<string, string>,
-      ...options,
+      // resumptionToken is an exclusive argument in OAI-PMH 2.0.
+      query: params?.resumptionToken
+        ? { verb: "ListIdentifiers", resumptionToken: params.resumptionToken }
+        : ({ verb: "ListIdentifiers", metadataPrefix, ...params } as Record<string, string>),
+      ...forwardOptions(options),
       headers: {
-        ...options?.headers,
+        ...options.headers,
         Accept: "text/xml",
       },
     })
@@ -1426,19 +2008,18 @@ export class InheritageClient {
       set?: string
       resumptionToken?: string
     },
-    options?: ApiRequestOptions
+    options: ApiRequestOptions = {}
   ): Promise<ApiResponse<string>> {
     return this.send<string>({
       method: "GET",
       path: "/oai-pmh",
-      query: {
-        verb: "ListRecords",
-        metadataPrefix,
-        ...params,
-      } as Record<string, string>,
-      ...options,
+      // resumptionToken is an exclusive argument in OAI-PMH 2.0.
+      query: params?.resumptionToken
+        ? { verb: "ListRecords", resumptionToken: params.resumptionToken }
+        : ({ verb: "ListRecords", metadataPrefix, ...params } as Record<string, string>),
+      ...forwardOptions(options),
       headers: {
-        ...options?.headers,
+        ...options.headers,
         Accept: "text/xml",
       },
     })
@@ -1456,7 +2037,7 @@ export class InheritageClient {
   public async oaipmhGetRecord(
     identifier: string,
     metadataPrefix: "oai_dc" | "lido",
-    options?: ApiRequestOptions
+    options: ApiRequestOptions = {}
   ): Promise<ApiResponse<string>> {
     return this.send<string>({
       method: "GET",
@@ -1466,9 +2047,9 @@ export class InheritageClient {
         identifier,
         metadataPrefix,
       },
-      ...options,
+      ...forwardOptions(options),
       headers: {
-        ...options?.headers,
+        ...options.headers,
         Accept: "text/xml",
       },
     })
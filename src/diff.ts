@@ -0,0 +1,256 @@
+/**
+ * Record and Snapshot Diffing for Inheritage SDK
+ *
+ * Field-level changes between two heritage records, and a dataset-wide
+ * report comparing two heritage NDJSON dumps
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * const diff = diffHeritage(previous, (await client.getHeritage(slug)).data)
+ * for (const change of diff.changes) {
+ *   console.log(change.kind, change.path, change.before, '→', change.after)
+ * }
+ * ```
+ */
+
+import { canonicalJson } from "./checksum"
+import { parseNdjsonStream, type NdjsonParseOptions, type NdjsonSource } from "./ndjson"
+import type { Heritage } from "./types"
+
+export type FieldChangeKind = "added" | "removed" | "changed"
+
+export interface FieldChange {
+  /** Dotted path with array indices, e.g. `architecture.style` or `timeline[2].event`. */
+  path: string
+  kind: FieldChangeKind
+  before?: unknown
+  after?: unknown
+}
+
+export interface HeritageDiff {
+  slug: string
+  changed: boolean
+  /** Top-level keys with at least one change, e.g. `["media", "visitor_info"]`. */
+  fields: string[]
+  changes: FieldChange[]
+}
+
+export interface HeritageDiffOptions {
+  /** Paths (and everything below them) to skip, e.g. `["analytics", "status.view_count"]`. */
+  ignore?: readonly string[]
+  /**
+   * Identity key per array-of-objects path, so reordered entries are matched instead of
+   * compared by index, e.g. `{ references: "url" }`. Paths use `[]` for nested arrays.
+   */
+  arrayKeys?: Record<string, string>
+}
+
+/**
+ * A dump as NDJSON (text, stream or chunks) or already-parsed records.
+ */
+export type HeritageSnapshot = NdjsonSource | readonly Heritage[]
+
+export interface SnapshotDiffOptions extends HeritageDiffOptions, NdjsonParseOptions {}
+
+export interface SnapshotDiffReport {
+  added: string[]
+  removed: string[]
+  modified: HeritageDiff[]
+  summary: {
+    added: number
+    removed: number
+    modified: number
+    unchanged: number
+    /** Change counts per field path, with array indices collapsed (`timeline[].event`). */
+    fields: Record<string, number>
+  }
+}
+
+type PlainObject = Record<string, unknown>
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isPrimitive(value: unknown): boolean {
+  return value === null || typeof value !== "object"
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || canonicalJson(a) === canonicalJson(b)
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key
+}
+
+function collapseIndices(path: string): string {
+  return path.replace(/\[\d+\]/g, "[]")
+}
+
+class Differ {
+  readonly changes: FieldChange[] = []
+
+  constructor(private readonly options: HeritageDiffOptions) {}
+
+  compare(before: unknown, after: unknown, path: string): void {
+    if (this.isIgnored(path) || isEqual(before, after)) return
+    if (isPlainObject(before) && isPlainObject(after)) {
+      this.compareObjects(before, after, path)
+    } else if (Array.isArray(before) && Array.isArray(after)) {
+      this.compareArrays(before, after, path)
+    } else {
+      this.changes.push({ path, kind: "changed", before, after })
+    }
+  }
+
+  private isIgnored(path: string): boolean {
+    return (this.options.ignore ?? []).some(
+      (ignored) => path === ignored || path.startsWith(`${ignored}.`) || path.startsWith(`${ignored}[`)
+    )
+  }
+
+  private compareObjects(before: PlainObject, after: PlainObject, path: string): void {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort()
+    for (const key of keys) {
+      const childPath = joinPath(path, key)
+      if (this.isIgnored(childPath)) continue
+      if (before[key] === undefined && after[key] !== undefined) {
+        this.changes.push({ path: childPath, kind: "added", after: after[key] })
+      } else if (before[key] !== undefined && after[key] === undefined) {
+        this.changes.push({ path: childPath, kind: "removed", before: before[key] })
+      } else {
+        this.compare(before[key], after[key], childPath)
+      }
+    }
+  }
+
+  /**
+   * Lists of scalars (gallery URLs, materials) are compared as sets; a pure reorder is
+   * reported as one change of the whole list. Lists of objects are matched by
+   * `arrayKeys` when configured, by position otherwise.
+   */
+  private compareArrays(before: unknown[], after: unknown[], path: string): void {
+    if (before.every(isPrimitive) && after.every(isPrimitive)) {
+      const removed = before.filter((item) => !after.includes(item))
+      const added = after.filter((item) => !before.includes(item))
+      if (removed.length === 0 && added.length === 0) {
+        this.changes.push({ path, kind: "changed", before, after })
+        return
+      }
+      removed.forEach((item) => this.changes.push({ path, kind: "removed", before: item }))
+      added.forEach((item) => this.changes.push({ path, kind: "added", after: item }))
+      return
+    }
+
+    const key = this.options.arrayKeys?.[collapseIndices(path)]
+    if (key) {
+      this.compareKeyedArrays(before, after, path, key)
+      return
+    }
+
+    const length = Math.max(before.length, after.length)
+    for (let index = 0; index < length; index += 1) {
+      const childPath = `${path}[${index}]`
+      if (index >= before.length) this.changes.push({ path: childPath, kind: "added", after: after[index] })
+      else if (index >= after.length) this.changes.push({ path: childPath, kind: "removed", before: before[index] })
+      else this.compare(before[index], after[index], childPath)
+    }
+  }
+
+  private compareKeyedArrays(before: unknown[], after: unknown[], path: string, key: string): void {
+    const identity = (item: unknown) => (isPlainObject(item) ? item[key] : undefined)
+    const previous = new Map(before.map((item) => [identity(item), item] as const))
+    const matched = new Set<unknown>()
+
+    after.forEach((item, index) => {
+      const id = identity(item)
+      const childPath = `${path}[${index}]`
+      if (id !== undefined && previous.has(id)) {
+        matched.add(id)
+        this.compare(previous.get(id), item, childPath)
+      } else {
+        this.changes.push({ path: childPath, kind: "added", after: item })
+      }
+    })
+    before.forEach((item, index) => {
+      const id = identity(item)
+      if (id === undefined || !matched.has(id)) {
+        this.changes.push({ path: `${path}[${index}]`, kind: "removed", before: item })
+      }
+    })
+  }
+}
+
+/**
+ * Field-level changes from `before` to `after`, recursing into nested objects and arrays.
+ */
+export function diffHeritage(before: Partial<Heritage>, after: Partial<Heritage>, options: HeritageDiffOptions = {}): HeritageDiff {
+  const differ = new Differ(options)
+  differ.compare(before, after, "")
+  const changes = differ.changes
+  const fields = Array.from(new Set(changes.map((change) => change.path.split(/[.[]/)[0])))
+  return { slug: after?.slug ?? before?.slug ?? "", changed: changes.length > 0, fields, changes }
+}
+
+async function* readSnapshot(snapshot: HeritageSnapshot, options: NdjsonParseOptions): AsyncGenerator<Heritage> {
+  if (Array.isArray(snapshot)) {
+    yield* snapshot as readonly Heritage[]
+    return
+  }
+  yield* parseNdjsonStream<Heritage>(snapshot as NdjsonSource, options)
+}
+
+/**
+ * Compare two heritage dumps by slug. The `before` snapshot is held in memory;
+ * `after` is streamed.
+ */
+export async function diffHeritageSnapshots(
+  before: HeritageSnapshot,
+  after: HeritageSnapshot,
+  options: SnapshotDiffOptions = {}
+): Promise<SnapshotDiffReport> {
+  const { ignore, arrayKeys, ...parseOptions } = options
+  const previous = new Map<string, Heritage>()
+  for await (const record of readSnapshot(before, parseOptions)) {
+    if (record?.slug) previous.set(record.slug, record)
+  }
+
+  const report: SnapshotDiffReport = {
+    added: [],
+    removed: [],
+    modified: [],
+    summary: { added: 0, removed: 0, modified: 0, unchanged: 0, fields: {} },
+  }
+
+  for await (const record of readSnapshot(after, parseOptions)) {
+    if (!record?.slug) continue
+    const old = previous.get(record.slug)
+    if (!old) {
+      report.added.push(record.slug)
+      continue
+    }
+    previous.delete(record.slug)
+    const diff = diffHeritage(old, record, { ignore, arrayKeys })
+    if (!diff.changed) {
+      report.summary.unchanged += 1
+      continue
+    }
+    report.modified.push(diff)
+    for (const change of diff.changes) {
+      const path = collapseIndices(change.path)
+      report.summary.fields[path] = (report.summary.fields[path] ?? 0) + 1
+    }
+  }
+
+  report.removed = Array.from(previous.keys())
+  report.summary.added = report.added.length
+  report.summary.removed = report.removed.length
+  report.summary.modified = report.modified.length
+  return report
+}
@@ -0,0 +1,230 @@
+/**
+ * Dublin Core Model for Inheritage SDK
+ *
+ * Typed Simple Dublin Core (`oai_dc`) records and mapping to and
+ * from the SDK's `Heritage` type
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * for await (const record of harvestOaiRecords(client, { metadataPrefix: 'oai_dc' })) {
+ *   if (record.metadata) console.log(dublinCoreToHeritage(record.metadata).slug)
+ * }
+ * ```
+ */
+
+import { diffHeritage, type HeritageDiff } from "./diff"
+import type { Heritage } from "./types"
+import { childElements, escapeXml, findElements, parseXml, textContent, type XmlElement } from "./xml"
+
+export type DublinCoreElement =
+  | "title"
+  | "creator"
+  | "subject"
+  | "description"
+  | "publisher"
+  | "contributor"
+  | "date"
+  | "type"
+  | "format"
+  | "identifier"
+  | "source"
+  | "language"
+  | "relation"
+  | "coverage"
+  | "rights"
+
+export const DUBLIN_CORE_ELEMENTS: readonly DublinCoreElement[] = [
+  "title",
+  "creator",
+  "subject",
+  "description",
+  "publisher",
+  "contributor",
+  "date",
+  "type",
+  "format",
+  "identifier",
+  "source",
+  "language",
+  "relation",
+  "coverage",
+  "rights",
+]
+
+/**
+ * Simple Dublin Core: all fifteen elements, each repeatable and possibly empty.
+ */
+export type DublinCoreRecord = Record<DublinCoreElement, string[]>
+
+/**
+ * `Heritage` fields that `dublinCoreToHeritage` can fill.
+ */
+export type DublinCoreHeritageField =
+  | "slug"
+  | "official_url"
+  | "name"
+  | "built_by"
+  | "year_built"
+  | "category"
+  | "materials"
+  | "same_as"
+
+export const DUBLIN_CORE_HERITAGE_FIELDS: readonly DublinCoreHeritageField[] = [
+  "slug",
+  "official_url",
+  "name",
+  "built_by",
+  "year_built",
+  "category",
+  "materials",
+  "same_as",
+]
+
+const OAI_DC_NAMESPACE = "http://www.openarchives.org/OAI/2.0/oai_dc/"
+const DC_NAMESPACE = "http://purl.org/dc/elements/1.1/"
+const OAI_IDENTIFIER = /^oai:[^:]+:heritage:(.+)$/
+const HERITAGE_URL = /\/heritage\/([^/?#]+)\/?(?:[?#].*)?$/
+
+/**
+ * A record with every element present and empty.
+ */
+export function emptyDublinCore(): DublinCoreRecord {
+  return {
+    title: [],
+    creator: [],
+    subject: [],
+    description: [],
+    publisher: [],
+    contributor: [],
+    date: [],
+    type: [],
+    format: [],
+    identifier: [],
+    source: [],
+    language: [],
+    relation: [],
+    coverage: [],
+    rights: [],
+  }
+}
+
+/**
+ * Parse an `oai_dc:dc` block (XML text or an element from `parseXml`). Elements are
+ * matched by local name; blank values are dropped.
+ */
+export function parseDublinCore(input: string | XmlElement): DublinCoreRecord {
+  const root = typeof input === "string" ? parseXml(input) : input
+  const container = root.localName === "dc" ? root : findElements(root, "dc")[0] ?? root
+  const record = emptyDublinCore()
+  for (const child of childElements(container)) {
+    const name = child.localName as DublinCoreElement
+    if (!DUBLIN_CORE_ELEMENTS.includes(name)) continue
+    const value = textContent(child)
+    if (value) record[name].push(value)
+  }
+  return record
+}
+
+/**
+ * Serialize as an `oai_dc:dc` block.
+ */
+export function serializeDublinCore(record: Partial<DublinCoreRecord>): string {
+  const lines = [
+    `<oai_dc:dc xmlns:oai_dc="${OAI_DC_NAMESPACE}" xmlns:dc="${DC_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${OAI_DC_NAMESPACE} http://www.openarchives.org/OAI/2.0/oai_dc.xsd">`,
+  ]
+  for (const element of DUBLIN_CORE_ELEMENTS) {
+    for (const value of record[element] ?? []) {
+      lines.push(`  <dc:${element}>${escapeXml(value)}</dc:${element}>`)
+    }
+  }
+  lines.push(`</oai_dc:dc>`)
+  return lines.join("\n")
+}
+
+function present(...values: (string | null | undefined)[]): string[] {
+  return values.filter((value): value is string => typeof value === "string" && value.trim() !== "")
+}
+
+/**
+ * Map a site to Dublin Core. Spatial and temporal context (location, state, country,
+ * period) goes to `coverage`, the architectural style to `type` after the DCMI type,
+ * materials to `format`, `same_as` links to `relation`.
+ */
+export function heritageToDublinCore(site: Heritage): DublinCoreRecord {
+  const citation = site.citations?.[0]
+  return {
+    ...emptyDublinCore(),
+    identifier: present(`oai:inheritage.foundation:heritage:${site.slug}`, site.official_url),
+    title: present(site.name),
+    creator: present(site.built_by),
+    subject: present(site.category),
+    description: present(site.summary, site.description),
+    publisher: present(citation?.name ?? "Inheritage Foundation"),
+    date: present(site.year_built),
+    type: present("PhysicalObject", site.architecture?.style),
+    format: present(...(site.materials ?? [])),
+    language: ["en"],
+    coverage: present(site.location, site.state, site.country, site.period),
+    relation: present(...(site.same_as ?? [])),
+    rights: present(citation?.required_display || citation?.license || "CC BY 4.0"),
+  }
+}
+
+/**
+ * Map Dublin Core back to the `Heritage` fields it can express unambiguously
+ * (see `DUBLIN_CORE_HERITAGE_FIELDS`). A field is set only when its element is present
+ * in `record`. The slug comes from an `oai:<repository>:heritage:<slug>` identifier or a
+ * `/heritage/<slug>` URL. `summary` and `description` share `description` and are not
+ * read back.
+ */
+export function dublinCoreToHeritage(record: Partial<DublinCoreRecord>): Partial<Pick<Heritage, DublinCoreHeritageField>> {
+  const identifiers = record.identifier ?? []
+  const url = identifiers.find((value) => /^https?:\/\//i.test(value))
+  const slug =
+    identifiers.map((value) => OAI_IDENTIFIER.exec(value)?.[1]).find(Boolean) ??
+    identifiers.map((value) => HERITAGE_URL.exec(value)?.[1]).find(Boolean)
+
+  const site: Partial<Pick<Heritage, DublinCoreHeritageField>> = {}
+  if (record.title) site.name = record.title[0] ?? ""
+  if (record.creator) site.built_by = record.creator[0] ?? null
+  if (record.date) site.year_built = record.date[0] ?? null
+  if (record.subject) site.category = record.subject[0] ?? null
+  if (record.format) site.materials = [...record.format]
+  if (record.relation) site.same_as = record.relation.filter((value) => /^https?:\/\//i.test(value))
+  if (slug) site.slug = decodeSlug(slug)
+  if (url) site.official_url = url
+  return site
+}
+
+function decodeSlug(slug: string): string {
+  try {
+    return decodeURIComponent(slug)
+  } catch {
+    return slug
+  }
+}
+
+function copyField<K extends DublinCoreHeritageField>(target: Partial<Heritage>, source: Partial<Heritage>, field: K): void {
+  target[field] = source[field]
+}
+
+/**
+ * Compare a harvested record with a site from the JSON API over the fields Dublin Core
+ * can carry. Changes read from `site` (before) to `record` (after).
+ */
+export function diffDublinCore(site: Heritage, record: Partial<DublinCoreRecord>): HeritageDiff {
+  const mapped = dublinCoreToHeritage(record)
+  const before: Partial<Heritage> = {}
+  const after: Partial<Heritage> = {}
+  for (const field of DUBLIN_CORE_HERITAGE_FIELDS) {
+    if (!(field in mapped)) continue
+    copyField(before, site, field)
+    copyField(after, mapped, field)
+  }
+  return { ...diffHeritage(before, after), slug: site.slug }
+}
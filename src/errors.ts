@@ -1,17 +1,36 @@
 /**
  * Error Classes for Inheritage SDK
- * 
+ *
  * Custom error types with rich context for debugging
  * Includes rate limit info, trace IDs, and documentation links
- * 
+ *
  * @version 0.3.0
  * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
  * @license Apache-2.0
  * @copyright Team Inheritage
  */
 
+import type { SchemaIssue } from "./schema"
 import type { RateLimitInfo } from "./types"
 
+export type ValidationErrorCode = "VALIDATION_ERROR" | "BAD_REQUEST" | "INVALID_PARAMETER"
+export type AuthErrorCode = "UNAUTHORIZED" | "FORBIDDEN"
+export type NotFoundErrorCode = "NOT_FOUND"
+export type RateLimitErrorCode = "RATE_LIMITED"
+export type ServerErrorCode = "INTERNAL_SERVER_ERROR" | "BAD_GATEWAY" | "SERVICE_UNAVAILABLE" | "GATEWAY_TIMEOUT"
+export type NetworkErrorCode = "NETWORK_ERROR" | "REQUEST_TIMEOUT"
+export type ParseErrorCode = "PARSE_ERROR" | "SCHEMA_MISMATCH"
+
+export type InheritageErrorCode =
+  | ValidationErrorCode
+  | AuthErrorCode
+  | NotFoundErrorCode
+  | RateLimitErrorCode
+  | ServerErrorCode
+  | NetworkErrorCode
+  | ParseErrorCode
+  | (string & {})
+
 export interface InheritageApiErrorOptions<TError = unknown> {
   status: number
   code: string
@@ -22,11 +41,29 @@ export interface InheritageApiErrorOptions<TError = unknown> {
   retryAfter?: number | null
   rateLimit?: RateLimitInfo
   payload?: TError
+  cause?: unknown
+}
+
+export interface InheritageApiErrorJSON {
+  name: string
+  message: string
+  status: number
+  code: string
+  serverCode?: string
+  isRetryable: boolean
+  hint: string | null
+  doc: string | null
+  traceId?: string
+  retryAfter: number | null
+  rateLimit?: RateLimitInfo
+  payload?: unknown
 }
 
 export class InheritageApiError<TError = unknown> extends Error {
   public readonly status: number
-  public readonly code: string
+  public readonly code: InheritageErrorCode
+  /** Raw envelope code when it differs from the normalized `code`. */
+  public readonly serverCode?: string
   public readonly hint?: string | null
   public readonly doc?: string | null
   public readonly traceId?: string
@@ -35,7 +72,7 @@ export class InheritageApiError<TError = unknown> extends Error {
   public readonly payload?: TError
 
   constructor(options: InheritageApiErrorOptions<TError>) {
-    super(options.message)
+    super(options.message, options.cause === undefined ? undefined : { cause: options.cause })
     this.name = "InheritageApiError"
     this.status = options.status
     this.code = options.code
@@ -48,5 +85,350 @@ export class InheritageApiError<TError = unknown> extends Error {
 
     Object.setPrototypeOf(this, new.target.prototype)
   }
+
+  /**
+   * Whether replaying the same request may succeed.
+   */
+  get isRetryable(): boolean {
+    return false
+  }
+
+  toJSON(): InheritageApiErrorJSON {
+    return {
+      name: this.name,
+      message: this.message,
+      status: this.status,
+      code: this.code,
+      serverCode: this.serverCode,
+      isRetryable: this.isRetryable,
+      hint: this.hint ?? null,
+      doc: this.doc ?? null,
+      traceId: this.traceId,
+      retryAfter: this.retryAfter ?? null,
+      rateLimit: this.rateLimit,
+      payload: this.payload instanceof ArrayBuffer ? undefined : this.payload,
+    }
+  }
+}
+
+type SubclassErrorOptions<TCode extends string, TError = unknown> = Omit<InheritageApiErrorOptions<TError>, "status" | "code"> & {
+  status?: number
+  code?: TCode | (string & {})
+}
+
+/**
+ * Keep the envelope code when it belongs to the subclass union, otherwise fall back
+ * to the subclass default and remember the raw value as `serverCode`.
+ */
+function normalizeCode<TCode extends string>(
+  error: InheritageApiError,
+  code: string | undefined,
+  allowed: readonly TCode[],
+  fallback: TCode
+): void {
+  const normalized = code && (allowed as readonly string[]).includes(code) ? (code as TCode) : fallback
+  Object.defineProperty(error, "code", { value: normalized, enumerable: true })
+  if (code && code !== normalized) {
+    Object.defineProperty(error, "serverCode", { value: code, enumerable: true })
+  }
+}
+
+/**
+ * Invalid input, rejected client-side (`status: 0`) or by the API (400/422).
+ */
+export class ValidationError<TError = unknown> extends InheritageApiError<TError> {
+  declare public readonly code: ValidationErrorCode
+  /** Offending parameter, when known. */
+  public readonly field?: string
+
+  constructor(options: SubclassErrorOptions<ValidationErrorCode, TError> & { field?: string }) {
+    super({ ...options, status: options.status ?? 0, code: "VALIDATION_ERROR" })
+    normalizeCode(this, options.code, ["VALIDATION_ERROR", "BAD_REQUEST", "INVALID_PARAMETER"], options.status === 400 ? "BAD_REQUEST" : "VALIDATION_ERROR")
+    this.name = "ValidationError"
+    this.field = options.field
+  }
+}
+
+export class AuthError<TError = unknown> extends InheritageApiError<TError> {
+  declare public readonly code: AuthErrorCode
+
+  constructor(options: SubclassErrorOptions<AuthErrorCode, TError>) {
+    const status = options.status ?? 401
+    super({ ...options, status, code: "UNAUTHORIZED" })
+    normalizeCode(this, options.code, ["UNAUTHORIZED", "FORBIDDEN"], status === 403 ? "FORBIDDEN" : "UNAUTHORIZED")
+    this.name = "AuthError"
+  }
+}
+
+export class NotFoundError<TError = unknown> extends InheritageApiError<TError> {
+  declare public readonly code: NotFoundErrorCode
+
+  constructor(options: SubclassErrorOptions<NotFoundErrorCode, TError>) {
+    super({ ...options, status: options.status ?? 404, code: "NOT_FOUND" })
+    normalizeCode(this, options.code, ["NOT_FOUND"], "NOT_FOUND")
+    this.name = "NotFoundError"
+  }
+}
+
+export class RateLimitError<TError = unknown> extends InheritageApiError<TError> {
+  declare public readonly code: RateLimitErrorCode
+
+  constructor(options: SubclassErrorOptions<RateLimitErrorCode, TError>) {
+    super({ ...options, status: options.status ?? 429, code: "RATE_LIMITED" })
+    normalizeCode(this, options.code, ["RATE_LIMITED"], "RATE_LIMITED")
+    this.name = "RateLimitError"
+  }
+
+  override get isRetryable(): boolean {
+    return true
+  }
+}
+
+export class ServerError<TError = unknown> extends InheritageApiError<TError> {
+  declare public readonly code: ServerErrorCode
+
+  constructor(options: SubclassErrorOptions<ServerErrorCode, TError>) {
+    const status = options.status ?? 500
+    const fallback: ServerErrorCode =
+      status === 502 ? "BAD_GATEWAY" : status === 503 ? "SERVICE_UNAVAILABLE" : status === 504 ? "GATEWAY_TIMEOUT" : "INTERNAL_SERVER_ERROR"
+    super({ ...options, status, code: fallback })
+    normalizeCode(this, options.code, ["INTERNAL_SERVER_ERROR", "BAD_GATEWAY", "SERVICE_UNAVAILABLE", "GATEWAY_TIMEOUT"], fallback)
+    this.name = "ServerError"
+  }
+
+  override get isRetryable(): boolean {
+    return this.status !== 501
+  }
+}
+
+/**
+ * The request never produced an HTTP response (DNS failure, connection reset, timeout).
+ */
+export class NetworkError<TError = unknown> extends InheritageApiError<TError> {
+  declare public readonly code: NetworkErrorCode
+
+  constructor(options: SubclassErrorOptions<NetworkErrorCode, TError>) {
+    super({ ...options, status: 0, code: "NETWORK_ERROR" })
+    normalizeCode(this, options.code, ["NETWORK_ERROR", "REQUEST_TIMEOUT"], "NETWORK_ERROR")
+    this.name = "NetworkError"
+  }
+
+  override get isRetryable(): boolean {
+    return true
+  }
+}
+
+/**
+ * A successful response whose body could not be decoded.
+ */
+export class ParseError<TError = unknown> extends InheritageApiError<TError> {
+  declare public readonly code: ParseErrorCode
+
+  constructor(options: SubclassErrorOptions<ParseErrorCode, TError>) {
+    super({ ...options, status: options.status ?? 0, code: "PARSE_ERROR" })
+    normalizeCode(this, options.code, ["PARSE_ERROR", "SCHEMA_MISMATCH"], "PARSE_ERROR")
+    this.name = "ParseError"
+  }
+}
+
+/**
+ * A single NDJSON / JSONL line that is not valid JSON.
+ */
+export class NdjsonParseError<TError = unknown> extends ParseError<TError> {
+  /** 1-based line number within the stream. */
+  public readonly line: number
+  /** The offending line, verbatim. */
+  public readonly raw: string
+
+  constructor(options: Omit<SubclassErrorOptions<ParseErrorCode, TError>, "code" | "message"> & { line: number; raw: string; message?: string }) {
+    super({
+      ...options,
+      code: "PARSE_ERROR",
+      message: options.message ?? `Invalid JSON on line ${options.line}`,
+    })
+    this.name = "NdjsonParseError"
+    this.line = options.line
+    this.raw = options.raw
+  }
+
+  override toJSON(): InheritageApiErrorJSON & { line: number; raw: string } {
+    return { ...super.toJSON(), line: this.line, raw: this.raw }
+  }
+}
+
+/**
+ * A decoded response that does not match the SDK's runtime schema (`validate: "strict"`).
+ */
+export class ResponseValidationError<TError = unknown> extends ParseError<TError> {
+  declare public readonly code: "SCHEMA_MISMATCH"
+  public readonly issues: SchemaIssue[]
+
+  constructor(options: Omit<SubclassErrorOptions<ParseErrorCode, TError>, "code" | "message"> & { path: string; issues: SchemaIssue[] }) {
+    const first = options.issues[0]
+    const summary = first ? `${first.path}: expected ${first.expected}, received ${first.received}` : "no details"
+    super({
+      ...options,
+      code: "SCHEMA_MISMATCH",
+      message: `Response from ${options.path} failed schema validation (${options.issues.length} issue${options.issues.length === 1 ? "" : "s"}; ${summary})`,
+    })
+    this.name = "ResponseValidationError"
+    this.issues = options.issues
+  }
+
+  override toJSON(): InheritageApiErrorJSON & { issues: SchemaIssue[] } {
+    return { ...super.toJSON(), issues: this.issues }
+  }
 }
 
+export interface ChecksumMismatchErrorOptions {
+  slug: string
+  expected: string
+  actual: string
+  traceId?: string
+}
+
+/**
+ * A record whose content hash differs from the checksum the API advertised for it.
+ */
+export class ChecksumMismatchError extends InheritageApiError {
+  declare public readonly code: "CHECKSUM_MISMATCH"
+  public readonly slug: string
+  public readonly expected: string
+  public readonly actual: string
+
+  constructor(options: ChecksumMismatchErrorOptions) {
+    super({
+      status: 0,
+      code: "CHECKSUM_MISMATCH",
+      message: `Checksum mismatch for ${options.slug}: expected ${options.expected}, computed ${options.actual}`,
+      traceId: options.traceId,
+    })
+    this.name = "ChecksumMismatchError"
+    this.slug = options.slug
+    this.expected = options.expected
+    this.actual = options.actual
+  }
+}
+
+export interface WebhookDeliveryErrorOptions {
+  url: string
+  /** HTTP status of the webhook response, or 0 when the POST produced no response. */
+  status: number
+  cause?: unknown
+}
+
+/**
+ * A changefeed webhook POST that failed or was answered with a non-2xx status.
+ */
+export class WebhookDeliveryError extends InheritageApiError {
+  declare public readonly code: "WEBHOOK_DELIVERY_FAILED"
+  public readonly url: string
+
+  constructor(options: WebhookDeliveryErrorOptions) {
+    super({
+      status: options.status,
+      code: "WEBHOOK_DELIVERY_FAILED",
+      message: options.status ? `Webhook ${options.url} responded with ${options.status}` : `Webhook ${options.url} could not be reached`,
+      cause: options.cause,
+    })
+    this.name = "WebhookDeliveryError"
+    this.url = options.url
+  }
+
+  /** The watcher retries undelivered pages on its next poll. */
+  override get isRetryable(): boolean {
+    return true
+  }
+
+  override toJSON(): InheritageApiErrorJSON & { url: string } {
+    return { ...super.toJSON(), url: this.url }
+  }
+}
+
+export type OaiPmhErrorCode =
+  | "badArgument"
+  | "badResumptionToken"
+  | "badVerb"
+  | "cannotDisseminateFormat"
+  | "idDoesNotExist"
+  | "noRecordsMatch"
+  | "noMetadataFormats"
+  | "noSetHierarchy"
+
+export interface OaiPmhErrorOptions {
+  /** OAI-PMH 2.0 error code from the `<error code="...">` element. */
+  code: OaiPmhErrorCode | (string & {})
+  message?: string
+  status?: number
+  traceId?: string
+}
+
+/**
+ * An OAI-PMH `<error>` response. These arrive with HTTP 200, so `code` carries the
+ * protocol error code (e.g. `badResumptionToken`) rather than an HTTP-derived one.
+ */
+export class OaiPmhError extends InheritageApiError {
+  declare public readonly code: OaiPmhErrorCode | (string & {})
+
+  constructor(options: OaiPmhErrorOptions) {
+    super({
+      status: options.status ?? 200,
+      code: options.code,
+      message: options.message ? `OAI-PMH ${options.code}: ${options.message}` : `OAI-PMH ${options.code}`,
+      traceId: options.traceId,
+    })
+    this.name = "OaiPmhError"
+  }
+}
+
+export interface InheritageTimeoutErrorOptions {
+  timeoutMs: number
+  method?: string
+  url?: string
+  cause?: unknown
+}
+
+/**
+ * Raised when a request exceeds its `timeoutMs` budget (connect + body download).
+ */
+export class InheritageTimeoutError extends NetworkError {
+  declare public readonly code: "REQUEST_TIMEOUT"
+  public readonly timeoutMs: number
+
+  constructor(options: InheritageTimeoutErrorOptions) {
+    super({
+      code: "REQUEST_TIMEOUT",
+      message: `Request${options.url ? ` to ${options.url}` : ""} timed out after ${options.timeoutMs}ms`,
+      cause: options.cause,
+    })
+    this.name = "InheritageTimeoutError"
+    this.timeoutMs = options.timeoutMs
+  }
+}
+
+/**
+ * Discriminated union of every typed SDK error; narrow with `switch (error.code)`.
+ */
+export type InheritageError =
+  | ValidationError
+  | AuthError
+  | NotFoundError
+  | RateLimitError
+  | ServerError
+  | NetworkError
+  | ParseError
+
+/**
+ * Build the most specific error class for an HTTP error response.
+ */
+export function createApiError<TError = unknown>(
+  options: Omit<InheritageApiErrorOptions<TError>, "code"> & { code?: string }
+): InheritageApiError<TError> {
+  const { status } = options
+  if (status === 400 || status === 422) return new ValidationError(options)
+  if (status === 401 || status === 403) return new AuthError(options)
+  if (status === 404) return new NotFoundError(options)
+  if (status === 429) return new RateLimitError(options)
+  if (status >= 500) return new ServerError(options)
+  return new InheritageApiError({ ...options, code: options.code ?? "INTERNAL_SERVER_ERROR" })
+}
@@ -0,0 +1,37 @@
+/**
+ * Minimal typed event emitter shared by SDK subsystems
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ */
+
+export type EventListener<T> = (event: T) => void
+
+export class TypedEventEmitter<Events extends Record<string, unknown>> {
+  private readonly listeners = new Map<keyof Events, Set<EventListener<any>>>()
+
+  /**
+   * Subscribe to an event. Returns an unsubscribe function.
+   */
+  on<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+    let set = this.listeners.get(type)
+    if (!set) {
+      set = new Set()
+      this.listeners.set(type, set)
+    }
+    set.add(listener)
+    return () => this.off(type, listener)
+  }
+
+  off<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): void {
+    this.listeners.get(type)?.delete(listener)
+  }
+
+  protected emit<K extends keyof Events>(type: K, event: Events[K]): void {
+    this.listeners.get(type)?.forEach((listener) => {
+      listener(event)
+    })
+  }
+}
@@ -0,0 +1,316 @@
+/**
+ * Syndication Feeds for Inheritage SDK
+ *
+ * Turns changefeed pages into Atom 1.0, RSS 2.0 and JSON Feed 1.1
+ * documents with CC BY attribution on every item
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * const feed = await client.getChangefeed({ since })
+ * const items = await enrichChangefeed(client, feed.data)
+ * res.type('application/atom+xml').send(renderAtomFeed(items, { title: 'Heritage updates', feedUrl }))
+ * ```
+ */
+
+import type { InheritageClient } from "./client"
+import { NotFoundError } from "./errors"
+import type { ChangefeedEntry, ChangefeedResponse, CitationEntry, Heritage } from "./types"
+import { escapeXml } from "./xml"
+
+export const CC_BY_4_URL = "https://creativecommons.org/licenses/by/4.0/"
+
+const SITE_URL = "https://inheritage.foundation"
+const DEFAULT_ATTRIBUTION: CitationEntry = {
+  name: "Inheritage Foundation",
+  url: SITE_URL,
+  license: "CC BY 4.0",
+  required_display: "Data © Inheritage Foundation, licensed under CC BY 4.0",
+}
+
+/**
+ * The `Heritage` fields a feed item is built from.
+ */
+export type FeedHeritage = Pick<Heritage, "slug" | "name" | "summary" | "official_url" | "citations">
+
+export const FEED_HERITAGE_FIELDS = ["slug", "name", "summary", "official_url", "citations"] as const
+
+export interface FeedAttribution {
+  /** Text that must accompany the item, e.g. "Data © Inheritage Foundation, licensed under CC BY 4.0". */
+  text: string
+  name: string
+  url: string
+  license: string
+  licenseUrl: string
+}
+
+export interface HeritageFeedItem {
+  /** Stable per version: `urn:inheritage:<slug>:<checksum>`. */
+  id: string
+  slug: string
+  operation: ChangefeedEntry["operation"]
+  title: string
+  summary: string | null
+  url: string
+  /** ISO 8601 (`toISOString`). */
+  updated: string
+  /** ISO 8601 (`toISOString`). */
+  published: string | null
+  attribution: FeedAttribution
+}
+
+export interface FeedOptions {
+  title: string
+  /** Absolute URL the feed is served from; also the Atom feed id. */
+  feedUrl: string
+  /** Defaults to https://inheritage.foundation. */
+  homePageUrl?: string
+  description?: string
+  language?: string
+  author?: { name: string; url?: string }
+  /** Defaults to the newest item, or now for an empty feed. */
+  updated?: string | Date
+}
+
+export interface EnrichChangefeedOptions {
+  signal?: AbortSignal
+  /** Parallel `getHeritage` calls. Defaults to 4. */
+  concurrency?: number
+}
+
+export interface JsonFeedItem {
+  id: string
+  url: string
+  title: string
+  content_text: string
+  summary?: string
+  date_published?: string
+  date_modified: string
+  authors: { name: string; url?: string }[]
+  _inheritage: { slug: string; operation: ChangefeedEntry["operation"]; attribution: FeedAttribution }
+}
+
+export interface JsonFeed {
+  version: "https://jsonfeed.org/version/1.1"
+  title: string
+  home_page_url: string
+  feed_url: string
+  description?: string
+  language?: string
+  authors?: { name: string; url?: string }[]
+  items: JsonFeedItem[]
+}
+
+function licenseUrl(license: string): string {
+  const match = /CC[ -]BY(?:[ -](SA|ND|NC(?:[ -](?:SA|ND))?))?[ -](\d\.\d)/i.exec(license)
+  if (!match) return CC_BY_4_URL
+  const variant = match[1] ? `by-${match[1].toLowerCase().replace(/[ -]/g, "-")}` : "by"
+  return `https://creativecommons.org/licenses/${variant}/${match[2]}/`
+}
+
+/**
+ * Attribution for a record's first citation, defaulting to Inheritage Foundation under CC BY 4.0.
+ */
+export function citationAttribution(citation: CitationEntry | undefined): FeedAttribution {
+  const entry = citation ?? DEFAULT_ATTRIBUTION
+  const license = entry.license || DEFAULT_ATTRIBUTION.license
+  return {
+    text: entry.required_display || `Data © ${entry.name}, licensed under ${license}`,
+    name: entry.name || DEFAULT_ATTRIBUTION.name,
+    url: entry.url || DEFAULT_ATTRIBUTION.url,
+    license,
+    licenseUrl: licenseUrl(license),
+  }
+}
+
+function isoDate(value: string | null | undefined): string | null {
+  if (!value) return null
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? null : new Date(time).toISOString()
+}
+
+/**
+ * Build feed items from changefeed entries, looking up each slug in `records`.
+ * Entries without a record still produce an item, titled by slug. An entry whose
+ * `updated_at` and `created_at` are both set but unparseable is skipped.
+ */
+export function createFeedItems(
+  changes: ChangefeedResponse | readonly ChangefeedEntry[],
+  records: ReadonlyMap<string, FeedHeritage> | Iterable<FeedHeritage> = []
+): HeritageFeedItem[] {
+  const entries = "data" in changes ? changes.data : changes
+  const lookup =
+    records instanceof Map
+      ? (records as ReadonlyMap<string, FeedHeritage>)
+      : new Map(Array.from(records as Iterable<FeedHeritage>, (record) => [record.slug, record] as const))
+
+  return entries
+    .filter((entry): entry is ChangefeedEntry & { slug: string } => Boolean(entry.slug))
+    .flatMap((entry) => {
+      const updated = isoDate(entry.updated_at) ?? isoDate(entry.created_at)
+      if (!updated && (entry.updated_at || entry.created_at)) return []
+      const heritage = lookup.get(entry.slug)
+      const removed = entry.operation === "unpublished" || !entry.published
+      const name = heritage?.name || entry.slug
+      const item: HeritageFeedItem = {
+        id: `urn:inheritage:${entry.slug}:${entry.checksum || entry.updated_at || "0"}`,
+        slug: entry.slug,
+        operation: entry.operation,
+        title: removed ? `Unpublished: ${name}` : name,
+        summary: removed ? null : heritage?.summary ?? null,
+        url: heritage?.official_url || entry.url || `${SITE_URL}/heritage/${encodeURIComponent(entry.slug)}`,
+        updated: updated ?? new Date().toISOString(),
+        published: isoDate(entry.created_at),
+        attribution: citationAttribution(heritage?.citations?.[0]),
+      }
+      return [item]
+    })
+}
+
+/**
+ * Fetch name, summary, URL and citation for every upserted slug on a changefeed page
+ * and build feed items. Sites that 404 in the meantime keep a slug-only item.
+ */
+export async function enrichChangefeed(
+  client: Pick<InheritageClient, "getHeritage">,
+  changes: ChangefeedResponse | readonly ChangefeedEntry[],
+  options: EnrichChangefeedOptions = {}
+): Promise<HeritageFeedItem[]> {
+  const entries = "data" in changes ? changes.data : changes
+  const slugs = Array.from(
+    new Set(entries.filter((entry) => entry.slug && entry.operation === "upsert" && entry.published).map((entry) => entry.slug!))
+  )
+  const concurrency = Math.max(1, options.concurrency ?? 4)
+  const records = new Map<string, FeedHeritage>()
+
+  for (let index = 0; index < slugs.length; index += concurrency) {
+    await Promise.all(
+      slugs.slice(index, index + concurrency).map(async (slug) => {
+        try {
+          const response = await client.getHeritage(slug, { fields: FEED_HERITAGE_FIELDS }, { signal: options.signal })
+          records.set(slug, response.data)
+        } catch (error) {
+          if (!(error instanceof NotFoundError)) throw error
+        }
+      })
+    )
+  }
+
+  return createFeedItems(entries, records)
+}
+
+function feedUpdated(items: readonly HeritageFeedItem[], options: FeedOptions): string {
+  if (options.updated) return new Date(options.updated).toISOString()
+  const newest = items.reduce<string | null>((latest, item) => (latest === null || item.updated > latest ? item.updated : latest), null)
+  return newest ?? new Date().toISOString()
+}
+
+function itemText(item: HeritageFeedItem): string {
+  const body = item.summary ?? (item.operation === "unpublished" ? "This site is no longer published." : "")
+  return [body, item.attribution.text].filter(Boolean).join("\n\n")
+}
+
+/**
+ * Atom 1.0 (RFC 4287). Each entry carries `<rights>`, a `rel="license"` link and the
+ * citation holder as author.
+ */
+export function renderAtomFeed(items: readonly HeritageFeedItem[], options: FeedOptions): string {
+  const homePageUrl = options.homePageUrl ?? SITE_URL
+  const lines = [
+    `<?xml version="1.0" encoding="utf-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom"${options.language ? ` xml:lang="${escapeXml(options.language)}"` : ""}>`,
+    `  <id>${escapeXml(options.feedUrl)}</id>`,
+    `  <title>${escapeXml(options.title)}</title>`,
+    ...(options.description ? [`  <subtitle>${escapeXml(options.description)}</subtitle>`] : []),
+    `  <updated>${feedUpdated(items, options)}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(options.feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(homePageUrl)}"/>`,
+    ...(options.author ? [atomPerson(options.author, "  ")] : []),
+  ]
+  for (const item of items) {
+    lines.push(
+      `  <entry>`,
+      `    <id>${escapeXml(item.id)}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+      `    <link rel="license" href="${escapeXml(item.attribution.licenseUrl)}"/>`,
+      `    <updated>${escapeXml(item.updated)}</updated>`,
+      ...(item.published ? [`    <published>${escapeXml(item.published)}</published>`] : []),
+      atomPerson({ name: item.attribution.name, url: item.attribution.url }, "    "),
+      `    <summary type="text">${escapeXml(itemText(item))}</summary>`,
+      `    <rights>${escapeXml(item.attribution.text)}</rights>`,
+      `  </entry>`
+    )
+  }
+  lines.push(`</feed>`)
+  return `${lines.join("\n")}\n`
+}
+
+function atomPerson(person: { name: string; url?: string }, indent: string): string {
+  const uri = person.url ? `<uri>${escapeXml(person.url)}</uri>` : ""
+  return `${indent}<author><name>${escapeXml(person.name)}</name>${uri}</author>`
+}
+
+/**
+ * RSS 2.0 with the Creative Commons and Dublin Core modules for per-item licensing.
+ */
+export function renderRssFeed(items: readonly HeritageFeedItem[], options: FeedOptions): string {
+  const homePageUrl = options.homePageUrl ?? SITE_URL
+  const lines = [
+    `<?xml version="1.0" encoding="utf-8"?>`,
+    `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:creativeCommons="http://backend.userland.com/creativeCommonsRssModule">`,
+    `  <channel>`,
+    `    <title>${escapeXml(options.title)}</title>`,
+    `    <link>${escapeXml(homePageUrl)}</link>`,
+    `    <description>${escapeXml(options.description ?? options.title)}</description>`,
+    ...(options.language ? [`    <language>${escapeXml(options.language)}</language>`] : []),
+    `    <lastBuildDate>${new Date(feedUpdated(items, options)).toUTCString()}</lastBuildDate>`,
+    `    <atom:link rel="self" type="application/rss+xml" href="${escapeXml(options.feedUrl)}"/>`,
+  ]
+  for (const item of items) {
+    lines.push(
+      `    <item>`,
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+      `      <pubDate>${new Date(item.updated).toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(itemText(item))}</description>`,
+      `      <dc:creator>${escapeXml(item.attribution.name)}</dc:creator>`,
+      `      <dc:rights>${escapeXml(item.attribution.text)}</dc:rights>`,
+      `      <creativeCommons:license>${escapeXml(item.attribution.licenseUrl)}</creativeCommons:license>`,
+      `    </item>`
+    )
+  }
+  lines.push(`  </channel>`, `</rss>`)
+  return `${lines.join("\n")}\n`
+}
+
+/**
+ * JSON Feed 1.1. Attribution is in each item's text and in the `_inheritage` extension.
+ */
+export function renderJsonFeed(items: readonly HeritageFeedItem[], options: FeedOptions): JsonFeed {
+  return {
+    version: "https://jsonfeed.org/version/1.1",
+    title: options.title,
+    home_page_url: options.homePageUrl ?? SITE_URL,
+    feed_url: options.feedUrl,
+    ...(options.description ? { description: options.description } : {}),
+    ...(options.language ? { language: options.language } : {}),
+    ...(options.author ? { authors: [options.author] } : {}),
+    items: items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      content_text: itemText(item),
+      ...(item.summary ? { summary: item.summary } : {}),
+      ...(item.published ? { date_published: item.published } : {}),
+      date_modified: item.updated,
+      authors: [{ name: item.attribution.name, url: item.attribution.url }],
+      _inheritage: { slug: item.slug, operation: item.operation, attribution: item.attribution },
+    })),
+  }
+}
@@ -42,6 +42,7 @@ import type {
   AILicenseResponse,
   AATStyleListResponse,
   AATSearchParams,
+  CidocJsonLd,
 } from "./types"
 import { InheritageClient, type InheritageClientOptions } from "./client"
 
@@ -525,7 +526,7 @@ export interface UseAILicenseResult {
 }
 
 export interface UseHeritageCIDOCResult {
-  data: string | null
+  data: CidocJsonLd | null
   loading: boolean
   error: Error | null
   refetch: () => Promise<void>
@@ -608,7 +609,7 @@ export function useTimelineFeatured(options: UseHeritageOptions = {}): UseTimeli
  * Search heritage sites
  */
 export function useHeritageSearch(
-  params: { q: string; state?: string; style?: string; country?: string; limit?: number; fields?: string[] } = { q: '' },
+  params: HeritageSearchParams = { q: '' },
   options: UseHeritageOptions = {}
 ): UseHeritageSearchResult {
   const [data, setData] = useState<HeritageListResponse | null>(null)
@@ -860,7 +861,7 @@ export function useHeritageCIDOC(
   slug: string,
   options: UseHeritageOptions = {}
 ): UseHeritageCIDOCResult {
-  const [data, setData] = useState<string | null>(null)
+  const [data, setData] = useState<CidocJsonLd | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<Error | null>(null)
 
@@ -874,7 +875,7 @@ export function useHeritageCIDOC(
       setLoading(true)
       setError(null)
       const response = await client.getHeritageCIDOC(slug)
-      setData(response.data as string | null)
+      setData(response.data)
     } catch (err) {
       setError(err instanceof Error ? err : new Error(String(err)))
     } finally {
@@ -14,6 +14,31 @@
 export * from "./types"
 export * from "./errors"
 export * from "./client"
+export * from "./retry"
+export * from "./scheduler"
+export * from "./middleware"
+export * from "./cache"
+export * from "./schema"
+export * from "./pagination"
+export * from "./ndjson"
+export * from "./checksum"
+export * from "./storage"
+export * from "./mirror"
+export * from "./offline"
+export * from "./integrity"
+export * from "./diff"
+export * from "./xml"
+export * from "./feeds"
+export * from "./watch"
+export * from "./oaipmh"
+export * from "./dublin-core"
+export * from "./lido"
+export * from "./lido-validation"
+export * from "./zip"
+export * from "./lido-export"
+export * from "./cidoc"
+export * from "./rdf"
+export * from "./sparql"
 export * from "./langchain"
 export * from "./hooks"
 export * from "./components/InheritageCitation"
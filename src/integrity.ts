@@ -0,0 +1,219 @@
+/**
+ * Dataset Integrity Verification for Inheritage SDK
+ *
+ * Recomputes record and embedding checksums, checks vector dimensions
+ * and compares a local dataset against the changefeed
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * const report = await verifyStoreIntegrity(mirror.store, { changes: feed.data.data })
+ * if (!report.ok) {
+ *   console.error(report.summary)
+ *   process.exit(1)
+ * }
+ * ```
+ */
+
+import { checksumsMatch, defaultEmbeddingChecksum, defaultHeritageChecksum } from "./checksum"
+import type { HeritageStore } from "./storage"
+import type { AIContextResponse, AIEmbeddingResponse, AIVectorRecord, ChangefeedEntry, Heritage } from "./types"
+
+export type IntegrityIssueType =
+  | "embedding_checksum_mismatch"
+  | "dimension_mismatch"
+  | "stale_record"
+  | "missing_record"
+  | "unpublished_record"
+  | "dataset_hash_mismatch"
+
+export interface IntegrityIssue {
+  type: IntegrityIssueType
+  /** Affected slug; absent for dataset-level issues. */
+  slug?: string
+  expected: string | number
+  actual: string | number | null
+  message: string
+}
+
+export type EmbeddingRecord = AIContextResponse | AIEmbeddingResponse | AIVectorRecord
+
+export interface IntegrityInput {
+  records?: Iterable<Heritage> | AsyncIterable<Heritage>
+  embeddings?: Iterable<EmbeddingRecord> | AsyncIterable<EmbeddingRecord>
+  /** Changefeed entries to compare records against; the last entry per slug wins. */
+  changes?: ChangefeedEntry[]
+  /** `dataset_hash` from the latest changefeed page, compared with `datasetHash`. */
+  expectedDatasetHash?: string | null
+  /** `dataset_hash` the local copy was synced to. */
+  datasetHash?: string | null
+}
+
+export interface IntegrityOptions {
+  recordChecksum?: (record: Heritage) => string | Promise<string>
+  embeddingChecksum?: (vector: readonly number[]) => string | Promise<string>
+  /** Issue types that make `ok` false. Defaults to all of them. */
+  failOn?: readonly IntegrityIssueType[]
+}
+
+export interface IntegrityReport {
+  /** False when any issue of a `failOn` type was found. */
+  ok: boolean
+  generatedAt: string
+  checked: { records: number; embeddings: number; changes: number }
+  summary: Record<IntegrityIssueType, number>
+  issues: IntegrityIssue[]
+}
+
+const ISSUE_TYPES: readonly IntegrityIssueType[] = [
+  "embedding_checksum_mismatch",
+  "dimension_mismatch",
+  "stale_record",
+  "missing_record",
+  "unpublished_record",
+  "dataset_hash_mismatch",
+]
+
+function normalizeEmbedding(record: EmbeddingRecord): { slug: string; vector: number[]; dimensions: number; checksum: string } {
+  if ("vector" in record) {
+    return { slug: record.slug, vector: record.vector, dimensions: record.embedding_dimensions, checksum: record.embedding_checksum }
+  }
+  if ("embedding_dimensions" in record) {
+    return { slug: record.slug, vector: record.embedding, dimensions: record.embedding_dimensions, checksum: record.embedding_checksum }
+  }
+  return { slug: record.slug, vector: record.embedding, dimensions: record.dimensions, checksum: record.embedding_checksum }
+}
+
+/**
+ * Verify downloaded records and embeddings. Never throws on bad data; everything
+ * ends up in the returned report.
+ */
+export async function verifyIntegrity(input: IntegrityInput, options: IntegrityOptions = {}): Promise<IntegrityReport> {
+  const recordChecksum = options.recordChecksum ?? defaultHeritageChecksum
+  const embeddingChecksum = options.embeddingChecksum ?? defaultEmbeddingChecksum
+  const issues: IntegrityIssue[] = []
+  const checked = { records: 0, embeddings: 0, changes: input.changes?.length ?? 0 }
+
+  const latest = new Map<string, ChangefeedEntry>()
+  for (const entry of input.changes ?? []) {
+    if (entry.slug) latest.set(entry.slug, entry)
+  }
+
+  const seen = new Set<string>()
+  for await (const record of input.records ?? []) {
+    checked.records += 1
+    seen.add(record.slug)
+    const entry = latest.get(record.slug)
+    if (!entry) continue
+    if (entry.operation === "unpublished" || !entry.published) {
+      issues.push({
+        type: "unpublished_record",
+        slug: record.slug,
+        expected: "absent",
+        actual: "present",
+        message: `${record.slug} was unpublished but is still stored locally`,
+      })
+      continue
+    }
+    const actual = await recordChecksum(record)
+    if (entry.checksum && !checksumsMatch(entry.checksum, actual)) {
+      issues.push({
+        type: "stale_record",
+        slug: record.slug,
+        expected: entry.checksum,
+        actual,
+        message: `${record.slug} differs from the changefeed version${entry.updated_at ? ` updated at ${entry.updated_at}` : ""}`,
+      })
+    }
+  }
+
+  if (input.records) {
+    latest.forEach((entry, slug) => {
+      if (entry.operation === "upsert" && entry.published && !seen.has(slug)) {
+        issues.push({
+          type: "missing_record",
+          slug,
+          expected: entry.checksum,
+          actual: null,
+          message: `${slug} is published in the changefeed but missing locally`,
+        })
+      }
+    })
+  }
+
+  for await (const raw of input.embeddings ?? []) {
+    checked.embeddings += 1
+    const embedding = normalizeEmbedding(raw)
+    const length = Array.isArray(embedding.vector) ? embedding.vector.length : 0
+    if (embedding.dimensions !== length) {
+      issues.push({
+        type: "dimension_mismatch",
+        slug: embedding.slug,
+        expected: embedding.dimensions,
+        actual: length,
+        message: `${embedding.slug} declares ${embedding.dimensions} dimensions but carries ${length}`,
+      })
+    }
+    if (embedding.checksum) {
+      const actual = await embeddingChecksum(embedding.vector ?? [])
+      if (!checksumsMatch(embedding.checksum, actual)) {
+        issues.push({
+          type: "embedding_checksum_mismatch",
+          slug: embedding.slug,
+          expected: embedding.checksum,
+          actual,
+          message: `${embedding.slug} embedding does not match embedding_checksum`,
+        })
+      }
+    }
+  }
+
+  if (input.expectedDatasetHash && input.expectedDatasetHash !== input.datasetHash) {
+    issues.push({
+      type: "dataset_hash_mismatch",
+      expected: input.expectedDatasetHash,
+      actual: input.datasetHash ?? null,
+      message: "Local dataset_hash does not match the latest changefeed",
+    })
+  }
+
+  const summary = Object.fromEntries(ISSUE_TYPES.map((type) => [type, 0])) as Record<IntegrityIssueType, number>
+  issues.forEach((issue) => {
+    summary[issue.type] += 1
+  })
+  const failOn = new Set(options.failOn ?? ISSUE_TYPES)
+
+  return {
+    ok: issues.every((issue) => !failOn.has(issue.type)),
+    generatedAt: new Date().toISOString(),
+    checked,
+    summary,
+    issues,
+  }
+}
+
+/**
+ * Verify everything a `HeritageStore` holds (heritage records and vectors) against
+ * its persisted `dataset_hash` and, optionally, fresh changefeed entries.
+ */
+export async function verifyStoreIntegrity(
+  store: HeritageStore,
+  input: Pick<IntegrityInput, "changes" | "expectedDatasetHash"> = {},
+  options: IntegrityOptions = {}
+): Promise<IntegrityReport> {
+  const state = await store.getState()
+  return verifyIntegrity(
+    {
+      records: await store.find("heritage"),
+      embeddings: await store.find("vectors"),
+      changes: input.changes,
+      expectedDatasetHash: input.expectedDatasetHash,
+      datasetHash: state?.datasetHash ?? null,
+    },
+    options
+  )
+}
@@ -23,6 +23,7 @@ import type {
 } from "./types"
 import type { ApiResponse } from "./types"
 import type { InheritageClient } from "./client"
+import { ValidationError } from "./errors"
 
 export interface RunnableConfig {
   signal?: AbortSignal
@@ -118,7 +119,7 @@ export function createHeritageContextRunnable(
   return {
     async invoke(input: HeritageContextInput, config?: RunnableConfig) {
       if (!input?.slug) {
-        throw new Error("slug is required")
+        throw new ValidationError({ message: "slug is required", field: "slug" })
       }
       const response = await options.client.getAIContext(input.slug, { signal: config?.signal })
       return shapeResponse(response, options.includeHeaders ?? false)
@@ -132,7 +133,7 @@ export function createHeritageEmbeddingRunnable(
   return {
     async invoke(input: HeritageEmbeddingInput, config?: RunnableConfig) {
       if (!input?.slug) {
-        throw new Error("slug is required")
+        throw new ValidationError({ message: "slug is required", field: "slug" })
       }
       const response = await options.client.getAIEmbedding(input.slug, { signal: config?.signal })
       return shapeResponse(response, options.includeHeaders ?? false)
@@ -146,7 +147,7 @@ export function createHeritageSimilarRunnable(
   return {
     async invoke(input: HeritageSimilarInput, config?: RunnableConfig) {
       if (!input?.slug && !input?.embedding) {
-        throw new Error("Provide either a slug or an embedding array")
+        throw new ValidationError({ message: "Provide either a slug or an embedding array" })
       }
       const response = await options.client.findSimilar(
         {
@@ -167,7 +168,7 @@ export function createHeritageMetadataRunnable(
   return {
     async invoke(input: HeritageMetadataInput, config?: RunnableConfig) {
       if (!input?.slug) {
-        throw new Error("slug is required")
+        throw new ValidationError({ message: "slug is required", field: "slug" })
       }
       const response = await options.client.getAIMetadata(input.slug, { signal: config?.signal })
       return shapeResponse(response, options.includeHeaders ?? false)
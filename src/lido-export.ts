@@ -0,0 +1,124 @@
+/**
+ * LIDO Bulk Export for Inheritage SDK
+ *
+ * Pages through `exportHeritageLIDO` and unpacks each ZIP archive
+ * into LIDO XML documents or parsed records
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * for await (const { slug, record } of harvestLidoExportRecords(client, { state: 'Karnataka' })) {
+ *   await cms.upsert(slug, record)
+ * }
+ * ```
+ */
+
+import { throwIfAborted } from "./abort"
+import type { InheritageClient } from "./client"
+import { ParseError } from "./errors"
+import { parseLido, type LidoRecord } from "./lido"
+import type { HeritageLidoExportParams, JsonValue } from "./types"
+import { listZipEntries, readZipEntry, type ZipEntry } from "./zip"
+
+export interface LidoExportEntry {
+  /** File name without directories or the `.xml` extension. */
+  slug: string
+  filename: string
+  xml: string
+}
+
+export interface LidoExportRecord {
+  slug: string
+  filename: string
+  record: LidoRecord
+}
+
+export interface LidoExportManifest {
+  /** 1-based page number. */
+  page: number
+  offset: number
+  limit: number
+  /** Every file in the archive, including non-LIDO files. */
+  entries: ZipEntry[]
+  /** Number of LIDO XML files on this page. */
+  count: number
+  /** Parsed `manifest.json` from the archive, if it has one. */
+  metadata: JsonValue | null
+}
+
+export interface LidoExportOptions extends HeritageLidoExportParams {
+  /** Records per export request; also the page size used to detect the last page. Defaults to 100. */
+  limit?: number
+  /** Stop after this many pages. */
+  maxPages?: number
+  /** Called with each archive's manifest before its entries are yielded. */
+  onManifest?: (manifest: LidoExportManifest) => void | Promise<void>
+  signal?: AbortSignal
+}
+
+const DEFAULT_LIMIT = 100
+
+function basename(filename: string): string {
+  return filename.slice(filename.lastIndexOf("/") + 1)
+}
+
+/**
+ * Iterate every LIDO XML file of a bulk export. Requests pages with increasing
+ * `offset` until an archive holds fewer than `limit` files.
+ */
+export async function* harvestLidoExport(
+  client: Pick<InheritageClient, "exportHeritageLIDO">,
+  options: LidoExportOptions = {}
+): AsyncGenerator<LidoExportEntry> {
+  const { maxPages, onManifest, signal, ...filters } = options
+  const limit = options.limit ?? DEFAULT_LIMIT
+  const decoder = new TextDecoder()
+  let offset = options.offset ?? 0
+  let page = 0
+
+  while (maxPages === undefined || page < maxPages) {
+    throwIfAborted(signal)
+    const { data } = await client.exportHeritageLIDO({ ...filters, limit, offset }, { signal })
+    const entries = listZipEntries(data)
+    const files = entries.filter((entry) => !entry.directory && entry.filename.toLowerCase().endsWith(".xml"))
+    page += 1
+
+    const manifestEntry = entries.find((entry) => basename(entry.filename) === "manifest.json")
+    let metadata: JsonValue | null = null
+    if (manifestEntry) {
+      const text = decoder.decode(await readZipEntry(data, manifestEntry))
+      try {
+        metadata = JSON.parse(text) as JsonValue
+      } catch (error) {
+        throw new ParseError({ message: `Invalid manifest.json in LIDO export page ${page}`, cause: error })
+      }
+    }
+    await onManifest?.({ page, offset, limit, entries, count: files.length, metadata })
+
+    for (const entry of files) {
+      const filename = basename(entry.filename)
+      yield { slug: filename.replace(/\.xml$/i, ""), filename: entry.filename, xml: decoder.decode(await readZipEntry(data, entry)) }
+    }
+    if (files.length < limit) return
+    offset += files.length
+  }
+}
+
+/**
+ * Like `harvestLidoExport`, but parses each file with `parseLido`. A file holding a
+ * `lido:lidoWrap` yields one item per record.
+ */
+export async function* harvestLidoExportRecords(
+  client: Pick<InheritageClient, "exportHeritageLIDO">,
+  options: LidoExportOptions = {}
+): AsyncGenerator<LidoExportRecord> {
+  for await (const { slug, filename, xml } of harvestLidoExport(client, options)) {
+    for (const record of parseLido(xml)) {
+      yield { slug, filename, record }
+    }
+  }
+}
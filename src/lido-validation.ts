@@ -0,0 +1,304 @@
+/**
+ * LIDO Validation for Inheritage SDK
+ *
+ * Checks LIDO 1.1 documents for required elements, cardinalities,
+ * `xml:lang` usage and vocabulary references, offline
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * const report = validateLido((await client.getHeritageLIDO('taj-mahal')).data)
+ * for (const issue of report.issues) console.warn(`${issue.path}: ${issue.message}`)
+ * if (!report.valid) throw new Error('LIDO rejected')
+ * ```
+ */
+
+import { ParseError } from "./errors"
+import { isLidoDate, LIDO_NAMESPACE } from "./lido"
+import type { AATStyle } from "./types"
+import { attribute, childElements, parseXml, textContent, type XmlElement } from "./xml"
+
+export type LidoIssueSeverity = "error" | "warning"
+
+export type LidoIssueCode =
+  | "malformed_xml"
+  | "wrong_namespace"
+  | "missing_element"
+  | "too_many_elements"
+  | "unexpected_element"
+  | "empty_element"
+  | "missing_lang"
+  | "invalid_lang"
+  | "invalid_date"
+  | "invalid_concept_id"
+  | "invalid_aat_uri"
+  | "unknown_aat_term"
+
+export interface LidoValidationIssue {
+  code: LidoIssueCode
+  severity: LidoIssueSeverity
+  /** XPath of the offending element (or of the parent, for missing elements). */
+  path: string
+  /** 1-based source line, when known. */
+  line?: number
+  message: string
+}
+
+export interface LidoValidationOptions {
+  /**
+   * Known AAT terms, e.g. from `client.searchAAT()`. When given, AAT concept IDs that
+   * are not in the list are reported as `unknown_aat_term`.
+   */
+  aatStyles?: readonly Pick<AATStyle, "uri">[]
+  /** Promote warnings to errors for `valid`. Defaults to false. */
+  strict?: boolean
+}
+
+export interface LidoValidationReport {
+  /** False when any error (or, with `strict`, any warning) was found. */
+  valid: boolean
+  records: number
+  summary: Record<LidoIssueSeverity, number>
+  issues: LidoValidationIssue[]
+}
+
+interface ElementRule {
+  /** Child cardinalities as `[min, max]`. */
+  children: Record<string, [number, number]>
+  /** Report LIDO children not listed in `children`. */
+  closed?: boolean
+  /** `xml:lang` must be set on the element itself. */
+  lang?: boolean
+}
+
+const MANY = Number.POSITIVE_INFINITY
+
+// Subset of the LIDO 1.1 XSD: the wraps a CMS import depends on.
+const RULES: Record<string, ElementRule> = {
+  lidoWrap: { children: { lido: [1, MANY] }, closed: true },
+  lido: {
+    children: { lidoRecID: [1, MANY], objectPublishedID: [0, MANY], category: [0, 1], descriptiveMetadata: [1, MANY], administrativeMetadata: [1, MANY] },
+    closed: true,
+  },
+  descriptiveMetadata: {
+    children: { objectClassificationWrap: [1, 1], objectIdentificationWrap: [1, 1], eventWrap: [0, 1], objectRelationWrap: [0, 1] },
+    closed: true,
+    lang: true,
+  },
+  objectClassificationWrap: { children: { objectWorkTypeWrap: [1, 1], classificationWrap: [0, 1] }, closed: true },
+  objectWorkTypeWrap: { children: { objectWorkType: [1, MANY] }, closed: true },
+  objectIdentificationWrap: {
+    children: {
+      titleWrap: [1, 1],
+      inscriptionsWrap: [0, 1],
+      repositoryWrap: [0, 1],
+      displayStateEditionWrap: [0, 1],
+      objectDescriptionWrap: [0, 1],
+      objectMeasurementsWrap: [0, 1],
+    },
+    closed: true,
+  },
+  titleWrap: { children: { titleSet: [1, MANY] }, closed: true },
+  titleSet: { children: { appellationValue: [1, MANY], sourceAppellation: [0, MANY] } },
+  repositoryWrap: { children: { repositorySet: [1, MANY] }, closed: true },
+  eventWrap: { children: { eventSet: [1, MANY] }, closed: true },
+  eventSet: { children: { displayEvent: [0, MANY], event: [0, 1] } },
+  event: {
+    children: {
+      eventID: [0, MANY],
+      eventType: [1, 1],
+      roleInEvent: [0, MANY],
+      eventName: [0, MANY],
+      eventActor: [0, MANY],
+      culture: [0, MANY],
+      eventDate: [0, 1],
+      periodName: [0, MANY],
+      eventPlace: [0, MANY],
+      eventMethod: [0, MANY],
+      eventMaterialsTech: [0, MANY],
+      thingPresent: [0, MANY],
+      relatedEventSet: [0, MANY],
+      eventDescriptionSet: [0, MANY],
+    },
+    closed: true,
+  },
+  eventDate: { children: { displayDate: [0, MANY], date: [0, 1] } },
+  date: { children: { earliestDate: [1, 1], latestDate: [1, 1] } },
+  actorInRole: { children: { actor: [1, 1] } },
+  actor: { children: { nameActorSet: [1, MANY] } },
+  nameActorSet: { children: { appellationValue: [1, MANY] } },
+  namePlaceSet: { children: { appellationValue: [1, MANY] } },
+  measurementsSet: { children: { measurementType: [1, MANY], measurementUnit: [1, MANY], measurementValue: [1, 1] } },
+  administrativeMetadata: { children: { rightsWorkWrap: [0, 1], recordWrap: [1, 1], resourceWrap: [0, 1] }, closed: true, lang: true },
+  recordWrap: {
+    children: { recordID: [1, MANY], recordType: [1, 1], recordSource: [1, MANY], recordRights: [0, MANY], recordInfoSet: [0, MANY] },
+    closed: true,
+  },
+  resourceWrap: { children: { resourceSet: [1, MANY] }, closed: true },
+}
+
+const NON_EMPTY = new Set([
+  "lidoRecID",
+  "recordID",
+  "appellationValue",
+  "term",
+  "conceptID",
+  "earliestDate",
+  "latestDate",
+  "measurementValue",
+  "linkResource",
+])
+
+// BCP 47 shape: language, then optional script/region/variant subtags.
+const LANGUAGE_TAG = /^[A-Za-z]{2,3}(?:-[A-Za-z0-9]{1,8})*$/
+const AAT_URI = /^https?:\/\/vocab\.getty\.edu\/(?:page\/)?aat\/(\d+)$/
+const AAT_REFERENCE = /vocab\.getty\.edu\/(?:page\/)?aat\/|^aat:/i
+
+function dateKey(value: string): number {
+  const [, year, month, day] = /^(-?\d+)(?:-(\d{2}))?(?:-(\d{2}))?$/.exec(value)!
+  return Number(year) * 10000 + Number(month ?? 0) * 100 + Number(day ?? 0)
+}
+
+function aatId(uri: string): string | undefined {
+  return AAT_URI.exec(uri.trim())?.[1]
+}
+
+class LidoValidator {
+  readonly issues: LidoValidationIssue[] = []
+  private readonly knownAat: Set<string> | null
+
+  constructor(options: LidoValidationOptions) {
+    this.knownAat = options.aatStyles
+      ? new Set(options.aatStyles.map((style) => aatId(style.uri)).filter((id): id is string => id !== undefined))
+      : null
+  }
+
+  report(code: LidoIssueCode, severity: LidoIssueSeverity, element: XmlElement | null, path: string, message: string): void {
+    this.issues.push(element ? { code, severity, path, line: element.line, message } : { code, severity, path, message })
+  }
+
+  visit(element: XmlElement, path: string): void {
+    const name = element.localName
+    const rule = RULES[name]
+    const children = childElements(element).filter((child) => child.namespace === LIDO_NAMESPACE)
+    const seen = new Map<string, number>()
+    const childPaths = children.map((child) => {
+      const index = (seen.get(child.localName) ?? 0) + 1
+      seen.set(child.localName, index)
+      return `${path}/lido:${child.localName}[${index}]`
+    })
+
+    if (rule) {
+      for (const [child, [min, max]] of Object.entries(rule.children)) {
+        const count = children.filter((candidate) => candidate.localName === child).length
+        if (count < min) {
+          this.report("missing_element", "error", element, `${path}/lido:${child}`, `<lido:${name}> requires ${min === 1 ? "a" : `${min}`} <lido:${child}>`)
+        } else if (count > max) {
+          this.report("too_many_elements", "error", element, `${path}/lido:${child}`, `<lido:${name}> allows at most ${max} <lido:${child}>, found ${count}`)
+        }
+      }
+      if (rule.closed) {
+        children.forEach((child, index) => {
+          if (!(child.localName in rule.children)) {
+            this.report("unexpected_element", "error", child, childPaths[index], `<lido:${child.localName}> is not allowed in <lido:${name}>`)
+          }
+        })
+      }
+      if (rule.lang && attribute(element, "lang") === undefined) {
+        this.report("missing_lang", "error", element, path, `<lido:${name}> requires xml:lang`)
+      }
+    }
+
+    const lang = element.attributes["xml:lang"]
+    if (lang !== undefined && !LANGUAGE_TAG.test(lang)) {
+      this.report("invalid_lang", "error", element, `${path}/@xml:lang`, `xml:lang "${lang}" is not a valid language tag`)
+    }
+
+    const text = NON_EMPTY.has(name) ? textContent(element) : ""
+    if (NON_EMPTY.has(name) && text === "" && children.length === 0) {
+      this.report("empty_element", "error", element, path, `<lido:${name}> must not be empty`)
+    }
+    if ((name === "earliestDate" || name === "latestDate") && text !== "" && !isLidoDate(text)) {
+      this.report("invalid_date", "warning", element, path, `"${text}" is not an ISO 8601 date (YYYY, YYYY-MM or YYYY-MM-DD)`)
+    }
+    if (name === "date") this.checkDateRange(element, path)
+    if (name === "conceptID" && text !== "") this.checkConcept(element, path, text)
+
+    children.forEach((child, index) => this.visit(child, childPaths[index]))
+  }
+
+  private checkDateRange(element: XmlElement, path: string): void {
+    const [earliest] = childElements(element, "earliestDate").map(textContent)
+    const [latest] = childElements(element, "latestDate").map(textContent)
+    if (!earliest || !latest || !isLidoDate(earliest) || !isLidoDate(latest)) return
+    if (dateKey(earliest) > dateKey(latest)) {
+      this.report("invalid_date", "error", element, path, `earliestDate ${earliest} is after latestDate ${latest}`)
+    }
+  }
+
+  private checkConcept(element: XmlElement, path: string, value: string): void {
+    const type = attribute(element, "type")?.toLowerCase()
+    const source = attribute(element, "source")?.toLowerCase()
+    const isAat = AAT_REFERENCE.test(value) || source === "aat" || source?.includes("getty") === true
+
+    if (isAat) {
+      const id = aatId(value)
+      if (!id) {
+        this.report("invalid_aat_uri", "error", element, path, `"${value}" is not an AAT URI (http://vocab.getty.edu/aat/<id>)`)
+      } else if (this.knownAat && !this.knownAat.has(id)) {
+        this.report("unknown_aat_term", "warning", element, path, `AAT term ${id} is not in the known vocabulary`)
+      }
+      return
+    }
+    if (type === "uri" || /^https?:/i.test(value)) {
+      try {
+        new URL(value)
+      } catch {
+        this.report("invalid_concept_id", "error", element, path, `"${value}" is not a valid URI`)
+      }
+    }
+  }
+}
+
+/**
+ * Validate a LIDO document (`lido:lidoWrap` or `lido:lido`) against the LIDO 1.1 rules
+ * a CMS import depends on: required elements and their cardinality, `xml:lang` on the
+ * metadata sections and valid language tags, non-empty identifiers and terms, ISO 8601
+ * dates in order, and well-formed concept URIs, including Getty AAT references.
+ * Malformed XML is reported as an issue rather than thrown.
+ */
+export function validateLido(input: string | XmlElement, options: LidoValidationOptions = {}): LidoValidationReport {
+  const validator = new LidoValidator(options)
+  let root: XmlElement | null = null
+  try {
+    root = typeof input === "string" ? parseXml(input) : input
+  } catch (error) {
+    if (!(error instanceof ParseError)) throw error
+    const line = /line (\d+)/.exec(error.message)?.[1]
+    validator.issues.push({ code: "malformed_xml", severity: "error", path: "/", ...(line ? { line: Number(line) } : {}), message: error.message })
+  }
+
+  let records = 0
+  if (root) {
+    const path = `/lido:${root.localName}[1]`
+    if (root.namespace !== LIDO_NAMESPACE || (root.localName !== "lidoWrap" && root.localName !== "lido")) {
+      validator.report("wrong_namespace", "error", root, `/${root.name}`, `Root element must be <lido:lidoWrap> or <lido:lido> in ${LIDO_NAMESPACE}`)
+    } else {
+      records = root.localName === "lido" ? 1 : childElements(root, "lido").length
+      validator.visit(root, path)
+    }
+  }
+
+  const summary = { error: 0, warning: 0 }
+  for (const issue of validator.issues) summary[issue.severity] += 1
+  return {
+    valid: summary.error === 0 && (!options.strict || summary.warning === 0),
+    records,
+    summary,
+    issues: validator.issues,
+  }
+}
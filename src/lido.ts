@@ -0,0 +1,599 @@
+/**
+ * LIDO 1.1 Model for Inheritage SDK
+ *
+ * Parses LIDO XML into typed records and serializes them back,
+ * without an XML library dependency
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * const [record] = parseLido((await client.getHeritageLIDO('taj-mahal')).data)
+ * record.events.find((event) => event.type?.term === 'Production')?.date?.earliest
+ * await cms.import(serializeLido([record]))
+ * ```
+ */
+
+import { ParseError } from "./errors"
+import { attribute, childElement, childElements, escapeXml, parseXml, textContent, type XmlElement } from "./xml"
+
+export const LIDO_NAMESPACE = "http://www.lido-schema.org"
+export const GML_NAMESPACE = "http://www.opengis.net/gml"
+export const LIDO_SCHEMA_LOCATION = "http://www.lido-schema.org http://www.lido-schema.org/schema/v1.1/lido-v1.1.xsd"
+
+// ISO 8601 year, year-month or date; LIDO allows negative (BCE) years.
+const LIDO_DATE = /^-?\d{1,4}(?:-\d{2}(?:-\d{2})?)?$/
+
+/**
+ * Whether `value` can go in `earliestDate` / `latestDate` (YYYY, YYYY-MM or YYYY-MM-DD).
+ */
+export function isLidoDate(value: string): boolean {
+  return LIDO_DATE.test(value)
+}
+
+/**
+ * A controlled-vocabulary reference: the first `conceptID` and `term` of the element.
+ */
+export interface LidoConcept {
+  conceptId?: string
+  term?: string
+}
+
+export interface LidoIdentifier {
+  value: string
+  /** `lido:type`, e.g. `local` or `uri`. */
+  type?: string
+  source?: string
+}
+
+export interface LidoAppellation {
+  value: string
+  lang?: string
+  /** `lido:pref`: `preferred` or `alternate`. */
+  pref?: string
+}
+
+export interface LidoRepository {
+  name?: string
+  workId?: string
+  location?: string
+}
+
+export interface LidoMeasurement {
+  display?: string
+  type?: string
+  unit?: string
+  value?: string
+}
+
+export interface LidoObjectIdentification {
+  titles: LidoAppellation[]
+  repositories: LidoRepository[]
+  descriptions: string[]
+  measurements: LidoMeasurement[]
+}
+
+export interface LidoActor {
+  name: string
+  id?: string
+  role?: LidoConcept
+  display?: string
+}
+
+export interface LidoDate {
+  display?: string
+  earliest?: string
+  latest?: string
+}
+
+export interface LidoPlace {
+  name?: string
+  id?: string
+  display?: string
+  /** `[lat, lon]` from `gml:Point/gml:pos`. */
+  coordinates?: [number, number]
+}
+
+export interface LidoEvent {
+  display?: string
+  ids: LidoIdentifier[]
+  type?: LidoConcept
+  names: string[]
+  actors: LidoActor[]
+  cultures: LidoConcept[]
+  date?: LidoDate
+  periods: LidoConcept[]
+  places: LidoPlace[]
+  materialsTech: LidoConcept[]
+  descriptions: string[]
+}
+
+export interface LidoRelatedWork {
+  display?: string
+  objectId?: string
+  webResource?: string
+  relationType?: LidoConcept
+}
+
+export interface LidoRights {
+  type?: LidoConcept
+  holder?: string
+  creditLine?: string
+}
+
+export interface LidoRecordInfo {
+  ids: LidoIdentifier[]
+  type?: LidoConcept
+  sources: string[]
+  rights: LidoRights[]
+  infoLinks: string[]
+  metadataDate?: string
+}
+
+export interface LidoResourceLink {
+  url: string
+  /** `lido:type` of the representation, e.g. `image_master` or `image_thumb`. */
+  type?: string
+}
+
+export interface LidoResource {
+  id?: string
+  links: LidoResourceLink[]
+  type?: LidoConcept
+  description?: string
+  source?: string
+  rights: LidoRights[]
+}
+
+export interface LidoRecord {
+  lidoRecId: LidoIdentifier
+  objectPublishedId?: LidoIdentifier
+  category?: LidoConcept
+  /** `xml:lang` of the descriptive metadata; also written on the administrative metadata. */
+  lang?: string
+  objectWorkTypes: LidoConcept[]
+  classifications: LidoConcept[]
+  objectIdentification: LidoObjectIdentification
+  events: LidoEvent[]
+  subjects: LidoConcept[]
+  relatedWorks: LidoRelatedWork[]
+  rightsWork: LidoRights[]
+  record: LidoRecordInfo
+  resources: LidoResource[]
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function path(element: XmlElement | undefined, ...names: string[]): XmlElement | undefined {
+  let current = element
+  for (const name of names) {
+    if (!current) return undefined
+    current = childElement(current, name)
+  }
+  return current
+}
+
+function all(element: XmlElement | undefined, ...names: string[]): XmlElement[] {
+  if (!element) return []
+  const [first, ...rest] = names
+  const matches = childElements(element, first)
+  return rest.length === 0 ? matches : matches.flatMap((match) => all(match, ...rest))
+}
+
+function text(element: XmlElement | undefined, ...names: string[]): string | undefined {
+  const value = textContent(path(element, ...names))
+  return value === "" ? undefined : value
+}
+
+function compact<T extends object>(value: T): T {
+  for (const key of Object.keys(value) as (keyof T)[]) {
+    if (value[key] === undefined) delete value[key]
+  }
+  return value
+}
+
+function concept(element: XmlElement | undefined): LidoConcept | undefined {
+  if (!element) return undefined
+  const result = compact({ conceptId: text(element, "conceptID"), term: text(element, "term") })
+  return result.conceptId || result.term ? result : undefined
+}
+
+function concepts(elements: XmlElement[]): LidoConcept[] {
+  return elements.map(concept).filter((value): value is LidoConcept => value !== undefined)
+}
+
+function identifier(element: XmlElement | undefined): LidoIdentifier | undefined {
+  const value = textContent(element)
+  if (!element || !value) return undefined
+  return compact({ value, type: attribute(element, "type"), source: attribute(element, "source") })
+}
+
+function appellation(element: XmlElement | undefined, ...names: string[]): string | undefined {
+  return text(element, ...names, "appellationValue")
+}
+
+function rights(element: XmlElement): LidoRights {
+  return compact({
+    type: concept(childElement(element, "rightsType")),
+    holder: appellation(element, "rightsHolder", "legalBodyName"),
+    creditLine: text(element, "creditLine"),
+  })
+}
+
+function parsePlace(element: XmlElement): LidoPlace {
+  const place = childElement(element, "place")
+  const position = text(place, "gml", "Point", "pos")?.split(/\s+/).map(Number)
+  return compact({
+    name: appellation(place, "namePlaceSet"),
+    id: text(place, "placeID"),
+    display: text(element, "displayPlace"),
+    coordinates: position?.length === 2 && position.every(Number.isFinite) ? (position as [number, number]) : undefined,
+  })
+}
+
+function parseEvent(set: XmlElement): LidoEvent {
+  const event = childElement(set, "event")
+  const date = path(event, "eventDate")
+  return compact({
+    display: text(set, "displayEvent"),
+    ids: all(event, "eventID").map(identifier).filter((value): value is LidoIdentifier => value !== undefined),
+    type: concept(path(event, "eventType")),
+    names: all(event, "eventName").map((name) => appellation(name) ?? "").filter(Boolean),
+    actors: all(event, "eventActor").map((actor) =>
+      compact({
+        name: appellation(actor, "actorInRole", "actor", "nameActorSet") ?? "",
+        id: text(actor, "actorInRole", "actor", "actorID"),
+        role: concept(path(actor, "actorInRole", "roleActor")),
+        display: text(actor, "displayActorInRole"),
+      })
+    ),
+    cultures: concepts(all(event, "culture")),
+    date: date
+      ? compact({ display: text(date, "displayDate"), earliest: text(date, "date", "earliestDate"), latest: text(date, "date", "latestDate") })
+      : undefined,
+    periods: concepts(all(event, "periodName")),
+    places: all(event, "eventPlace").map(parsePlace),
+    materialsTech: concepts(all(event, "eventMaterialsTech", "materialsTech", "termMaterialsTech")),
+    descriptions: all(event, "eventDescriptionSet").map((description) => text(description, "descriptiveNoteValue") ?? "").filter(Boolean),
+  })
+}
+
+/**
+ * Parse a single `lido:lido` element.
+ */
+export function parseLidoRecord(lido: XmlElement): LidoRecord {
+  const recId = identifier(childElement(lido, "lidoRecID"))
+  if (!recId) {
+    throw new ParseError({ message: `LIDO record on line ${lido.line} has no lidoRecID` })
+  }
+  const descriptive = childElement(lido, "descriptiveMetadata")
+  const administrative = childElement(lido, "administrativeMetadata")
+  const classification = path(descriptive, "objectClassificationWrap")
+  const identification = path(descriptive, "objectIdentificationWrap")
+  const relations = path(descriptive, "objectRelationWrap")
+  const recordWrap = path(administrative, "recordWrap")
+
+  return compact({
+    lidoRecId: recId,
+    objectPublishedId: identifier(childElement(lido, "objectPublishedID")),
+    category: concept(childElement(lido, "category")),
+    lang: descriptive ? attribute(descriptive, "lang") : undefined,
+    objectWorkTypes: concepts(all(classification, "objectWorkTypeWrap", "objectWorkType")),
+    classifications: concepts(all(classification, "classificationWrap", "classification")),
+    objectIdentification: {
+      titles: all(identification, "titleWrap", "titleSet").flatMap((set) =>
+        childElements(set, "appellationValue")
+          .filter((value) => textContent(value))
+          .map((value) => compact({ value: textContent(value), lang: attribute(value, "lang"), pref: attribute(value, "pref") }))
+      ),
+      repositories: all(identification, "repositoryWrap", "repositorySet").map((set) =>
+        compact({
+          name: appellation(set, "repositoryName", "legalBodyName"),
+          workId: text(set, "workID"),
+          location: appellation(set, "repositoryLocation", "namePlaceSet"),
+        })
+      ),
+      descriptions: all(identification, "objectDescriptionWrap", "objectDescriptionSet")
+        .map((set) => text(set, "descriptiveNoteValue") ?? "")
+        .filter(Boolean),
+      measurements: all(identification, "objectMeasurementsWrap", "objectMeasurementsSet").flatMap((set): LidoMeasurement[] => {
+        const display = text(set, "displayObjectMeasurements")
+        const measurements = all(set, "objectMeasurements", "measurementsSet").map((measurement) =>
+          compact<LidoMeasurement>({
+            display,
+            type: text(measurement, "measurementType"),
+            unit: text(measurement, "measurementUnit"),
+            value: text(measurement, "measurementValue"),
+          })
+        )
+        return measurements.length > 0 ? measurements : display ? [{ display }] : []
+      }),
+    },
+    events: all(descriptive, "eventWrap", "eventSet").map(parseEvent),
+    subjects: concepts(all(relations, "subjectWrap", "subjectSet", "subject", "subjectConcept")),
+    relatedWorks: all(relations, "relatedWorksWrap", "relatedWorkSet").map((set) =>
+      compact({
+        display: text(set, "relatedWork", "displayObject"),
+        objectId: text(set, "relatedWork", "object", "objectID"),
+        webResource: text(set, "relatedWork", "object", "objectWebResource"),
+        relationType: concept(childElement(set, "relatedWorkRelType")),
+      })
+    ),
+    rightsWork: all(administrative, "rightsWorkWrap", "rightsWorkSet").map(rights),
+    record: compact({
+      ids: all(recordWrap, "recordID").map(identifier).filter((value): value is LidoIdentifier => value !== undefined),
+      type: concept(path(recordWrap, "recordType")),
+      sources: all(recordWrap, "recordSource").map((source) => appellation(source, "legalBodyName") ?? "").filter(Boolean),
+      rights: all(recordWrap, "recordRights").map(rights),
+      infoLinks: all(recordWrap, "recordInfoSet", "recordInfoLink").map(textContent).filter(Boolean),
+      metadataDate: text(recordWrap, "recordInfoSet", "recordMetadataDate"),
+    }),
+    resources: all(administrative, "resourceWrap", "resourceSet").map((set) =>
+      compact({
+        id: text(set, "resourceID"),
+        links: all(set, "resourceRepresentation").flatMap((representation) => {
+          const url = text(representation, "linkResource")
+          return url ? [compact({ url, type: attribute(representation, "type") })] : []
+        }),
+        type: concept(childElement(set, "resourceType")),
+        description: text(set, "resourceDescription"),
+        source: appellation(set, "resourceSource", "legalBodyName"),
+        rights: all(set, "rightsResource").map(rights),
+      })
+    ),
+  })
+}
+
+/**
+ * Parse LIDO XML: a `lido:lidoWrap` with many records or a single `lido:lido`.
+ */
+export function parseLido(input: string | XmlElement): LidoRecord[] {
+  const root = typeof input === "string" ? parseXml(input) : input
+  if (root.localName === "lido") return [parseLidoRecord(root)]
+  if (root.localName === "lidoWrap") return childElements(root, "lido").map(parseLidoRecord)
+  throw new ParseError({ message: `Expected <lido:lidoWrap> or <lido:lido>, got <${root.name}>` })
+}
+
+// ---------------------------------------------------------------------------
+// Serialization
+// ---------------------------------------------------------------------------
+
+interface Node {
+  name: string
+  attributes?: Record<string, string | undefined>
+  text?: string
+  children?: (Node | null | undefined)[]
+}
+
+function render(node: Node | null | undefined, depth: number, out: string[]): void {
+  if (!node) return
+  const children = (node.children ?? []).filter((child): child is Node => Boolean(child) && !isEmpty(child!))
+  if (node.text === undefined && children.length === 0) return
+  const indent = "  ".repeat(depth)
+  const attributes = Object.entries(node.attributes ?? {})
+    .filter((entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== "")
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join("")
+  if (node.text !== undefined) {
+    out.push(`${indent}<${node.name}${attributes}>${escapeXml(node.text)}</${node.name}>`)
+    return
+  }
+  out.push(`${indent}<${node.name}${attributes}>`)
+  children.forEach((child) => render(child, depth + 1, out))
+  out.push(`${indent}</${node.name}>`)
+}
+
+function isEmpty(node: Node): boolean {
+  if (node.text !== undefined) return false
+  return (node.children ?? []).every((child) => !child || isEmpty(child))
+}
+
+function leaf(name: string, value: string | undefined, attributes?: Node["attributes"]): Node | null {
+  return value === undefined || value === "" ? null : { name: `lido:${name}`, text: value, attributes }
+}
+
+function wrap(name: string, children: (Node | null | undefined)[], attributes?: Node["attributes"]): Node {
+  return { name: `lido:${name}`, children, attributes }
+}
+
+/**
+ * `earliestDate`/`latestDate` must both be ISO 8601 dates; anything else (a single bound,
+ * "12th century") is kept as an extra `displayDate` so the document stays schema-valid.
+ */
+function eventDateNode(date: LidoDate): Node {
+  const { display, earliest, latest } = date
+  const machineReadable = earliest !== undefined && latest !== undefined && isLidoDate(earliest) && isLidoDate(latest)
+  const displays = machineReadable ? [display] : [display, earliest, latest]
+  return wrap("eventDate", [
+    ...displays.filter((value, index) => value && displays.indexOf(value) === index).map((value) => leaf("displayDate", value)),
+    machineReadable ? wrap("date", [leaf("earliestDate", earliest), leaf("latestDate", latest)]) : null,
+  ])
+}
+
+function conceptNode(name: string, value: LidoConcept | undefined): Node | null {
+  if (!value) return null
+  return wrap(name, [leaf("conceptID", value.conceptId), leaf("term", value.term)])
+}
+
+function identifierNode(name: string, value: LidoIdentifier | undefined): Node | null {
+  if (!value) return null
+  return leaf(name, value.value, { "lido:type": value.type, "lido:source": value.source })
+}
+
+function appellationNode(name: string, value: string | undefined, nested = "legalBodyName"): Node | null {
+  if (!value) return null
+  return wrap(name, [wrap(nested, [leaf("appellationValue", value)])])
+}
+
+function rightsNode(name: string, value: LidoRights): Node {
+  return wrap(name, [conceptNode("rightsType", value.type), appellationNode("rightsHolder", value.holder), leaf("creditLine", value.creditLine)])
+}
+
+function eventNode(event: LidoEvent): Node {
+  return wrap("eventSet", [
+    leaf("displayEvent", event.display),
+    wrap("event", [
+      ...event.ids.map((id) => identifierNode("eventID", id)),
+      conceptNode("eventType", event.type),
+      ...event.names.map((name) => wrap("eventName", [leaf("appellationValue", name)])),
+      ...event.actors.map((actor) =>
+        wrap("eventActor", [
+          leaf("displayActorInRole", actor.display),
+          wrap("actorInRole", [
+            wrap("actor", [leaf("actorID", actor.id), wrap("nameActorSet", [leaf("appellationValue", actor.name)])]),
+            conceptNode("roleActor", actor.role),
+          ]),
+        ])
+      ),
+      ...event.cultures.map((culture) => conceptNode("culture", culture)),
+      event.date ? eventDateNode(event.date) : null,
+      ...event.periods.map((period) => conceptNode("periodName", period)),
+      ...event.places.map((place) =>
+        wrap("eventPlace", [
+          leaf("displayPlace", place.display),
+          wrap("place", [
+            leaf("placeID", place.id),
+            place.name ? wrap("namePlaceSet", [leaf("appellationValue", place.name)]) : null,
+            place.coordinates
+              ? wrap("gml", [{ name: "gml:Point", children: [{ name: "gml:pos", text: place.coordinates.join(" ") }] }])
+              : null,
+          ]),
+        ])
+      ),
+      ...event.materialsTech.map((material) =>
+        wrap("eventMaterialsTech", [wrap("materialsTech", [conceptNode("termMaterialsTech", material)])])
+      ),
+      ...event.descriptions.map((description) => wrap("eventDescriptionSet", [leaf("descriptiveNoteValue", description)])),
+    ]),
+  ])
+}
+
+function recordNode(record: LidoRecord, namespaces: boolean): Node {
+  const identification = record.objectIdentification
+  return wrap(
+    "lido",
+    [
+      identifierNode("lidoRecID", record.lidoRecId),
+      identifierNode("objectPublishedID", record.objectPublishedId),
+      conceptNode("category", record.category),
+      wrap("descriptiveMetadata", [
+        wrap("objectClassificationWrap", [
+          wrap("objectWorkTypeWrap", record.objectWorkTypes.map((type) => conceptNode("objectWorkType", type))),
+          wrap("classificationWrap", record.classifications.map((value) => conceptNode("classification", value))),
+        ]),
+        wrap("objectIdentificationWrap", [
+          wrap(
+            "titleWrap",
+            identification.titles.map((title) =>
+              wrap("titleSet", [leaf("appellationValue", title.value, { "xml:lang": title.lang, "lido:pref": title.pref })])
+            )
+          ),
+          wrap(
+            "repositoryWrap",
+            identification.repositories.map((repository) =>
+              wrap("repositorySet", [
+                appellationNode("repositoryName", repository.name),
+                leaf("workID", repository.workId),
+                appellationNode("repositoryLocation", repository.location, "namePlaceSet"),
+              ])
+            )
+          ),
+          wrap(
+            "objectDescriptionWrap",
+            identification.descriptions.map((description) => wrap("objectDescriptionSet", [leaf("descriptiveNoteValue", description)]))
+          ),
+          wrap(
+            "objectMeasurementsWrap",
+            identification.measurements.map((measurement) =>
+              wrap("objectMeasurementsSet", [
+                leaf("displayObjectMeasurements", measurement.display),
+                wrap("objectMeasurements", [
+                  wrap("measurementsSet", [
+                    leaf("measurementType", measurement.type),
+                    leaf("measurementUnit", measurement.unit),
+                    leaf("measurementValue", measurement.value),
+                  ]),
+                ]),
+              ])
+            )
+          ),
+        ]),
+        wrap("eventWrap", record.events.map(eventNode)),
+        wrap("objectRelationWrap", [
+          wrap("subjectWrap", record.subjects.map((subject) => wrap("subjectSet", [wrap("subject", [conceptNode("subjectConcept", subject)])]))),
+          wrap(
+            "relatedWorksWrap",
+            record.relatedWorks.map((work) =>
+              wrap("relatedWorkSet", [
+                wrap("relatedWork", [
+                  leaf("displayObject", work.display),
+                  wrap("object", [leaf("objectWebResource", work.webResource), leaf("objectID", work.objectId)]),
+                ]),
+                conceptNode("relatedWorkRelType", work.relationType),
+              ])
+            )
+          ),
+        ]),
+      ], { "xml:lang": record.lang }),
+      wrap("administrativeMetadata", [
+        wrap("rightsWorkWrap", record.rightsWork.map((value) => rightsNode("rightsWorkSet", value))),
+        wrap("recordWrap", [
+          ...record.record.ids.map((id) => identifierNode("recordID", id)),
+          conceptNode("recordType", record.record.type),
+          ...record.record.sources.map((source) => appellationNode("recordSource", source)),
+          ...record.record.rights.map((value) => rightsNode("recordRights", value)),
+          ...record.record.infoLinks.map((link, index) =>
+            wrap("recordInfoSet", [leaf("recordInfoLink", link), index === 0 ? leaf("recordMetadataDate", record.record.metadataDate) : null])
+          ),
+          record.record.infoLinks.length === 0 ? wrap("recordInfoSet", [leaf("recordMetadataDate", record.record.metadataDate)]) : null,
+        ]),
+        wrap(
+          "resourceWrap",
+          record.resources.map((resource) =>
+            wrap("resourceSet", [
+              leaf("resourceID", resource.id),
+              ...resource.links.map((link) => wrap("resourceRepresentation", [leaf("linkResource", link.url)], { "lido:type": link.type })),
+              conceptNode("resourceType", resource.type),
+              leaf("resourceDescription", resource.description),
+              appellationNode("resourceSource", resource.source),
+              ...resource.rights.map((value) => rightsNode("rightsResource", value)),
+            ])
+          )
+        ),
+      ], { "xml:lang": record.lang }),
+    ],
+    namespaces ? lidoNamespaces() : undefined
+  )
+}
+
+function lidoNamespaces(): Record<string, string> {
+  return {
+    "xmlns:lido": LIDO_NAMESPACE,
+    "xmlns:gml": GML_NAMESPACE,
+    "xmlns:xsi": "http://www.w3.org/2001/XMLSchema-instance",
+    "xsi:schemaLocation": LIDO_SCHEMA_LOCATION,
+  }
+}
+
+/**
+ * Serialize records as a LIDO 1.1 document: one record as `lido:lido`, several (or
+ * `wrap: true`) inside `lido:lidoWrap`. Elements follow the schema's sequence order;
+ * empty wraps are omitted.
+ */
+export function serializeLido(records: LidoRecord | readonly LidoRecord[], options: { wrap?: boolean } = {}): string {
+  const list = Array.isArray(records) ? (records as readonly LidoRecord[]) : [records as LidoRecord]
+  const out = [`<?xml version="1.0" encoding="UTF-8"?>`]
+  if (list.length === 1 && !options.wrap) {
+    render(recordNode(list[0], true), 0, out)
+  } else {
+    out.push(`<lido:lidoWrap${Object.entries(lidoNamespaces()).map(([key, value]) => ` ${key}="${escapeXml(value)}"`).join("")}>`)
+    list.forEach((record) => render(recordNode(record, false), 1, out))
+    out.push(`</lido:lidoWrap>`)
+  }
+  return `${out.join("\n")}\n`
+}
@@ -0,0 +1,111 @@
+/**
+ * Request/Response Middleware for Inheritage SDK
+ *
+ * Composable hooks around every HTTP exchange made by InheritageClient:
+ * auth, logging, metrics, header injection and response rewriting
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * client.use({
+ *   name: 'auth',
+ *   onRequest(request) {
+ *     request.headers.set('Authorization', `Bearer ${token}`)
+ *   },
+ * })
+ * ```
+ */
+
+import type { InheritageApiError } from "./errors"
+import type { ApiResponse } from "./types"
+
+type MaybePromise<T> = T | Promise<T>
+
+export interface MiddlewareRequest {
+  method: string
+  url: URL
+  headers: Headers
+  body?: BodyInit
+  signal?: AbortSignal
+}
+
+export interface InheritageMiddleware {
+  name?: string
+  /** Inspect or modify the outgoing request. Mutate in place or return a replacement. */
+  onRequest?(request: MiddlewareRequest): MaybePromise<MiddlewareRequest | void>
+  /** Inspect or replace the raw `Response` before the SDK parses it. */
+  onResponse?(response: Response, request: MiddlewareRequest): MaybePromise<Response | void>
+  /** Inspect or rewrite the parsed `ApiResponse`. */
+  onResult?(result: ApiResponse<unknown>, request: MiddlewareRequest): MaybePromise<ApiResponse<unknown> | void>
+  /** Observe an API error. Return an `ApiResponse` to recover, or throw to replace the error. */
+  onError?(error: InheritageApiError, request: MiddlewareRequest): MaybePromise<ApiResponse<unknown> | void>
+}
+
+/**
+ * Run `onRequest` hooks in registration order.
+ */
+export async function applyRequestMiddleware(
+  middleware: readonly InheritageMiddleware[],
+  request: MiddlewareRequest
+): Promise<MiddlewareRequest> {
+  let current = request
+  for (const entry of middleware) {
+    if (!entry.onRequest) continue
+    current = (await entry.onRequest(current)) ?? current
+  }
+  return current
+}
+
+/**
+ * Run `onResponse` hooks in reverse registration order (innermost first).
+ */
+export async function applyResponseMiddleware(
+  middleware: readonly InheritageMiddleware[],
+  response: Response,
+  request: MiddlewareRequest
+): Promise<Response> {
+  let current = response
+  for (let index = middleware.length - 1; index >= 0; index -= 1) {
+    const entry = middleware[index]!
+    if (!entry.onResponse) continue
+    current = (await entry.onResponse(current, request)) ?? current
+  }
+  return current
+}
+
+export async function applyResultMiddleware<T>(
+  middleware: readonly InheritageMiddleware[],
+  result: ApiResponse<T>,
+  request: MiddlewareRequest
+): Promise<ApiResponse<T>> {
+  let current = result as ApiResponse<unknown>
+  for (let index = middleware.length - 1; index >= 0; index -= 1) {
+    const entry = middleware[index]!
+    if (!entry.onResult) continue
+    current = (await entry.onResult(current, request)) ?? current
+  }
+  return current as ApiResponse<T>
+}
+
+/**
+ * Run `onError` hooks until one recovers; rethrows the error otherwise.
+ */
+export async function applyErrorMiddleware<T>(
+  middleware: readonly InheritageMiddleware[],
+  error: InheritageApiError,
+  request: MiddlewareRequest
+): Promise<ApiResponse<T>> {
+  for (let index = middleware.length - 1; index >= 0; index -= 1) {
+    const entry = middleware[index]!
+    if (!entry.onError) continue
+    const recovered = await entry.onError(error, request)
+    if (recovered) {
+      return recovered as ApiResponse<T>
+    }
+  }
+  throw error
+}
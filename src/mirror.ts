@@ -0,0 +1,286 @@
+/**
+ * Heritage Mirror for Inheritage SDK
+ *
+ * Keeps a local copy of the catalogue fresh: one full load from the
+ * heritage dump, then incremental changefeed pages with checksum checks
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * const mirror = new HeritageMirror({ client, store: new MemoryHeritageStore() })
+ * mirror.on('checksumMismatch', (e) => console.warn('stale record', e.slug))
+ * setInterval(() => mirror.sync().catch(console.error), 5 * 60_000)
+ * ```
+ */
+
+import { throwIfAborted } from "./abort"
+import { checksumsMatch, defaultHeritageChecksum } from "./checksum"
+import type { InheritageClient } from "./client"
+import { ChecksumMismatchError, NotFoundError } from "./errors"
+import { TypedEventEmitter } from "./events"
+import { MemoryHeritageStore, RECORD_KINDS, toStoredRecord, type HeritageStore, type MirrorState } from "./storage"
+import type { ChangefeedEntry, Heritage } from "./types"
+
+export interface MirrorSyncReport {
+  /** `"full"` when the dump was loaded, `"incremental"` otherwise. */
+  mode: "full" | "incremental"
+  upserted: number
+  deleted: number
+  /** Slugs whose fetched content did not match the changefeed checksum. */
+  mismatched: string[]
+  /** Changefeed pages applied. */
+  pages: number
+  cursor: string | null
+  datasetHash: string | null
+}
+
+export interface MirrorChecksumMismatchEvent {
+  slug: string
+  expected: string
+  actual: string
+}
+
+export interface HeritageMirrorEvents extends Record<string, unknown> {
+  upsert: { slug: string }
+  delete: { slug: string }
+  checksumMismatch: MirrorChecksumMismatchEvent
+  synced: MirrorSyncReport
+}
+
+export interface HeritageMirrorOptions {
+  client: Pick<InheritageClient, "streamHeritageDump" | "getChangefeed" | "getHeritage">
+  /** Defaults to a `MemoryHeritageStore`. */
+  store?: HeritageStore
+  /** Changefeed page size. Defaults to 500. */
+  pageSize?: number
+  /** Records written per `store.put` call during the full load. Defaults to 250. */
+  batchSize?: number
+  /** Parallel record fetches while applying a changefeed page. Defaults to 4. */
+  concurrency?: number
+  /**
+   * Content hash compared with `ChangefeedEntry.checksum`.
+   * Defaults to SHA-256 over canonical (key-sorted) JSON.
+   */
+  checksum?: (record: Heritage) => string | Promise<string>
+  /** Compare checksums at all. Defaults to true. */
+  verifyChecksums?: boolean
+  /** Throw `ChecksumMismatchError` instead of storing a mismatched record. Defaults to false. */
+  strictChecksums?: boolean
+  /**
+   * How far before the dump started the initial cursor is placed, to absorb clock skew.
+   * Upserts are idempotent, so replaying a few minutes of changes is harmless. Defaults to 5 minutes.
+   */
+  cursorOverlapMs?: number
+}
+
+export interface MirrorSyncOptions {
+  /** Reload everything from the dump even when a cursor exists. */
+  full?: boolean
+  signal?: AbortSignal
+}
+
+export class HeritageMirror extends TypedEventEmitter<HeritageMirrorEvents> {
+  public readonly store: HeritageStore
+  private readonly client: HeritageMirrorOptions["client"]
+  private readonly pageSize: number
+  private readonly batchSize: number
+  private readonly concurrency: number
+  private readonly checksum: (record: Heritage) => string | Promise<string>
+  private readonly verifyChecksums: boolean
+  private readonly strictChecksums: boolean
+  private readonly cursorOverlapMs: number
+  private running?: Promise<MirrorSyncReport>
+
+  constructor(options: HeritageMirrorOptions) {
+    super()
+    if (!options?.client) {
+      throw new Error("client is required")
+    }
+    this.client = options.client
+    this.store = options.store ?? new MemoryHeritageStore()
+    this.pageSize = Math.max(1, options.pageSize ?? 500)
+    this.batchSize = Math.max(1, options.batchSize ?? 250)
+    this.concurrency = Math.max(1, options.concurrency ?? 4)
+    this.checksum = options.checksum ?? defaultHeritageChecksum
+    this.verifyChecksums = options.verifyChecksums ?? true
+    this.strictChecksums = options.strictChecksums ?? false
+    this.cursorOverlapMs = Math.max(0, options.cursorOverlapMs ?? 5 * 60_000)
+  }
+
+  /**
+   * Bring the store up to date. Runs a full load when no cursor is stored (or `full` is set),
+   * then applies changefeed pages until `has_more` is false. A concurrent call without
+   * options shares the running sync; one with options (`full`, `signal`) runs again with
+   * them once the current sync settles.
+   */
+  sync(options: MirrorSyncOptions = {}): Promise<MirrorSyncReport> {
+    if (this.running) {
+      if (options.full === undefined && options.signal === undefined) return this.running
+      return this.running.then(
+        () => this.sync(options),
+        () => this.sync(options)
+      )
+    }
+    this.running = this.run(options).finally(() => {
+      this.running = undefined
+    })
+    return this.running
+  }
+
+  /**
+   * Drop all records and the cursor; the next `sync` performs a full load.
+   */
+  async reset(): Promise<void> {
+    await this.store.clear()
+  }
+
+  private async run(options: MirrorSyncOptions): Promise<MirrorSyncReport> {
+    let state = await this.store.getState()
+    const report: MirrorSyncReport = {
+      mode: "incremental",
+      upserted: 0,
+      deleted: 0,
+      mismatched: [],
+      pages: 0,
+      cursor: state?.cursor ?? null,
+      datasetHash: state?.datasetHash ?? null,
+    }
+
+    if (options.full || !state?.cursor) {
+      report.mode = "full"
+      state = await this.loadDump(report, options.signal)
+    }
+
+    let cursor = state.cursor
+    while (true) {
+      throwIfAborted(options.signal)
+      const response = await this.client.getChangefeed(
+        { since: cursor ?? undefined, limit: this.pageSize },
+        { signal: options.signal, cache: "no-store" }
+      )
+      const { data, meta } = response.data
+      await this.applyPage(data, report, options.signal)
+
+      report.pages += 1
+      cursor = meta.next_since ?? cursor
+      state = { cursor, datasetHash: meta.dataset_hash ?? state.datasetHash, syncedAt: state.syncedAt }
+      await this.store.setState(state)
+
+      if (!meta.has_more || !meta.next_since || data.length === 0) break
+    }
+
+    state = { ...state, syncedAt: new Date().toISOString() }
+    await this.store.setState(state)
+    report.cursor = state.cursor
+    report.datasetHash = state.datasetHash
+    this.emit("synced", report)
+    return report
+  }
+
+  private async loadDump(report: MirrorSyncReport, signal?: AbortSignal): Promise<MirrorState> {
+    const cursor = new Date(Date.now() - this.cursorOverlapMs).toISOString()
+    const seen = new Set<string>()
+
+    let batch: Heritage[] = []
+    const flush = async () => {
+      if (batch.length === 0) return
+      await this.store.put("heritage", batch.map((record) => toStoredRecord("heritage", record)))
+      report.upserted += batch.length
+      batch.forEach((record) => this.emit("upsert", { slug: record.slug }))
+      batch = []
+    }
+
+    for await (const record of this.client.streamHeritageDump({}, { signal })) {
+      if (!record?.slug) continue
+      seen.add(record.slug)
+      batch.push(record)
+      if (batch.length >= this.batchSize) await flush()
+    }
+    await flush()
+
+    // Sites missing from the dump were removed while no cursor was tracking them.
+    const stale = (await this.store.find("heritage")).map((record) => record.slug).filter((slug) => !seen.has(slug))
+    await this.remove(stale, report)
+
+    const state: MirrorState = { cursor, datasetHash: null, syncedAt: null }
+    await this.store.setState(state)
+    return state
+  }
+
+  private async applyPage(entries: ChangefeedEntry[], report: MirrorSyncReport, signal?: AbortSignal): Promise<void> {
+    // Later entries for the same slug supersede earlier ones within a page.
+    const latest = new Map<string, ChangefeedEntry>()
+    for (const entry of entries) {
+      if (entry.slug) latest.set(entry.slug, entry)
+    }
+
+    const removed: string[] = []
+    const upserts: ChangefeedEntry[] = []
+    latest.forEach((entry) => {
+      if (entry.operation === "unpublished" || !entry.published) removed.push(entry.slug!)
+      else upserts.push(entry)
+    })
+
+    for (let index = 0; index < upserts.length; index += this.concurrency) {
+      throwIfAborted(signal)
+      const chunk = upserts.slice(index, index + this.concurrency)
+      const fetched = await Promise.all(chunk.map((entry) => this.fetchRecord(entry, report, signal)))
+      const records = fetched.filter((record): record is Heritage => record !== null)
+      chunk.forEach((entry, position) => {
+        if (fetched[position] === null) removed.push(entry.slug!)
+      })
+      if (records.length > 0) {
+        await this.store.put("heritage", records.map((record) => toStoredRecord("heritage", record)))
+        report.upserted += records.length
+        records.forEach((record) => this.emit("upsert", { slug: record.slug }))
+      }
+    }
+
+    await this.remove(removed, report)
+  }
+
+  /**
+   * Unpublished sites disappear from every collection, not just `heritage`.
+   */
+  private async remove(slugs: string[], report: MirrorSyncReport): Promise<void> {
+    if (slugs.length === 0) return
+    for (const kind of RECORD_KINDS) {
+      await this.store.delete(kind, slugs)
+    }
+    report.deleted += slugs.length
+    slugs.forEach((slug) => this.emit("delete", { slug }))
+  }
+
+  /**
+   * Fetch the current record for an upsert. Returns null when it has since disappeared.
+   */
+  private async fetchRecord(entry: ChangefeedEntry, report: MirrorSyncReport, signal?: AbortSignal): Promise<Heritage | null> {
+    const slug = entry.slug!
+    let record: Heritage
+    let traceId: string | undefined
+    try {
+      const response = await this.client.getHeritage(slug, {}, { signal, cache: "reload" })
+      record = response.data
+      traceId = response.traceId
+    } catch (error) {
+      if (error instanceof NotFoundError) return null
+      throw error
+    }
+
+    if (this.verifyChecksums && entry.checksum) {
+      const actual = await this.checksum(record)
+      if (!checksumsMatch(entry.checksum, actual)) {
+        if (this.strictChecksums) {
+          throw new ChecksumMismatchError({ slug, expected: entry.checksum, actual, traceId })
+        }
+        report.mismatched.push(slug)
+        this.emit("checksumMismatch", { slug, expected: entry.checksum, actual })
+      }
+    }
+    return record
+  }
+}
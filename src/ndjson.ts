@@ -0,0 +1,125 @@
+/**
+ * Streaming NDJSON / JSONL Parser for Inheritage SDK
+ *
+ * Parses newline-delimited JSON line by line from a response body,
+ * so full-catalogue dumps never have to be buffered in memory
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * for await (const site of client.streamHeritageDump({}, { skipInvalid: true })) {
+ *   await db.upsert(site)
+ * }
+ * ```
+ */
+
+import { throwIfAborted } from "./abort"
+import { NdjsonParseError } from "./errors"
+
+export type NdjsonSource = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string> | string
+
+export interface NdjsonParseOptions {
+  /** Report malformed lines via `onInvalidLine` and keep going instead of throwing. */
+  skipInvalid?: boolean
+  onInvalidLine?: (error: NdjsonParseError) => void
+  /** Cancels the underlying stream and rejects with the signal's reason. */
+  signal?: AbortSignal
+}
+
+function isReadableStream(source: NdjsonSource): source is ReadableStream<Uint8Array> {
+  return typeof source === "object" && source !== null && typeof (source as ReadableStream).getReader === "function"
+}
+
+async function* readChunks(source: NdjsonSource, signal?: AbortSignal): AsyncGenerator<string, void, undefined> {
+  if (typeof source === "string") {
+    yield source
+    return
+  }
+
+  const decoder = new TextDecoder()
+  if (isReadableStream(source)) {
+    const reader = source.getReader()
+    const onAbort = () => {
+      reader.cancel(signal?.reason).catch(() => undefined)
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+    let finished = false
+    try {
+      while (true) {
+        throwIfAborted(signal)
+        const { done, value } = await reader.read()
+        throwIfAborted(signal)
+        if (done) break
+        yield decoder.decode(value, { stream: true })
+      }
+      finished = true
+    } finally {
+      signal?.removeEventListener("abort", onAbort)
+      if (!finished) {
+        await reader.cancel().catch(() => undefined)
+      }
+      reader.releaseLock()
+    }
+  } else {
+    for await (const chunk of source) {
+      throwIfAborted(signal)
+      yield typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true })
+    }
+  }
+
+  const tail = decoder.decode()
+  if (tail) yield tail
+}
+
+/**
+ * Yield one parsed value per non-blank line. Malformed lines raise `NdjsonParseError`
+ * (with line number and raw text) unless `skipInvalid` is set.
+ */
+export async function* parseNdjsonStream<T = unknown>(
+  source: NdjsonSource,
+  options: NdjsonParseOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  let buffer = ""
+  let lineNumber = 0
+
+  const parseLine = (line: string): { ok: true; value: T } | { ok: false } => {
+    lineNumber += 1
+    const trimmed = line.trim()
+    if (!trimmed) return { ok: false }
+    try {
+      return { ok: true, value: JSON.parse(trimmed) as T }
+    } catch (error) {
+      const parseError = new NdjsonParseError({
+        line: lineNumber,
+        raw: line,
+        message: `Invalid JSON on line ${lineNumber}: ${(error as Error).message}`,
+        cause: error,
+      })
+      if (!options.skipInvalid) throw parseError
+      options.onInvalidLine?.(parseError)
+      return { ok: false }
+    }
+  }
+
+  for await (const chunk of readChunks(source, options.signal)) {
+    buffer += chunk
+    let start = 0
+    let newline = buffer.indexOf("\n", start)
+    while (newline !== -1) {
+      const result = parseLine(buffer.slice(start, newline))
+      start = newline + 1
+      if (result.ok) yield result.value
+      newline = buffer.indexOf("\n", start)
+    }
+    buffer = buffer.slice(start)
+  }
+
+  if (buffer) {
+    const result = parseLine(buffer)
+    if (result.ok) yield result.value
+  }
+}
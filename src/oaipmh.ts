@@ -0,0 +1,244 @@
+/**
+ * OAI-PMH Harvester for Inheritage SDK
+ *
+ * Parses OAI-PMH 2.0 envelopes into typed records and follows
+ * resumption tokens across ListRecords / ListIdentifiers pages
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * for await (const record of harvestOaiRecords(client, { metadataPrefix: 'oai_dc', from: lastHarvest })) {
+ *   if (record.header.deleted) await catalogue.remove(record.header.identifier)
+ *   else await catalogue.upsert(record.header.identifier, record.metadata)
+ * }
+ * ```
+ */
+
+import { throwIfAborted } from "./abort"
+import type { InheritageClient } from "./client"
+import { parseDublinCore, type DublinCoreRecord } from "./dublin-core"
+import { OaiPmhError, ParseError } from "./errors"
+import { attribute, childElement, childElements, parseXml, textContent, type XmlElement } from "./xml"
+
+export type OaiMetadataPrefix = "oai_dc" | "lido"
+
+/**
+ * Parsed metadata per prefix. LIDO is returned as the `lido:lido` element tree.
+ */
+export interface OaiMetadataFormats {
+  oai_dc: DublinCoreRecord
+  lido: XmlElement
+}
+
+export interface OaiRecordHeader {
+  identifier: string
+  datestamp: string
+  setSpecs: string[]
+  /** `status="deleted"`: the record was withdrawn and carries no metadata. */
+  deleted: boolean
+}
+
+export interface OaiRecord<P extends OaiMetadataPrefix = OaiMetadataPrefix> {
+  header: OaiRecordHeader
+  /** Null for deleted records. */
+  metadata: OaiMetadataFormats[P] | null
+}
+
+export interface OaiResumptionToken {
+  token: string
+  completeListSize?: number
+  cursor?: number
+  expirationDate?: string
+}
+
+export interface OaiPmhPage<T> {
+  responseDate: string
+  items: T[]
+  /** Null on the last page. */
+  resumptionToken: OaiResumptionToken | null
+}
+
+export interface OaiHarvestOptions<P extends OaiMetadataPrefix = OaiMetadataPrefix> {
+  metadataPrefix: P
+  /** Lower datestamp bound, inclusive. Dates are sent with second granularity in UTC. */
+  from?: string | Date
+  /** Upper datestamp bound, inclusive. */
+  until?: string | Date
+  set?: string
+  /** Resume an interrupted harvest; other filters are ignored, as OAI-PMH requires. */
+  resumptionToken?: string
+  /** Stop after this many pages. */
+  maxPages?: number
+  /** Yield nothing instead of throwing `OaiPmhError` when the server answers `noRecordsMatch`. Defaults to true. */
+  emptyOnNoRecordsMatch?: boolean
+  /** Called after each page is parsed, e.g. to persist `resumptionToken` or `responseDate`. */
+  onPage?: (page: Omit<OaiPmhPage<unknown>, "items"> & { count: number }) => void | Promise<void>
+  signal?: AbortSignal
+}
+
+const OAI_NAMESPACE = "http://www.openarchives.org/OAI/2.0/"
+
+function toDatestamp(value: string | Date | undefined): string | undefined {
+  if (value === undefined) return undefined
+  return typeof value === "string" ? value : value.toISOString().replace(/\.\d{3}Z$/, "Z")
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === "") return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+/**
+ * Parse an OAI-PMH response envelope and return the verb element (e.g. `<ListRecords>`).
+ * Throws `OaiPmhError` for protocol errors and `ParseError` for anything that is not OAI-PMH.
+ */
+export function parseOaiPmhResponse(xml: string): { responseDate: string; verb: XmlElement } {
+  const root = parseXml(xml)
+  if (root.localName !== "OAI-PMH" || (root.namespace !== null && root.namespace !== OAI_NAMESPACE)) {
+    throw new ParseError({ message: `Expected an OAI-PMH response, got <${root.name}>` })
+  }
+  const error = childElement(root, "error")
+  if (error) {
+    throw new OaiPmhError({ code: attribute(error, "code") ?? "badArgument", message: textContent(error) || undefined })
+  }
+  const verb = childElements(root).find((element) => element.localName !== "responseDate" && element.localName !== "request")
+  if (!verb) {
+    throw new ParseError({ message: "OAI-PMH response has no verb element" })
+  }
+  return { responseDate: textContent(childElement(root, "responseDate")), verb }
+}
+
+/**
+ * Parse an OAI-PMH `<header>` element.
+ */
+export function parseOaiHeader(header: XmlElement): OaiRecordHeader {
+  return {
+    identifier: textContent(childElement(header, "identifier")),
+    datestamp: textContent(childElement(header, "datestamp")),
+    setSpecs: childElements(header, "setSpec").map(textContent),
+    deleted: attribute(header, "status") === "deleted",
+  }
+}
+
+function parseRecord<P extends OaiMetadataPrefix>(record: XmlElement, metadataPrefix: P): OaiRecord<P> {
+  const headerElement = childElement(record, "header")
+  if (!headerElement) {
+    throw new ParseError({ message: `OAI-PMH record on line ${record.line} has no header` })
+  }
+  const header = parseOaiHeader(headerElement)
+  const metadataElement = childElement(record, "metadata")
+  const payload = metadataElement ? childElements(metadataElement)[0] : undefined
+  if (header.deleted || !payload) {
+    return { header, metadata: null }
+  }
+  const metadata = metadataPrefix === "oai_dc" ? parseDublinCore(payload) : payload
+  return { header, metadata: metadata as OaiMetadataFormats[P] }
+}
+
+function parseResumptionToken(verb: XmlElement): OaiResumptionToken | null {
+  const element = childElement(verb, "resumptionToken")
+  const token = textContent(element)
+  if (!element || !token) return null
+  return {
+    token,
+    completeListSize: optionalNumber(attribute(element, "completeListSize")),
+    cursor: optionalNumber(attribute(element, "cursor")),
+    expirationDate: attribute(element, "expirationDate"),
+  }
+}
+
+/**
+ * Parse one ListRecords page.
+ */
+export function parseOaiListRecords<P extends OaiMetadataPrefix>(xml: string, metadataPrefix: P): OaiPmhPage<OaiRecord<P>> {
+  const { responseDate, verb } = parseOaiPmhResponse(xml)
+  return {
+    responseDate,
+    items: childElements(verb, "record").map((record) => parseRecord(record, metadataPrefix)),
+    resumptionToken: parseResumptionToken(verb),
+  }
+}
+
+/**
+ * Parse one ListIdentifiers page.
+ */
+export function parseOaiListIdentifiers(xml: string): OaiPmhPage<OaiRecordHeader> {
+  const { responseDate, verb } = parseOaiPmhResponse(xml)
+  return {
+    responseDate,
+    items: childElements(verb, "header").map(parseOaiHeader),
+    resumptionToken: parseResumptionToken(verb),
+  }
+}
+
+/**
+ * Parse a GetRecord response.
+ */
+export function parseOaiGetRecord<P extends OaiMetadataPrefix>(xml: string, metadataPrefix: P): OaiRecord<P> {
+  const { verb } = parseOaiPmhResponse(xml)
+  const record = childElement(verb, "record")
+  if (!record) {
+    throw new ParseError({ message: "GetRecord response has no record" })
+  }
+  return parseRecord(record, metadataPrefix)
+}
+
+async function* harvest<T>(
+  fetchPage: (params: { from?: string; until?: string; set?: string; resumptionToken?: string }) => Promise<string>,
+  parse: (xml: string) => OaiPmhPage<T>,
+  options: OaiHarvestOptions
+): AsyncGenerator<T> {
+  let token = options.resumptionToken
+  let pages = 0
+  const filters = { from: toDatestamp(options.from), until: toDatestamp(options.until), set: options.set }
+
+  while (options.maxPages === undefined || pages < options.maxPages) {
+    throwIfAborted(options.signal)
+    let page: OaiPmhPage<T>
+    try {
+      page = parse(await fetchPage(token ? { resumptionToken: token } : filters))
+    } catch (error) {
+      if (error instanceof OaiPmhError && error.code === "noRecordsMatch" && (options.emptyOnNoRecordsMatch ?? true)) return
+      throw error
+    }
+    pages += 1
+    await options.onPage?.({ responseDate: page.responseDate, resumptionToken: page.resumptionToken, count: page.items.length })
+    yield* page.items
+    if (!page.resumptionToken) return
+    token = page.resumptionToken.token
+  }
+}
+
+/**
+ * Iterate every record of a ListRecords harvest, following resumption tokens.
+ * Use the last page's `responseDate` as the next incremental `from`.
+ */
+export function harvestOaiRecords<P extends OaiMetadataPrefix>(
+  client: Pick<InheritageClient, "oaipmhListRecords">,
+  options: OaiHarvestOptions<P>
+): AsyncGenerator<OaiRecord<P>> {
+  return harvest(
+    async (params) => (await client.oaipmhListRecords(options.metadataPrefix, params, { signal: options.signal })).data,
+    (xml) => parseOaiListRecords(xml, options.metadataPrefix),
+    options
+  )
+}
+
+/**
+ * Iterate every header of a ListIdentifiers harvest, following resumption tokens.
+ */
+export function harvestOaiIdentifiers(
+  client: Pick<InheritageClient, "oaipmhListIdentifiers">,
+  options: OaiHarvestOptions
+): AsyncGenerator<OaiRecordHeader> {
+  return harvest(
+    async (params) => (await client.oaipmhListIdentifiers(options.metadataPrefix, params, { signal: options.signal })).data,
+    parseOaiListIdentifiers,
+    options
+  )
+}
@@ -0,0 +1,221 @@
+/**
+ * Offline Query Engine for Inheritage SDK
+ *
+ * Answers listHeritage / searchHeritage / getHeritage from a local
+ * dataset with the same parameters and response shapes as the API
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * const heritage: HeritageQueryClient = process.env.OFFLINE
+ *   ? new OfflineHeritageClient({ store: mirror.store })
+ *   : client
+ * const { data } = await heritage.listHeritage({ state: 'Karnataka', sort: '-view_count', limit: 10 })
+ * ```
+ */
+
+import { throwIfAborted } from "./abort"
+import type { InheritageClient } from "./client"
+import { NotFoundError, ValidationError } from "./errors"
+import { parseNdjsonStream, type NdjsonParseOptions, type NdjsonSource } from "./ndjson"
+import { MemoryHeritageStore, toStoredRecord, type HeritageStore } from "./storage"
+import type {
+  ApiRequestOptions,
+  ApiResponse,
+  Heritage,
+  HeritageField,
+  HeritageListParams,
+  HeritageListResponse,
+  HeritageProjection,
+  HeritageSearchParams,
+  HeritageSearchResponse,
+} from "./types"
+
+export const DEFAULT_OFFLINE_LIMIT = 20
+
+/**
+ * The query surface shared by `InheritageClient` and `OfflineHeritageClient`.
+ */
+export type HeritageQueryClient = Pick<InheritageClient, "listHeritage" | "searchHeritage" | "getHeritage">
+
+export interface OfflineHeritageClientOptions {
+  /** Queried on every call, so a syncing `HeritageMirror` store is always current. */
+  store?: HeritageStore
+  /** Static records, used when no store is given. */
+  records?: Heritage[]
+}
+
+type SortKey = "name" | "period" | "state" | "country" | "completion_score" | "view_count"
+
+const SORT_VALUES: Record<SortKey, (site: Heritage) => string | number | null> = {
+  name: (site) => site.name,
+  period: (site) => site.period,
+  state: (site) => site.state,
+  country: (site) => site.country,
+  completion_score: (site) => site.status?.completion_score ?? null,
+  view_count: (site) => site.status?.view_count ?? null,
+}
+
+function equalsIgnoreCase(value: string | null | undefined, expected: string | undefined): boolean {
+  if (expected === undefined) return true
+  return typeof value === "string" && value.toLowerCase() === expected.toLowerCase()
+}
+
+function matchesListParams(site: Heritage, params: HeritageListParams<HeritageField>): boolean {
+  return (
+    equalsIgnoreCase(site.state, params.state) &&
+    equalsIgnoreCase(site.dynasty, params.dynasty) &&
+    equalsIgnoreCase(site.architecture?.style, params.style) &&
+    equalsIgnoreCase(site.period, params.period) &&
+    equalsIgnoreCase(site.country, params.country) &&
+    (params.material === undefined || (site.materials ?? []).some((material) => equalsIgnoreCase(material, params.material)))
+  )
+}
+
+/**
+ * Nulls sort last in both directions.
+ */
+function compareSites(sort: HeritageListParams["sort"]): (a: Heritage, b: Heritage) => number {
+  const descending = sort?.startsWith("-") ?? false
+  const read = SORT_VALUES[(sort?.replace(/^-/, "") ?? "name") as SortKey] ?? SORT_VALUES.name
+  return (a, b) => {
+    const left = read(a)
+    const right = read(b)
+    if (left === right) return a.slug < b.slug ? -1 : a.slug > b.slug ? 1 : 0
+    if (left === null || left === undefined) return 1
+    if (right === null || right === undefined) return -1
+    const order = typeof left === "number" && typeof right === "number" ? left - right : String(left).localeCompare(String(right))
+    return descending ? -order : order
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+}
+
+/**
+ * Every query token must appear somewhere; name hits outrank location and text hits.
+ */
+function searchScore(site: Heritage, tokens: string[]): number {
+  const name = new Set(tokenize(site.name ?? ""))
+  const place = new Set(tokenize([site.location, site.state, site.country, site.dynasty, site.category].filter(Boolean).join(" ")))
+  const text = new Set(tokenize([site.summary, site.description, site.architecture?.style].filter(Boolean).join(" ")))
+  let score = 0
+  for (const token of tokens) {
+    const hit = (set: Set<string>) => [...set].some((word) => word.startsWith(token))
+    if (hit(name)) score += 3
+    else if (hit(place)) score += 2
+    else if (hit(text)) score += 1
+    else return 0
+  }
+  return score
+}
+
+function project<F extends HeritageField>(site: Heritage, fields: readonly F[] | undefined): HeritageProjection<F> {
+  if (!fields?.length) return site
+  const projected = {} as HeritageProjection<F>
+  for (const field of fields) {
+    if (field in site) projected[field] = site[field]
+  }
+  return projected
+}
+
+function toResponse<T>(data: T): ApiResponse<T> {
+  return { status: 200, data, headers: new Headers(), notModified: false }
+}
+
+export class OfflineHeritageClient implements HeritageQueryClient {
+  private readonly store: HeritageStore
+
+  constructor(options: OfflineHeritageClientOptions = {}) {
+    if (options.store) {
+      this.store = options.store
+    } else {
+      const store = new MemoryHeritageStore()
+      store.put("heritage", (options.records ?? []).map((record) => toStoredRecord("heritage", record)))
+      this.store = store
+    }
+  }
+
+  /**
+   * Build an offline client from a heritage NDJSON dump (file contents, stream or async chunks).
+   */
+  static async fromNdjson(source: NdjsonSource, options: Omit<NdjsonParseOptions, "signal"> = {}): Promise<OfflineHeritageClient> {
+    const records: Heritage[] = []
+    for await (const record of parseNdjsonStream<Heritage>(source, options)) {
+      if (record?.slug) records.push(record)
+    }
+    return new OfflineHeritageClient({ records })
+  }
+
+  async listHeritage<F extends HeritageField = HeritageField>(
+    params: HeritageListParams<F> = {},
+    options: ApiRequestOptions = {}
+  ): Promise<ApiResponse<HeritageListResponse<HeritageProjection<F>>>> {
+    throwIfAborted(options.signal)
+    const limit = Math.max(0, Math.floor(params.limit ?? DEFAULT_OFFLINE_LIMIT))
+    const offset = Math.max(0, Math.floor(params.offset ?? 0))
+
+    const candidates = await this.store.find("heritage", { state: params.state, dynasty: params.dynasty })
+    const matches = candidates.filter((site) => matchesListParams(site, params)).sort(compareSites(params.sort))
+
+    return toResponse({
+      data: matches.slice(offset, offset + limit).map((site) => project(site, params.fields)),
+      meta: {
+        total: matches.length,
+        limit,
+        offset,
+        page: limit > 0 ? Math.floor(offset / limit) + 1 : 1,
+      },
+    })
+  }
+
+  async searchHeritage<F extends HeritageField = HeritageField>(
+    params: HeritageSearchParams<F>,
+    options: ApiRequestOptions = {}
+  ): Promise<ApiResponse<HeritageSearchResponse<HeritageProjection<F>>>> {
+    if (!params?.q?.trim()) {
+      throw new ValidationError({ message: "search query `q` is required", field: "q" })
+    }
+    throwIfAborted(options.signal)
+    const limit = Math.max(0, Math.floor(params.limit ?? DEFAULT_OFFLINE_LIMIT))
+    const tokens = tokenize(params.q)
+
+    const candidates = await this.store.find("heritage", { state: params.state })
+    const ranked = candidates
+      .filter((site) => matchesListParams(site, { style: params.style, country: params.country }))
+      .map((site) => ({ site, score: searchScore(site, tokens) }))
+      .filter((entry) => entry.score > 0)
+      .sort((a, b) => b.score - a.score || compareSites("name")(a.site, b.site))
+
+    return toResponse({
+      data: ranked.slice(0, limit).map((entry) => project(entry.site, params.fields)),
+      meta: { total: ranked.length, limit },
+    })
+  }
+
+  async getHeritage<F extends HeritageField = HeritageField>(
+    slug: string,
+    params: { fields?: readonly F[] } = {},
+    options: ApiRequestOptions = {}
+  ): Promise<ApiResponse<HeritageProjection<F>>> {
+    if (!slug || typeof slug !== "string") {
+      throw new ValidationError({ message: "slug is required", field: "slug" })
+    }
+    throwIfAborted(options.signal)
+    const site = await this.store.get("heritage", slug)
+    if (!site) {
+      throw new NotFoundError({ message: `Heritage site "${slug}" not found in the offline dataset` })
+    }
+    return toResponse(project(site, params.fields))
+  }
+}
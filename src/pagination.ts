@@ -0,0 +1,199 @@
+/**
+ * Pagination Helpers for Inheritage SDK
+ *
+ * Async iterators over offset-paginated endpoints that follow
+ * meta.total / pagination.totalPages and stop on short pages
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * for await (const site of client.paginate.heritage({ state: 'Karnataka' })) {
+ *   console.log(site.name)
+ * }
+ *
+ * const first500 = await client.paginate.media({ type: 'image' }).collect({ maxItems: 500 })
+ * ```
+ */
+
+import { throwIfAborted } from "./abort"
+import type { InheritageClient } from "./client"
+import type {
+  AATSearchParams,
+  AATStyle,
+  AIVectorIndexParams,
+  AIVectorRecord,
+  ApiRequestOptions,
+  ApiResponse,
+  HeritageField,
+  HeritageListParams,
+  HeritageProjection,
+  MediaResponse,
+  MediaSearchParams,
+} from "./types"
+
+export const DEFAULT_PAGE_SIZE = 100
+
+export interface PaginateOptions extends ApiRequestOptions {
+  /** Stop after yielding this many items in total. */
+  maxItems?: number
+  /** Stop after fetching this many pages. */
+  maxPages?: number
+}
+
+export interface Page<T> {
+  items: T[]
+  /** Offset of the first item on this page. */
+  offset: number
+  /** Page size in effect (server-reported when available). */
+  limit: number
+  /** 1-based page number. */
+  pageNumber: number
+  /** Total matching items, when the endpoint reports it. */
+  total: number | null
+  response: ApiResponse<unknown>
+}
+
+/**
+ * What a page fetcher returns; `total`, `hasMore` and `limit` are optional hints.
+ */
+export interface PageResult<T> {
+  items: T[]
+  total?: number | null
+  /** Explicit end-of-results signal, e.g. derived from `pagination.totalPages`. */
+  hasMore?: boolean
+  limit?: number | null
+  response: ApiResponse<unknown>
+}
+
+export type PageFetcher<T> = (offset: number, limit: number, options: ApiRequestOptions) => Promise<PageResult<T>>
+
+export class Paginator<T> implements AsyncIterable<T> {
+  constructor(
+    private readonly fetchPage: PageFetcher<T>,
+    private readonly start: { offset?: number; limit?: number } = {},
+    private readonly options: PaginateOptions = {}
+  ) {}
+
+  /**
+   * Iterate page by page. Stops on an empty or short page, once `total` is
+   * reached, when the endpoint reports no further pages, or when `maxItems` /
+   * `maxPages` is hit.
+   */
+  async *pages(): AsyncGenerator<Page<T>, void, undefined> {
+    const { maxItems, maxPages, ...requestOptions } = this.options
+    const signal = requestOptions.signal
+    const requested = Math.max(1, Math.floor(this.start.limit ?? DEFAULT_PAGE_SIZE))
+    let offset = Math.max(0, Math.floor(this.start.offset ?? 0))
+    let yielded = 0
+    let pageNumber = 0
+
+    while (true) {
+      if (maxPages !== undefined && pageNumber >= maxPages) return
+      if (maxItems !== undefined && yielded >= maxItems) return
+      throwIfAborted(signal)
+
+      const result = await this.fetchPage(offset, requested, requestOptions)
+      pageNumber += 1
+
+      const limit = result.limit && result.limit > 0 ? result.limit : requested
+      const total = typeof result.total === "number" ? result.total : null
+      const fetched = result.items.length
+      const items = maxItems !== undefined ? result.items.slice(0, maxItems - yielded) : result.items
+
+      if (items.length > 0) {
+        yielded += items.length
+        yield { items, offset, limit, pageNumber, total, response: result.response }
+      }
+
+      offset += fetched
+      if (fetched === 0 || fetched < limit) return
+      if (total !== null && offset >= total) return
+      if (result.hasMore === false) return
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page.items
+    }
+  }
+
+  /**
+   * Drain the iterator into an array, optionally capped at `maxItems`.
+   */
+  async collect(options: { maxItems?: number } = {}): Promise<T[]> {
+    const cap = options.maxItems ?? this.options.maxItems
+    const paginator = cap === this.options.maxItems ? this : new Paginator(this.fetchPage, this.start, { ...this.options, maxItems: cap })
+    const items: T[] = []
+    for await (const page of paginator.pages()) {
+      items.push(...page.items)
+    }
+    return items
+  }
+}
+
+export interface InheritagePaginators {
+  heritage<F extends HeritageField = HeritageField>(params?: HeritageListParams<F>, options?: PaginateOptions): Paginator<HeritageProjection<F>>
+  media(params?: MediaSearchParams, options?: PaginateOptions): Paginator<MediaResponse>
+  aat(params?: AATSearchParams, options?: PaginateOptions): Paginator<AATStyle>
+  vectors(params?: AIVectorIndexParams, options?: PaginateOptions): Paginator<AIVectorRecord>
+}
+
+type PaginatedClient = Pick<InheritageClient, "listHeritage" | "searchMedia" | "searchAAT" | "getAIVectorIndex">
+
+/**
+ * Bind paginators to a client. Exposed as `client.paginate`.
+ */
+export function createPaginators(client: PaginatedClient): InheritagePaginators {
+  return {
+    heritage: <F extends HeritageField = HeritageField>(params: HeritageListParams<F> = {}, options: PaginateOptions = {}) =>
+      new Paginator<HeritageProjection<F>>(
+        async (offset, limit, requestOptions) => {
+          const response = await client.listHeritage({ ...params, offset, limit }, requestOptions)
+          const { data, meta } = response.data
+          return { items: data, total: meta?.total, limit: meta?.limit, response }
+        },
+        params,
+        options
+      ),
+    media: (params = {}, options = {}) =>
+      new Paginator(
+        async (offset, limit, requestOptions) => {
+          const response = await client.searchMedia({ ...params, offset, limit }, requestOptions)
+          const { data, meta } = response.data
+          return { items: data, total: meta?.total, limit: meta?.limit, response }
+        },
+        params,
+        options
+      ),
+    aat: (params = {}, options = {}) =>
+      new Paginator(
+        async (offset, limit, requestOptions) => {
+          const response = await client.searchAAT({ ...params, offset, limit }, requestOptions)
+          const { data, pagination, total } = response.data
+          return {
+            items: data,
+            total: pagination?.total ?? total,
+            hasMore: pagination ? pagination.page < pagination.totalPages : undefined,
+            limit: pagination?.pageSize,
+            response,
+          }
+        },
+        params,
+        options
+      ),
+    vectors: (params = {}, options = {}) =>
+      new Paginator(
+        async (offset, limit, requestOptions) => {
+          const response = await client.getAIVectorIndex({ ...params, offset, limit }, requestOptions)
+          return { items: response.data, response }
+        },
+        params,
+        options
+      ),
+  }
+}
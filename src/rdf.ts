@@ -0,0 +1,491 @@
+/**
+ * RDF Serialization for Inheritage SDK
+ *
+ * Converts Heritage records and CIDOC-CRM JSON-LD to RDF quads and
+ * writes them as N-Triples, N-Quads, Turtle or JSON-LD
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * for await (const chunk of streamHeritageRdf(client.streamHeritageDump(), { format: 'nquads', graph: 'https://inheritage.foundation/' })) {
+ *   output.write(chunk)
+ * }
+ * ```
+ */
+
+import { fnv1a32 } from "./checksum"
+import { CIDOC_CRM_NAMESPACE } from "./cidoc"
+import { ValidationError } from "./errors"
+import { citationAttribution } from "./feeds"
+import type { CidocJsonLd, Heritage, JsonValue } from "./types"
+
+export interface RdfNamedNode {
+  termType: "NamedNode"
+  value: string
+}
+
+export interface RdfBlankNode {
+  termType: "BlankNode"
+  value: string
+}
+
+export interface RdfLiteral {
+  termType: "Literal"
+  value: string
+  /** Datatype IRI; omitted for `xsd:string` and language-tagged strings. */
+  datatype?: string
+  language?: string
+}
+
+export type RdfTerm = RdfNamedNode | RdfBlankNode | RdfLiteral
+
+export interface RdfQuad {
+  subject: RdfNamedNode | RdfBlankNode
+  predicate: RdfNamedNode
+  object: RdfTerm
+  /** Named graph; the default graph when omitted. */
+  graph?: RdfNamedNode
+}
+
+export type RdfFormat = "ntriples" | "nquads" | "turtle"
+
+export const RDF_PREFIXES: Readonly<Record<string, string>> = {
+  rdf: "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+  rdfs: "http://www.w3.org/2000/01/rdf-schema#",
+  xsd: "http://www.w3.org/2001/XMLSchema#",
+  owl: "http://www.w3.org/2002/07/owl#",
+  schema: "http://schema.org/",
+  dcterms: "http://purl.org/dc/terms/",
+  cc: "http://creativecommons.org/ns#",
+  skos: "http://www.w3.org/2004/02/skos/core#",
+  geo: "http://www.w3.org/2003/01/geo/wgs84_pos#",
+  crm: CIDOC_CRM_NAMESPACE,
+}
+
+const RDF_TYPE = `${RDF_PREFIXES.rdf}type`
+const XSD_STRING = `${RDF_PREFIXES.xsd}string`
+const WIKIDATA_URL = /^https?:\/\/(?:www\.)?wikidata\.org\/(?:wiki|entity)\/(Q\d+)\/?$/
+const ABSOLUTE_IRI = /^[A-Za-z][A-Za-z0-9+.-]*:/
+
+export function namedNode(value: string): RdfNamedNode {
+  return { termType: "NamedNode", value }
+}
+
+export function blankNode(value: string): RdfBlankNode {
+  return { termType: "BlankNode", value }
+}
+
+export function literal(value: string | number | boolean, languageOrDatatype?: string): RdfLiteral {
+  if (typeof value === "number") {
+    return { termType: "Literal", value: String(value), datatype: `${RDF_PREFIXES.xsd}${Number.isInteger(value) ? "integer" : "decimal"}` }
+  }
+  if (typeof value === "boolean") return { termType: "Literal", value: String(value), datatype: `${RDF_PREFIXES.xsd}boolean` }
+  if (!languageOrDatatype) return { termType: "Literal", value }
+  return ABSOLUTE_IRI.test(languageOrDatatype)
+    ? { termType: "Literal", value, datatype: languageOrDatatype }
+    : { termType: "Literal", value, language: languageOrDatatype }
+}
+
+function expand(name: string): string {
+  const colon = name.indexOf(":")
+  const prefix = colon > 0 ? name.slice(0, colon) : ""
+  return prefix in RDF_PREFIXES && !name.startsWith(`${prefix}://`) ? `${RDF_PREFIXES[prefix]}${name.slice(colon + 1)}` : name
+}
+
+// ---------------------------------------------------------------------------
+// Heritage records
+// ---------------------------------------------------------------------------
+
+export interface HeritageRdfOptions {
+  /**
+   * Subject IRI for a record. Defaults to `official_url`, then `urn:uuid:<uuid>`, then
+   * `https://inheritage.foundation/heritage/<slug>`.
+   */
+  iri?: (site: Heritage) => string
+  /** Language tag for names and descriptions. Defaults to `en`. */
+  language?: string
+  /** Named graph for every quad. */
+  graph?: string
+}
+
+/**
+ * The default stable IRI of a record.
+ */
+export function heritageIri(site: Pick<Heritage, "slug" | "uuid" | "official_url">): string {
+  if (site.official_url) return site.official_url
+  if (site.uuid) return `urn:uuid:${site.uuid}`
+  return `https://inheritage.foundation/heritage/${encodeURIComponent(site.slug)}`
+}
+
+/**
+ * Normalize `same_as` links so they join with other datasets: Wikidata page URLs become
+ * entity IRIs (`http://www.wikidata.org/entity/Q…`).
+ */
+export function sameAsIri(url: string): string {
+  const wikidata = WIKIDATA_URL.exec(url.trim())
+  return wikidata ? `http://www.wikidata.org/entity/${wikidata[1]}` : url.trim()
+}
+
+/**
+ * Map a record to quads with schema.org, Dublin Core terms and Creative Commons
+ * vocabularies: name and descriptions, address and coordinates, dates, materials,
+ * `owl:sameAs` for every `same_as` link and license/attribution triples from its citation.
+ * Blank nodes are labelled from the slug, so output for a dump never collides.
+ */
+export function heritageToQuads(site: Heritage, options: HeritageRdfOptions = {}): RdfQuad[] {
+  const language = options.language ?? "en"
+  const graph = options.graph ? namedNode(options.graph) : undefined
+  const subject = namedNode((options.iri ?? heritageIri)(site))
+  const label = site.slug.replace(/[^A-Za-z0-9_-]/g, "_")
+  const quads: RdfQuad[] = []
+  const add = (node: RdfNamedNode | RdfBlankNode, predicate: string, object: RdfTerm | null | undefined) => {
+    if (!object || object.value === "") return
+    quads.push(graph ? { subject: node, predicate: namedNode(expand(predicate)), object, graph } : { subject: node, predicate: namedNode(expand(predicate)), object })
+  }
+  const text = (value: string | null | undefined) => (value ? literal(value, language) : null)
+  const plain = (value: string | null | undefined) => (value ? literal(value) : null)
+
+  add(subject, "rdf:type", namedNode(expand("schema:LandmarksOrHistoricalBuildings")))
+  add(subject, "rdf:type", namedNode(expand("crm:E22_Human-Made_Object")))
+  add(subject, "schema:name", text(site.name))
+  add(subject, "rdfs:label", text(site.name))
+  add(subject, "schema:description", text(site.summary))
+  add(subject, "dcterms:description", text(site.description))
+  add(subject, "dcterms:identifier", plain(site.slug))
+  add(subject, "dcterms:identifier", plain(site.uuid))
+  if (site.official_url) add(subject, "schema:url", namedNode(site.official_url))
+  add(subject, "dcterms:subject", plain(site.category))
+  add(subject, "dcterms:created", plain(site.year_built))
+  add(subject, "dcterms:temporal", plain(site.period))
+  add(subject, "dcterms:creator", plain(site.built_by))
+  for (const material of site.materials ?? []) add(subject, "schema:material", plain(material))
+
+  if (site.location || site.state || site.country) {
+    const address = blankNode(`${label}-address`)
+    add(subject, "schema:address", address)
+    add(address, "rdf:type", namedNode(expand("schema:PostalAddress")))
+    add(address, "schema:addressLocality", plain(site.location))
+    add(address, "schema:addressRegion", plain(site.state))
+    add(address, "schema:addressCountry", plain(site.country))
+  }
+
+  // `geolocation` rather than `coordinates`, whose axis order is not fixed.
+  const { lat, lon } = site.geolocation ?? {}
+  if (typeof lat === "number" && typeof lon === "number") {
+    const geo = blankNode(`${label}-geo`)
+    add(subject, "schema:geo", geo)
+    add(geo, "rdf:type", namedNode(expand("schema:GeoCoordinates")))
+    add(geo, "schema:latitude", literal(String(lat), expand("xsd:decimal")))
+    add(geo, "schema:longitude", literal(String(lon), expand("xsd:decimal")))
+  }
+
+  for (const link of site.same_as ?? []) {
+    if (/^https?:\/\//i.test(link)) add(subject, "owl:sameAs", namedNode(sameAsIri(link)))
+  }
+
+  const attribution = citationAttribution(site.citations?.[0])
+  add(subject, "dcterms:license", namedNode(attribution.licenseUrl))
+  add(subject, "cc:license", namedNode(attribution.licenseUrl))
+  add(subject, "cc:attributionName", plain(attribution.name))
+  add(subject, "cc:attributionURL", namedNode(attribution.url))
+  add(subject, "dcterms:rights", plain(attribution.text))
+  return quads
+}
+
+// ---------------------------------------------------------------------------
+// CIDOC-CRM JSON-LD
+// ---------------------------------------------------------------------------
+
+export interface CidocRdfOptions {
+  /**
+   * Base IRI for relative `@id`s such as `#place`. Defaults to the document's `@id` when it is
+   * absolute; a relative `@id` with no base throws a `ValidationError`.
+   */
+  base?: string
+  /** Namespace for keys that are neither CRM names, known prefixes nor IRIs. Unmapped keys are dropped when omitted. */
+  vocab?: string
+  graph?: string
+  /**
+   * Prefix for blank node labels, so several documents can share one output. Defaults to the
+   * last path segment of the document's `@id` (the slug), else a hash of the document.
+   */
+  blankNodePrefix?: string
+}
+
+type JsonObject = { [key: string]: JsonValue }
+
+const CIDOC_ALIASES: Record<string, string> = {
+  label: "rdfs:label",
+  _label: "rdfs:label",
+  name: "rdfs:label",
+  sameAs: "owl:sameAs",
+  exactMatch: "skos:exactMatch",
+  lat: "geo:lat",
+  long: "geo:long",
+}
+
+function isObject(value: JsonValue | undefined): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function asArray(value: JsonValue | undefined): JsonValue[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+/**
+ * Convert a CIDOC-CRM JSON-LD document (as returned by `getHeritageCIDOC`) to quads
+ * without fetching its `@context`. CRM classes and properties (`E22_…`, `P4_…`, `crm:…`)
+ * map to the CIDOC-CRM namespace, `label`/`name` to `rdfs:label` and `sameAs` to
+ * `owl:sameAs`; `@value` objects keep their language and datatype. Blank nodes are
+ * labelled with `blankNodePrefix`, so documents converted into one file never share one.
+ */
+export function cidocToQuads(document: CidocJsonLd | JsonValue, options: CidocRdfOptions = {}): RdfQuad[] {
+  const json = document as JsonValue
+  const top = isObject(json) && Array.isArray(json["@graph"]) ? json["@graph"] : asArray(json)
+  const rootId = isObject(json) && typeof json["@id"] === "string" ? json["@id"] : undefined
+  const base = options.base ?? (rootId && ABSOLUTE_IRI.test(rootId) ? rootId : undefined)
+  const graph = options.graph ? namedNode(options.graph) : undefined
+  const quads: RdfQuad[] = []
+  const ids = new Set<string>()
+  const prefix = blankLabel(options.blankNodePrefix ?? documentLabel(rootId, json))
+  let blankNodes = 0
+
+  const collectIds = (value: JsonValue) => {
+    if (Array.isArray(value)) value.forEach(collectIds)
+    else if (isObject(value)) {
+      if (typeof value["@id"] === "string") ids.add(value["@id"])
+      Object.values(value).forEach(collectIds)
+    }
+  }
+  top.forEach(collectIds)
+
+  const resolve = (id: string): RdfNamedNode | RdfBlankNode => {
+    if (id.startsWith("_:")) return blankNode(`${prefix}-b-${id.slice(2)}`)
+    if (ABSOLUTE_IRI.test(id)) return namedNode(expand(id))
+    if (!base) {
+      throw new ValidationError({ message: `Relative @id "${id}" needs a base IRI; pass \`base\` or give the document an absolute @id`, field: "base" })
+    }
+    return namedNode(new URL(id, base).href)
+  }
+
+  const predicateIri = (key: string): string | undefined => {
+    if (CIDOC_ALIASES[key]) return expand(CIDOC_ALIASES[key])
+    if (/^[EP]\d+[a-z]?i?(?:_|$)/.test(key)) return `${CIDOC_CRM_NAMESPACE}${key}`
+    if (ABSOLUTE_IRI.test(key)) return expand(key)
+    return options.vocab ? `${options.vocab}${key}` : undefined
+  }
+
+  const classIri = (type: string): string | undefined => {
+    if (/^E\d+/.test(type)) return `${CIDOC_CRM_NAMESPACE}${type}`
+    if (ABSOLUTE_IRI.test(type)) return expand(type)
+    return options.vocab ? `${options.vocab}${type}` : undefined
+  }
+
+  const add = (subject: RdfNamedNode | RdfBlankNode, predicate: string, object: RdfTerm) => {
+    quads.push(graph ? { subject, predicate: namedNode(predicate), object, graph } : { subject, predicate: namedNode(predicate), object })
+  }
+
+  const node = (value: JsonObject): RdfNamedNode | RdfBlankNode => {
+    const subject = typeof value["@id"] === "string" ? resolve(value["@id"]) : blankNode(`${prefix}-c${blankNodes++}`)
+    for (const type of asArray(value["@type"])) {
+      const iri = typeof type === "string" ? classIri(type) : undefined
+      if (iri) add(subject, RDF_TYPE, namedNode(iri))
+    }
+    for (const [key, raw] of Object.entries(value)) {
+      if (key.startsWith("@")) continue
+      const predicate = predicateIri(key)
+      if (!predicate) continue
+      const linksOut = predicate === `${RDF_PREFIXES.owl}sameAs` || predicate === `${RDF_PREFIXES.skos}exactMatch`
+      for (const item of asArray(raw)) {
+        if (isObject(item) && "@value" in item) {
+          const datatype = typeof item["@type"] === "string" ? expand(item["@type"]) : undefined
+          const language = typeof item["@language"] === "string" ? item["@language"] : undefined
+          const content = item["@value"]
+          if (typeof content === "number" || typeof content === "boolean") add(subject, predicate, literal(content))
+          else if (typeof content === "string") add(subject, predicate, literal(content, language ?? datatype))
+        } else if (isObject(item)) {
+          add(subject, predicate, node(item))
+        } else if (typeof item === "string" && (ids.has(item) || (linksOut && ABSOLUTE_IRI.test(item)))) {
+          add(subject, predicate, resolve(item))
+        } else if (typeof item === "string" || typeof item === "number" || typeof item === "boolean") {
+          add(subject, predicate, literal(item))
+        }
+      }
+    }
+    return subject
+  }
+
+  for (const value of top) {
+    if (isObject(value)) node(value)
+  }
+  return quads
+}
+
+function documentLabel(rootId: string | undefined, document: JsonValue): string {
+  const slug = rootId?.replace(/[#?].*$/, "").split("/").filter(Boolean).pop()
+  return slug || `d${fnv1a32(JSON.stringify(document)).toString(16)}`
+}
+
+// ---------------------------------------------------------------------------
+// Serializers
+// ---------------------------------------------------------------------------
+
+function escapeString(value: string): string {
+  return value.replace(/[\\"\n\r\t]/g, (char) => ({ "\\": "\\\\", '"': '\\"', "\n": "\\n", "\r": "\\r", "\t": "\\t" })[char]!)
+}
+
+function escapeIri(value: string): string {
+  return value.replace(/[\u0000- <>"{}|^`\\]/g, (char) => `\\u${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0")}`)
+}
+
+function blankLabel(value: string): string {
+  return value.replace(/[^A-Za-z0-9_-]/g, "_")
+}
+
+function formatTerm(term: RdfTerm, compact?: (iri: string) => string | undefined): string {
+  if (term.termType === "NamedNode") return compact?.(term.value) ?? `<${escapeIri(term.value)}>`
+  if (term.termType === "BlankNode") return `_:${blankLabel(term.value)}`
+  const text = `"${escapeString(term.value)}"`
+  if (term.language) return `${text}@${term.language}`
+  if (term.datatype && term.datatype !== XSD_STRING) return `${text}^^${compact?.(term.datatype) ?? `<${escapeIri(term.datatype)}>`}`
+  return text
+}
+
+/**
+ * N-Triples: one triple per line; named graphs are ignored.
+ */
+export function serializeNTriples(quads: Iterable<RdfQuad>): string {
+  let output = ""
+  for (const quad of quads) {
+    output += `${formatTerm(quad.subject)} ${formatTerm(quad.predicate)} ${formatTerm(quad.object)} .\n`
+  }
+  return output
+}
+
+/**
+ * N-Quads: like N-Triples with the named graph, if any, as a fourth term.
+ */
+export function serializeNQuads(quads: Iterable<RdfQuad>): string {
+  let output = ""
+  for (const quad of quads) {
+    const graph = quad.graph ? ` ${formatTerm(quad.graph)}` : ""
+    output += `${formatTerm(quad.subject)} ${formatTerm(quad.predicate)} ${formatTerm(quad.object)}${graph} .\n`
+  }
+  return output
+}
+
+export interface TurtleOptions {
+  /** Prefixes to declare and compact with. Defaults to `RDF_PREFIXES`. */
+  prefixes?: Readonly<Record<string, string>>
+  /** Emit the `@prefix` header. Defaults to true; disable for chunks after the first. */
+  header?: boolean
+}
+
+/**
+ * Turtle header: one `@prefix` line per prefix.
+ */
+export function turtlePrefixes(prefixes: Readonly<Record<string, string>> = RDF_PREFIXES): string {
+  return Object.entries(prefixes)
+    .map(([prefix, iri]) => `@prefix ${prefix}: <${escapeIri(iri)}> .\n`)
+    .join("")
+}
+
+/**
+ * Turtle, grouped by subject and predicate and compacted with `prefixes`. Named graphs
+ * are ignored.
+ */
+export function serializeTurtle(quads: Iterable<RdfQuad>, options: TurtleOptions = {}): string {
+  const prefixes = options.prefixes ?? RDF_PREFIXES
+  const compact = (iri: string): string | undefined => {
+    if (iri === RDF_TYPE) return "a"
+    for (const [prefix, namespace] of Object.entries(prefixes)) {
+      if (!iri.startsWith(namespace)) continue
+      const local = iri.slice(namespace.length)
+      if (/^[A-Za-z_][A-Za-z0-9_-]*$/.test(local) || local === "") return `${prefix}:${local}`
+    }
+    return undefined
+  }
+  const compactObject = (iri: string) => (iri === RDF_TYPE ? undefined : compact(iri))
+
+  const subjects = new Map<string, { subject: RdfTerm; predicates: Map<string, { predicate: RdfTerm; objects: string[] }> }>()
+  for (const quad of quads) {
+    const key = formatTerm(quad.subject)
+    let entry = subjects.get(key)
+    if (!entry) {
+      entry = { subject: quad.subject, predicates: new Map() }
+      subjects.set(key, entry)
+    }
+    let predicate = entry.predicates.get(quad.predicate.value)
+    if (!predicate) {
+      predicate = { predicate: quad.predicate, objects: [] }
+      entry.predicates.set(quad.predicate.value, predicate)
+    }
+    const object = formatTerm(quad.object, compactObject)
+    if (!predicate.objects.includes(object)) predicate.objects.push(object)
+  }
+
+  const blocks: string[] = []
+  for (const { subject, predicates } of subjects.values()) {
+    const lines = [...predicates.values()].map(
+      ({ predicate, objects }) => `    ${formatTerm(predicate, compact)} ${objects.join(", ")}`
+    )
+    blocks.push(`${formatTerm(subject, compactObject)}\n${lines.join(" ;\n")} .\n`)
+  }
+  const header = options.header === false ? "" : `${turtlePrefixes(prefixes)}\n`
+  return `${header}${blocks.join("\n")}`
+}
+
+/**
+ * JSON-LD (expanded form, one node object per subject).
+ */
+export function quadsToJsonLd(quads: Iterable<RdfQuad>): JsonObject[] {
+  const nodes = new Map<string, JsonObject>()
+  const id = (term: RdfNamedNode | RdfBlankNode) => (term.termType === "BlankNode" ? `_:${blankLabel(term.value)}` : term.value)
+  for (const quad of quads) {
+    const key = id(quad.subject)
+    let node = nodes.get(key)
+    if (!node) {
+      node = { "@id": key }
+      nodes.set(key, node)
+    }
+    if (quad.predicate.value === RDF_TYPE && quad.object.termType !== "Literal") {
+      node["@type"] = [...((node["@type"] as string[] | undefined) ?? []), id(quad.object)]
+      continue
+    }
+    const object = quad.object
+    const value: JsonObject =
+      object.termType === "Literal"
+        ? { "@value": object.value, ...(object.language ? { "@language": object.language } : {}), ...(object.datatype ? { "@type": object.datatype } : {}) }
+        : { "@id": id(object) }
+    node[quad.predicate.value] = [...((node[quad.predicate.value] as JsonValue[] | undefined) ?? []), value]
+  }
+  return [...nodes.values()]
+}
+
+export interface HeritageRdfStreamOptions extends HeritageRdfOptions {
+  format: RdfFormat
+  /** Turtle prefixes; see `TurtleOptions`. */
+  prefixes?: Readonly<Record<string, string>>
+}
+
+/**
+ * Serialize a whole dump record by record, e.g. from `client.streamHeritageDump()`.
+ * Yields one chunk per record (Turtle starts with the prefix header), so memory stays flat.
+ */
+export async function* streamHeritageRdf(
+  records: AsyncIterable<Heritage> | Iterable<Heritage>,
+  options: HeritageRdfStreamOptions
+): AsyncGenerator<string, void, undefined> {
+  if (options.format === "turtle") yield `${turtlePrefixes(options.prefixes)}\n`
+  for await (const site of records) {
+    const quads = heritageToQuads(site, options)
+    if (options.format === "ntriples") yield serializeNTriples(quads)
+    else if (options.format === "nquads") yield serializeNQuads(quads)
+    else yield `${serializeTurtle(quads, { prefixes: options.prefixes, header: false })}\n`
+  }
+}
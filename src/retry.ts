@@ -0,0 +1,145 @@
+/**
+ * Retry Policy for Inheritage SDK
+ *
+ * Exponential backoff with jitter for transient API failures
+ * Honours Retry-After and never replays non-idempotent requests by default
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ */
+
+import { InheritageApiError, NetworkError } from "./errors"
+
+export const DEFAULT_RETRY_STATUS_CODES: readonly number[] = [408, 425, 429, 500, 502, 503, 504]
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"])
+
+export interface RetryEvent {
+  /** Attempt that just failed (1-based). */
+  attempt: number
+  /** Delay before the next attempt, in milliseconds. */
+  delayMs: number
+  method: string
+  url: string
+  error: unknown
+}
+
+export interface RetryOptions {
+  /** Total attempts including the first request. Defaults to 3. */
+  maxAttempts?: number
+  /** Base delay for exponential backoff. Defaults to 300ms. */
+  baseDelayMs?: number
+  /** Upper bound for a single backoff delay (including Retry-After). Defaults to 20s. */
+  maxDelayMs?: number
+  /** Apply full jitter to computed delays. Defaults to true. */
+  jitter?: boolean
+  /** HTTP statuses that count as transient. Defaults to `DEFAULT_RETRY_STATUS_CODES`. */
+  statusCodes?: readonly number[]
+  /** Retry `NetworkError`s (DNS, connection reset, timeouts). Defaults to true. */
+  retryNetworkErrors?: boolean
+  /** Allow replaying non-idempotent requests such as `reportCitation`. Defaults to false. */
+  retryNonIdempotent?: boolean
+  /** Wait for the server-provided Retry-After instead of the computed backoff. Defaults to true. */
+  respectRetryAfter?: boolean
+  onRetry?: (event: RetryEvent) => void
+}
+
+export interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+  jitter: boolean
+  statusCodes: readonly number[]
+  retryNetworkErrors: boolean
+  retryNonIdempotent: boolean
+  respectRetryAfter: boolean
+  onRetry?: (event: RetryEvent) => void
+}
+
+/**
+ * Merge client-wide and per-call retry settings. Returns null when retries are disabled.
+ */
+export function resolveRetryPolicy(
+  clientOptions?: RetryOptions | boolean,
+  callOptions?: RetryOptions | boolean
+): RetryPolicy | null {
+  if (callOptions === false) return null
+  if (callOptions === undefined && (clientOptions === undefined || clientOptions === false)) return null
+
+  const base = typeof clientOptions === "object" ? clientOptions : {}
+  const override = typeof callOptions === "object" ? callOptions : {}
+  const merged: RetryOptions = { ...base, ...override }
+
+  const maxAttempts = Math.max(1, Math.floor(merged.maxAttempts ?? 3))
+  if (maxAttempts === 1) return null
+
+  return {
+    maxAttempts,
+    baseDelayMs: Math.max(0, merged.baseDelayMs ?? 300),
+    maxDelayMs: Math.max(0, merged.maxDelayMs ?? 20_000),
+    jitter: merged.jitter ?? true,
+    statusCodes: merged.statusCodes ?? DEFAULT_RETRY_STATUS_CODES,
+    retryNetworkErrors: merged.retryNetworkErrors ?? true,
+    retryNonIdempotent: merged.retryNonIdempotent ?? false,
+    respectRetryAfter: merged.respectRetryAfter ?? true,
+    onRetry: merged.onRetry,
+  }
+}
+
+export function isIdempotentMethod(method: string): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase())
+}
+
+export function isAbortError(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { name?: string }).name === "AbortError"
+}
+
+/**
+ * Decide whether a failed attempt is worth replaying under the given policy.
+ */
+export function shouldRetry(policy: RetryPolicy, error: unknown): boolean {
+  if (error instanceof NetworkError) {
+    return policy.retryNetworkErrors
+  }
+  if (error instanceof InheritageApiError) {
+    return policy.statusCodes.includes(error.status)
+  }
+  if (isAbortError(error)) {
+    return false
+  }
+  return policy.retryNetworkErrors
+}
+
+/**
+ * Backoff delay before the next attempt. `attempt` is the 1-based attempt that failed.
+ */
+export function computeRetryDelay(policy: RetryPolicy, attempt: number, retryAfterSeconds?: number | null): number {
+  if (policy.respectRetryAfter && typeof retryAfterSeconds === "number" && retryAfterSeconds >= 0) {
+    return Math.min(policy.maxDelayMs, retryAfterSeconds * 1000)
+  }
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+  return policy.jitter ? Math.round(Math.random() * exponential) : exponential
+}
+
+/**
+ * Promise-based delay that rejects with the signal's reason when aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
@@ -0,0 +1,214 @@
+/**
+ * Client-side Request Scheduler for Inheritage SDK
+ *
+ * Caps concurrency and holds outgoing requests while the
+ * X-RateLimit window is exhausted, so bulk loops stop tripping 429s
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * const client = new InheritageClient({ scheduler: { maxConcurrency: 4 } })
+ * client.scheduler?.on('throttled', (e) => console.log(`paused until ${new Date(e.until)}`))
+ * ```
+ */
+
+import { TypedEventEmitter } from "./events"
+import type { RateLimitInfo } from "./types"
+
+export interface SchedulerQueuedEvent {
+  pending: number
+  active: number
+}
+
+export interface SchedulerThrottledEvent {
+  /** Epoch milliseconds at which dispatching resumes. */
+  until: number
+  pending: number
+  rateLimit?: RateLimitInfo
+}
+
+export interface SchedulerResumedEvent {
+  pending: number
+  waitedMs: number
+}
+
+export interface RequestSchedulerEvents extends Record<string, unknown> {
+  queued: SchedulerQueuedEvent
+  throttled: SchedulerThrottledEvent
+  resumed: SchedulerResumedEvent
+}
+
+export interface RequestSchedulerOptions {
+  /** Maximum requests in flight at once. Defaults to 6. */
+  maxConcurrency?: number
+  /** Hold requests while `X-RateLimit-Remaining` is zero. Defaults to true. */
+  respectRateLimit?: boolean
+}
+
+interface QueuedTask {
+  run: () => void
+  reject: (reason: unknown) => void
+  signal?: AbortSignal
+  onAbort?: () => void
+}
+
+/**
+ * `X-RateLimit-Reset` is epoch seconds; small values are treated as seconds-from-now.
+ */
+function resetToEpochMs(reset: number, now: number): number {
+  return reset > 1e9 ? reset * 1000 : now + reset * 1000
+}
+
+export class RequestScheduler extends TypedEventEmitter<RequestSchedulerEvents> {
+  private readonly maxConcurrency: number
+  private readonly respectRateLimit: boolean
+  private readonly queue: QueuedTask[] = []
+  private running = 0
+  private remaining: number | null = null
+  private resetAt = 0
+  private lastRateLimit?: RateLimitInfo
+  private throttleTimer: ReturnType<typeof setTimeout> | null = null
+  private throttleUntil = 0
+  private throttledSince = 0
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    super()
+    this.maxConcurrency = Math.max(1, Math.floor(options.maxConcurrency ?? 6))
+    this.respectRateLimit = options.respectRateLimit ?? true
+  }
+
+  get pending(): number {
+    return this.queue.length
+  }
+
+  get active(): number {
+    return this.running
+  }
+
+  get rateLimit(): RateLimitInfo | undefined {
+    return this.lastRateLimit
+  }
+
+  /**
+   * Run `task` once a concurrency slot and rate-limit budget are available.
+   */
+  schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+
+      const entry: QueuedTask = {
+        signal,
+        reject,
+        run: () => {
+          if (entry.onAbort) signal?.removeEventListener("abort", entry.onAbort)
+          this.running += 1
+          if (this.remaining !== null) this.remaining -= 1
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.running -= 1
+              this.drain()
+            })
+        },
+      }
+
+      if (this.canDispatch() && this.queue.length === 0) {
+        entry.run()
+        return
+      }
+
+      if (signal) {
+        entry.onAbort = () => {
+          const index = this.queue.indexOf(entry)
+          if (index >= 0) this.queue.splice(index, 1)
+          reject(signal.reason)
+        }
+        signal.addEventListener("abort", entry.onAbort, { once: true })
+      }
+      this.queue.push(entry)
+      this.emit("queued", { pending: this.queue.length, active: this.running })
+      this.drain()
+    })
+  }
+
+  /**
+   * Record the latest rate-limit headers seen by the client.
+   */
+  update(rateLimit?: RateLimitInfo): void {
+    if (!rateLimit) return
+    const now = Date.now()
+    this.lastRateLimit = rateLimit
+    this.remaining = rateLimit.remaining
+    this.resetAt = resetToEpochMs(rateLimit.reset, now)
+    this.drain()
+  }
+
+  /**
+   * Hold all dispatching for `ms` (e.g. after a 429 with Retry-After).
+   */
+  pauseFor(ms: number): void {
+    this.remaining = 0
+    this.resetAt = Math.max(this.resetAt, Date.now() + ms)
+    this.drain()
+  }
+
+  private isThrottled(now = Date.now()): boolean {
+    if (!this.respectRateLimit || this.remaining === null) return false
+    if (now >= this.resetAt) {
+      this.remaining = null
+      return false
+    }
+    return this.remaining <= 0
+  }
+
+  private canDispatch(): boolean {
+    return this.running < this.maxConcurrency && !this.isThrottled()
+  }
+
+  private drain(): void {
+    const now = Date.now()
+    if (this.isThrottled(now)) {
+      if (this.queue.length > 0) this.holdUntilReset(now)
+      return
+    }
+    if (this.throttleTimer) {
+      clearTimeout(this.throttleTimer)
+      this.throttleTimer = null
+      this.emit("resumed", { pending: this.queue.length, waitedMs: now - this.throttledSince })
+    }
+
+    while (this.queue.length > 0 && this.running < this.maxConcurrency) {
+      if (this.isThrottled()) {
+        this.holdUntilReset(Date.now())
+        return
+      }
+      this.queue.shift()!.run()
+    }
+  }
+
+  /**
+   * Arm (or re-arm, when `resetAt` has moved later) the timer that resumes dispatching.
+   */
+  private holdUntilReset(now: number): void {
+    if (this.throttleTimer) {
+      if (this.throttleUntil >= this.resetAt) return
+      clearTimeout(this.throttleTimer)
+    } else {
+      this.throttledSince = now
+      this.emit("throttled", { until: this.resetAt, pending: this.queue.length, rateLimit: this.lastRateLimit })
+    }
+    this.throttleUntil = this.resetAt
+    this.throttleTimer = setTimeout(() => {
+      // Keep `throttleTimer` set until `drain` sees the window has passed, so it emits `resumed`.
+      this.throttleUntil = 0
+      this.drain()
+    }, this.resetAt - now)
+  }
+}
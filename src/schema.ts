@@ -0,0 +1,458 @@
+/**
+ * Runtime Response Schemas for Inheritage SDK
+ *
+ * Dependency-free structural validators mirroring the types in ./types,
+ * used by the client's `validate` mode to catch API drift early
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * const issues = validateSchema(responseSchemas.heritage, payload)
+ * // [{ path: '$.coordinates', expected: '[number, number] | null', received: 'object' }]
+ * ```
+ */
+
+export type ValidationMode = "off" | "warn" | "strict"
+
+export interface SchemaIssue {
+  /** JSONPath-style location, e.g. `$.data[3].geolocation.lat`. */
+  path: string
+  expected: string
+  received: string
+}
+
+/**
+ * Passed to `onValidationIssues` in `validate: "warn"` mode.
+ */
+export interface ValidationReport {
+  method: string
+  path: string
+  status: number
+  traceId?: string
+  issues: SchemaIssue[]
+}
+
+export interface Schema<T = unknown> {
+  readonly expected: string
+  check(value: unknown, path: string, issues: SchemaIssue[]): void
+  /** Phantom field carrying the validated type. */
+  readonly _type?: T
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+function describe(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    check(value, path, issues) {
+      if (!test(value)) issues.push({ path, expected, received: describe(value) })
+    },
+  }
+}
+
+function string(): Schema<string> {
+  return primitive("string", (value) => typeof value === "string")
+}
+
+function number(): Schema<number> {
+  return primitive("number", (value) => typeof value === "number" && Number.isFinite(value))
+}
+
+function boolean(): Schema<boolean> {
+  return primitive("boolean", (value) => typeof value === "boolean")
+}
+
+function unknown(): Schema<unknown> {
+  return { expected: "unknown", check: () => undefined }
+}
+
+function literal<const T extends string | number | boolean>(...values: T[]): Schema<T> {
+  return primitive(values.map((value) => JSON.stringify(value)).join(" | "), (value) => values.includes(value as T))
+}
+
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    expected: `${schema.expected} | null`,
+    check(value, path, issues) {
+      if (value === null) return
+      const nested: SchemaIssue[] = []
+      schema.check(value, path, nested)
+      if (nested.length === 0) return
+      if (nested.length === 1 && nested[0]!.path === path) {
+        issues.push({ ...nested[0]!, expected: `${schema.expected} | null` })
+        return
+      }
+      issues.push(...nested)
+    },
+  }
+}
+
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    expected: `${schema.expected} | undefined`,
+    check(value, path, issues) {
+      if (value === undefined) return
+      schema.check(value, path, issues)
+    },
+  }
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    expected: `${item.expected}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: `${item.expected}[]`, received: describe(value) })
+        return
+      }
+      value.forEach((entry, index) => item.check(entry, `${path}[${index}]`, issues))
+    },
+  }
+}
+
+function tuple<T extends unknown[]>(...items: { [K in keyof T]: Schema<T[K]> }): Schema<T> {
+  const expected = `[${items.map((item) => item.expected).join(", ")}]`
+  return {
+    expected,
+    check(value, path, issues) {
+      if (!Array.isArray(value) || value.length !== items.length) {
+        issues.push({ path, expected, received: Array.isArray(value) ? `array(${value.length})` : describe(value) })
+        return
+      }
+      items.forEach((item, index) => item.check(value[index], `${path}[${index}]`, issues))
+    },
+  }
+}
+
+/**
+ * Object schema. Unknown keys are allowed: additive API changes are not errors.
+ */
+function object<T extends Record<string, unknown>>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> {
+  return {
+    expected: "object",
+    check(value, path, issues) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: "object", received: describe(value) })
+        return
+      }
+      const record = value as Record<string, unknown>
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        shape[key].check(record[key], `${path}.${key}`, issues)
+      }
+    },
+  }
+}
+
+function record<T>(values: Schema<T>): Schema<Record<string, T>> {
+  return {
+    expected: `Record<string, ${values.expected}>`,
+    check(value, path, issues) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: `Record<string, ${values.expected}>`, received: describe(value) })
+        return
+      }
+      Object.entries(value).forEach(([key, entry]) => values.check(entry, `${path}.${key}`, issues))
+    },
+  }
+}
+
+export const s = {
+  string,
+  number,
+  boolean,
+  unknown,
+  literal,
+  nullable,
+  optional,
+  array,
+  tuple,
+  object,
+  record,
+}
+
+/**
+ * Validate `value` and return every path-level mismatch (empty when valid).
+ */
+export function validateSchema(schema: Schema, value: unknown, rootPath = "$"): SchemaIssue[] {
+  const issues: SchemaIssue[] = []
+  schema.check(value, rootPath, issues)
+  return issues
+}
+
+/**
+ * Report keys outside a `fields` projection. List envelopes (`{ data: [...] }`)
+ * are checked per item; any other object is checked directly.
+ */
+export function projectionIssues(fields: readonly string[], value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = []
+  const allowed = new Set(fields)
+  const checkRecord = (record: unknown, path: string) => {
+    if (typeof record !== "object" || record === null || Array.isArray(record)) return
+    for (const [key, entry] of Object.entries(record)) {
+      if (!allowed.has(key)) issues.push({ path: `${path}.${key}`, expected: "absent (not in fields)", received: describe(entry) })
+    }
+  }
+
+  const envelope = value as { data?: unknown } | null
+  if (typeof envelope === "object" && envelope !== null && Array.isArray(envelope.data)) {
+    envelope.data.forEach((record, index) => checkRecord(record, `$.data[${index}]`))
+  } else {
+    checkRecord(value, "$")
+  }
+  return issues
+}
+
+const nullableString = s.nullable(s.string())
+const nullableNumber = s.nullable(s.number())
+
+const citationEntry = s.object({
+  name: s.string(),
+  url: s.string(),
+  license: s.string(),
+  required_display: s.string(),
+})
+
+const citationBlock = s.array(citationEntry)
+
+const aiSource = s.object({
+  type: s.string(),
+  slug: s.string(),
+  confidence: s.number(),
+  retrieval_method: s.string(),
+})
+
+const heritage = s.object({
+  id: s.string(),
+  slug: s.string(),
+  uuid: s.string(),
+  name: s.string(),
+  summary: nullableString,
+  description: nullableString,
+  category: nullableString,
+  location: nullableString,
+  state: nullableString,
+  country: nullableString,
+  dynasty: nullableString,
+  period: nullableString,
+  year_built: nullableString,
+  built_by: nullableString,
+  heritage_status: nullableString,
+  preservation_status: nullableString,
+  coordinates: s.nullable(s.tuple(s.number(), s.number())),
+  geolocation: s.nullable(s.object({ lat: s.number(), lon: s.number() })),
+  materials: s.array(s.string()),
+  architecture: s.object({
+    style: nullableString,
+    structural_system: nullableString,
+    construction_technique: nullableString,
+    conservation_efforts: nullableString,
+    sustainability_features: nullableString,
+  }),
+  dimensions: s.object({
+    height: nullableNumber,
+    width: nullableNumber,
+    length: nullableNumber,
+    area: nullableNumber,
+    volume: nullableNumber,
+  }),
+  visitor_info: s.object({
+    visiting_hours: nullableString,
+    entry_fee: nullableString,
+    website: nullableString,
+    best_visit_times: nullableString,
+    facilities: s.array(s.string()),
+    restrictions: nullableString,
+    accessibility: s.nullable(s.record(s.unknown())),
+  }),
+  cultural_context: s.object({
+    history: nullableString,
+    cultural_significance: nullableString,
+    cultural_continuity: nullableString,
+    traditional_knowledge: nullableString,
+    seasonal_events: s.array(s.string()),
+  }),
+  tags: s.object({
+    category: nullableString,
+    dynasty: nullableString,
+    period: nullableString,
+    states: s.array(s.string()),
+  }),
+  media: s.object({
+    primary_image: nullableString,
+    gallery: s.array(s.string()),
+    panoramas: s.array(s.string()),
+    orthos: s.array(s.string()),
+    floor_plans: s.array(s.string()),
+    sections: s.array(s.string()),
+    site_plan: nullableString,
+    point_cloud: nullableString,
+    mesh_data: nullableString,
+    cad_files: s.array(s.string()),
+    videos: s.array(s.string()),
+    documents: s.array(s.string()),
+  }),
+  status: s.object({
+    completion_score: nullableNumber,
+    completion_status: nullableString,
+    is_featured: s.nullable(s.boolean()),
+    is_published: s.nullable(s.boolean()),
+    view_count: nullableNumber,
+  }),
+  timeline: s.array(s.record(s.unknown())),
+  references: s.array(s.record(s.unknown())),
+  analytics: s.object({
+    virtual_tour: s.object({
+      enabled: s.boolean(),
+      thumbnail: nullableString,
+      chapters_count: nullableNumber,
+      data_points_count: nullableNumber,
+      completion_rate: nullableNumber,
+      avg_session_duration: nullableNumber,
+      total_sessions: nullableNumber,
+    }),
+  }),
+  citations: citationBlock,
+  official_url: s.string(),
+  same_as: s.array(s.string()),
+})
+
+const heritageList = s.object({
+  data: s.array(heritage),
+  meta: s.object({
+    total: s.number(),
+    limit: s.number(),
+    offset: s.number(),
+    page: s.optional(s.number()),
+  }),
+})
+
+const heritageSearch = s.object({
+  data: s.array(heritage),
+  meta: s.object({
+    total: s.number(),
+    limit: s.number(),
+  }),
+})
+
+const geoFeature = s.object({
+  type: s.literal("Feature"),
+  geometry: s.object({
+    type: s.literal("Point"),
+    coordinates: s.tuple(s.number(), s.number()),
+  }),
+  properties: s.object({
+    slug: nullableString,
+    name: nullableString,
+    state: nullableString,
+    country: nullableString,
+    category: nullableString,
+    view_count: nullableNumber,
+    completion_score: nullableNumber,
+    citation: citationEntry,
+  }),
+})
+
+const geoFeatureCollection = s.object({
+  type: s.literal("FeatureCollection"),
+  features: s.array(geoFeature),
+})
+
+const mediaResponse = s.object({
+  heritage_id: s.string(),
+  items: s.array(
+    s.object({
+      type: s.literal("image", "model", "tour", "diagram", "video"),
+      url: s.string(),
+      caption: s.optional(nullableString),
+      license: s.optional(nullableString),
+      citation: s.string(),
+      metadata: s.optional(s.record(s.unknown())),
+    })
+  ),
+  citations: citationBlock,
+  metadata: s.optional(s.record(s.unknown())),
+})
+
+const mediaSearch = s.object({
+  data: s.array(mediaResponse),
+  meta: s.object({
+    total: s.number(),
+    limit: s.number(),
+    offset: s.number(),
+  }),
+})
+
+const aiContext = s.object({
+  slug: s.string(),
+  context: s.string(),
+  embedding: s.array(s.number()),
+  embedding_dimensions: s.number(),
+  embedding_checksum: s.string(),
+  model: s.string(),
+  model_version: s.string(),
+  prompt_template_version: s.string(),
+  retrieval_policy: s.string(),
+  sources: s.array(aiSource),
+  citation: s.string(),
+})
+
+const aiEmbedding = s.object({
+  slug: s.string(),
+  dimensions: s.number(),
+  embedding: s.array(s.number()),
+  embedding_checksum: s.string(),
+  model: s.string(),
+  model_version: s.string(),
+  prompt_template_version: s.string(),
+  retrieval_policy: s.string(),
+  sources: s.array(aiSource),
+})
+
+const changefeed = s.object({
+  data: s.array(
+    s.object({
+      slug: nullableString,
+      updated_at: nullableString,
+      created_at: nullableString,
+      published: s.boolean(),
+      operation: s.literal("upsert", "unpublished"),
+      checksum: s.string(),
+      url: nullableString,
+    })
+  ),
+  meta: s.object({
+    count: s.number(),
+    limit: s.number(),
+    since: s.string(),
+    next_since: nullableString,
+    has_more: s.boolean(),
+    dataset_hash: s.string(),
+    last_updated: nullableString,
+  }),
+})
+
+/**
+ * Runtime schemas for the JSON payloads validated by `InheritageClient`.
+ */
+export const responseSchemas = {
+  heritage,
+  heritageList,
+  heritageSearch,
+  geoFeature,
+  geoFeatureCollection,
+  mediaResponse,
+  mediaSearch,
+  aiContext,
+  aiEmbedding,
+  changefeed,
+}
@@ -0,0 +1,417 @@
+/**
+ * SPARQL Helpers for Inheritage SDK
+ *
+ * SELECT query builder with CIDOC-CRM and Getty AAT prefixes, typed
+ * result rows and LIMIT/OFFSET pagination over executeSparqlQuery
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * const query = sparqlSelect('site', 'name', 'begin')
+ *   .where('?site', 'a', 'crm:E22_Human-Made_Object')
+ *   .where('?site', 'crm:P2_has_type', 'aat:300007466')
+ *   .where('?site', 'rdfs:label', '?name')
+ *   .optional((group) => group.where('?site', 'crm:P108i_was_produced_by/crm:P4_has_time-span/crm:P82a_begin_of_the_begin', '?begin'))
+ *   .filterLang('?name', 'en')
+ *   .orderBy('?name')
+ *
+ * for await (const row of paginateSparql(client, query, { maxItems: 500 })) {
+ *   console.log(row.name, row.begin)
+ * }
+ * ```
+ */
+
+import { ValidationError } from "./errors"
+import { DEFAULT_PAGE_SIZE, Paginator, type PaginateOptions } from "./pagination"
+import { RDF_PREFIXES } from "./rdf"
+import type { InheritageClient } from "./client"
+import type { ApiRequestOptions, SparqlBinding, SparqlResponse } from "./types"
+
+/** Prefixes declared automatically when a query uses them. */
+export const SPARQL_PREFIXES: Readonly<Record<string, string>> = {
+  ...RDF_PREFIXES,
+  aat: "http://vocab.getty.edu/aat/",
+  gvp: "http://vocab.getty.edu/ontology#",
+  wd: "http://www.wikidata.org/entity/",
+}
+
+/**
+ * A term in a triple pattern: `?variable`, `prefix:local`, `<iri>`, an `http(s)` URL,
+ * `_:blank`, `a`, a literal from `sparqlLiteral`, or a number/boolean.
+ */
+export type SparqlTermInput = string | number | boolean
+
+export type SparqlOrder = "asc" | "desc"
+
+/** A language-tagged literal. */
+export interface SparqlText {
+  value: string
+  language: string
+}
+
+/**
+ * A coerced binding: IRIs and plain strings as strings, blank nodes as `_:id`, numeric
+ * types and `xsd:gYear` as numbers, `xsd:boolean` as booleans, `xsd:date`/`xsd:dateTime` as
+ * `Date` and language-tagged literals as `SparqlText`.
+ */
+export type SparqlValue = string | number | boolean | Date | SparqlText
+
+/** A variable name without its `?` or `$` sigil. */
+export type SparqlVariableName<V extends string> = V extends `?${infer Name}` | `$${infer Name}` ? Name : V
+
+/** One solution; variables left unbound (e.g. by OPTIONAL) are absent. */
+export type SparqlRow<V extends string = string> = { [K in V]?: SparqlValue }
+
+type SparqlClient = Pick<InheritageClient, "executeSparqlQuery">
+
+const XSD = RDF_PREFIXES.xsd
+const VARIABLE = /^[?$]([A-Za-z_][A-Za-z0-9_]*)$/
+const PREFIXED_NAME = /^([A-Za-z][A-Za-z0-9_.-]*)?:([A-Za-z0-9_]([A-Za-z0-9_.:-]*[A-Za-z0-9_:-])?)?$/
+const IRI_INVALID = /[\u0000- <>"{}|^`\\]/
+const LANGUAGE_TAG = /^[A-Za-z]+(-[A-Za-z0-9]+)*$/
+const PREFIX_USE = /(?<![\w<?$:.-])([A-Za-z][A-Za-z0-9_.-]*):/g
+const INTEGER_TYPES = new Set(
+  [
+    "integer",
+    "int",
+    "long",
+    "short",
+    "byte",
+    "nonNegativeInteger",
+    "positiveInteger",
+    "negativeInteger",
+    "nonPositiveInteger",
+    "unsignedLong",
+    "unsignedInt",
+    "unsignedShort",
+    "unsignedByte",
+  ].map((name) => `${XSD}${name}`)
+)
+const INTEGER_LEXICAL = /^[+-]?\d+$/
+const DECIMAL_LEXICAL = /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)$/
+const DOUBLE_LEXICAL = /^(?:[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?|[+-]?INF|NaN)$/
+const GYEAR_LEXICAL = /^(-?\d{4,})(?:Z|[+-]\d{2}:\d{2})?$/
+const DATE_LEXICAL = /^(\d{4})-(\d{2})-(\d{2})(Z|[+-]\d{2}:\d{2})?$/
+const DATE_TIME_LEXICAL = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/
+
+function invalid(message: string, field?: string): never {
+  throw new ValidationError({ message, field })
+}
+
+function escapeString(value: string): string {
+  return value.replace(/[\\"\n\r\t]/g, (char) => ({ "\\": "\\\\", '"': '\\"', "\n": "\\n", "\r": "\\r", "\t": "\\t" })[char]!)
+}
+
+/**
+ * An IRI reference, `<iri>`.
+ */
+export function sparqlIri(iri: string): string {
+  if (!iri || IRI_INVALID.test(iri)) invalid(`"${iri}" is not a valid IRI`, "iri")
+  return `<${iri}>`
+}
+
+/**
+ * A literal. `languageOrDatatype` is a language tag (`en`, `kn-Latn`) or a datatype
+ * (`xsd:date`, an IRI); numbers and booleans are written in their native syntax.
+ */
+export function sparqlLiteral(value: string | number | boolean, languageOrDatatype?: string): string {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) invalid(`${value} cannot be written as a SPARQL literal`)
+    if (!languageOrDatatype) return String(value)
+  }
+  if (typeof value === "boolean" && !languageOrDatatype) return String(value)
+  const text = `"${escapeString(String(value))}"`
+  if (!languageOrDatatype) return text
+  if (LANGUAGE_TAG.test(languageOrDatatype)) return `${text}@${languageOrDatatype}`
+  return `${text}^^${formatTerm(languageOrDatatype, "datatype")}`
+}
+
+function formatTerm(term: SparqlTermInput, field: string): string {
+  if (typeof term !== "string") return sparqlLiteral(term)
+  const value = term.trim()
+  if (value === "a" || VARIABLE.test(value)) return value
+  if (value.startsWith("<") && value.endsWith(">")) return sparqlIri(value.slice(1, -1))
+  if (/^_:[A-Za-z0-9_]+$/.test(value)) return value
+  if (/^"(?:[^"\\\n\r]|\\.)*"(?:@[A-Za-z]+(?:-[A-Za-z0-9]+)*|\^\^\S+)?$/.test(value)) return value
+  if (/^https?:\/\//i.test(value)) return sparqlIri(value)
+  if (PREFIXED_NAME.test(value)) return value
+  return invalid(`"${term}" is not a variable, IRI or prefixed name; wrap literals with sparqlLiteral()`, field)
+}
+
+function formatPredicate(predicate: string): string {
+  // Property paths (`crm:P108i_was_produced_by/crm:P4_has_time-span`, `^crm:P46`, `rdfs:subClassOf*`).
+  const steps = predicate.trim().split("/")
+  if (steps.length === 1 && !/^\^|[*+?]$/.test(steps[0])) return formatTerm(predicate, "predicate")
+  return steps
+    .map((step) => {
+      const [, inverse, name, modifier] = /^(\^?)(.+?)([*+?]?)$/.exec(step.trim()) ?? []
+      if (!name || VARIABLE.test(name)) invalid(`"${predicate}" is not a valid property path`, "predicate")
+      return `${inverse}${formatTerm(name, "predicate")}${modifier}`
+    })
+    .join("/")
+}
+
+function variableName(variable: string): string {
+  const match = VARIABLE.exec(variable.startsWith("?") || variable.startsWith("$") ? variable : `?${variable}`)
+  return match ? match[1] : invalid(`"${variable}" is not a valid SPARQL variable name`, "variable")
+}
+
+/**
+ * A group graph pattern: triple patterns, OPTIONAL blocks, UNIONs and FILTERs.
+ */
+export class SparqlGroup {
+  protected readonly patterns: string[] = []
+
+  /** Add a triple pattern. Subjects and objects may be variables, IRIs or literals. */
+  where(subject: SparqlTermInput, predicate: string, object: SparqlTermInput): this {
+    this.patterns.push(`${formatTerm(subject, "subject")} ${formatPredicate(predicate)} ${formatTerm(object, "object")} .`)
+    return this
+  }
+
+  /** Add `OPTIONAL { … }`; bindings from it may be missing in results. */
+  optional(build: (group: SparqlGroup) => void): this {
+    this.patterns.push(`OPTIONAL ${this.nested(build)}`)
+    return this
+  }
+
+  /** Add `{ … } UNION { … }` for two or more alternatives. */
+  union(...builds: Array<(group: SparqlGroup) => void>): this {
+    if (builds.length < 2) invalid("union needs at least two alternatives")
+    this.patterns.push(builds.map((build) => this.nested(build)).join(" UNION "))
+    return this
+  }
+
+  /**
+   * Add `FILTER(expression)`. The expression is written as given: build values inside it with
+   * `sparqlLiteral` / `sparqlIri`.
+   */
+  filter(expression: string): this {
+    const value = expression.trim()
+    if (!value) invalid("filter expression is empty", "filter")
+    this.patterns.push(`FILTER(${value})`)
+    return this
+  }
+
+  /** Keep only literals of `variable` whose language matches `language` (`en` also matches `en-IN`). */
+  filterLang(variable: string, language: string): this {
+    return this.filter(`langMatches(lang(?${variableName(variable)}), ${sparqlLiteral(language)})`)
+  }
+
+  /** The group's patterns, one per line. */
+  protected body(indent: string): string {
+    return this.patterns.map((pattern) => `${indent}${pattern}`).join("\n")
+  }
+
+  private nested(build: (group: SparqlGroup) => void): string {
+    const group = new SparqlGroup()
+    build(group)
+    if (group.patterns.length === 0) invalid("pattern group is empty")
+    return `{ ${group.patterns.join(" ")} }`
+  }
+}
+
+/**
+ * A SELECT query whose projected variables `V` type the rows returned by `querySparql`
+ * and `paginateSparql`.
+ */
+export class SparqlSelect<V extends string = string> extends SparqlGroup {
+  readonly variables: readonly V[]
+  private readonly extraPrefixes: Record<string, string> = {}
+  private readonly ordering: string[] = []
+  private isDistinct = false
+  private limitValue?: number
+  private offsetValue?: number
+
+  constructor(variables: readonly V[]) {
+    super()
+    this.variables = variables.map((variable) => variableName(variable) as V)
+  }
+
+  /** Declare a prefix beyond `SPARQL_PREFIXES`, or override one. */
+  prefix(name: string, iri: string): this {
+    if (!/^[A-Za-z][A-Za-z0-9_.-]*$/.test(name)) invalid(`"${name}" is not a valid prefix name`, "prefix")
+    sparqlIri(iri)
+    this.extraPrefixes[name] = iri
+    return this
+  }
+
+  distinct(distinct = true): this {
+    this.isDistinct = distinct
+    return this
+  }
+
+  orderBy(variable: string, order: SparqlOrder = "asc"): this {
+    this.ordering.push(`${order.toUpperCase()}(?${variableName(variable)})`)
+    return this
+  }
+
+  limit(limit: number | undefined): this {
+    this.limitValue = checkCount(limit, "limit")
+    return this
+  }
+
+  offset(offset: number | undefined): this {
+    this.offsetValue = checkCount(offset, "offset")
+    return this
+  }
+
+  /** The LIMIT and OFFSET set on the query. */
+  get page(): { limit?: number; offset?: number } {
+    return { limit: this.limitValue, offset: this.offsetValue }
+  }
+
+  /**
+   * Render SPARQL 1.1, declaring every known prefix the query uses. `page` overrides
+   * LIMIT/OFFSET without changing the builder.
+   */
+  build(page: { limit?: number; offset?: number } = {}): string {
+    if (this.patterns.length === 0) invalid("query has no WHERE patterns")
+    const prefixes = { ...SPARQL_PREFIXES, ...this.extraPrefixes }
+    const projection = this.variables.length > 0 ? this.variables.map((variable) => `?${variable}`).join(" ") : "*"
+    const body = this.body("  ")
+    const lines = [`SELECT${this.isDistinct ? " DISTINCT" : ""} ${projection}`, "WHERE {", body, "}"]
+    if (this.ordering.length > 0) lines.push(`ORDER BY ${this.ordering.join(" ")}`)
+    const limit = page.limit !== undefined ? checkCount(page.limit, "limit") : this.limitValue
+    const offset = page.offset !== undefined ? checkCount(page.offset, "offset") : this.offsetValue
+    if (limit !== undefined) lines.push(`LIMIT ${limit}`)
+    if (offset) lines.push(`OFFSET ${offset}`)
+
+    // Prefixes used outside IRIs and string literals.
+    const used = new Set([...body.replace(/<[^>]*>|"(?:[^"\\]|\\.)*"/g, " ").matchAll(PREFIX_USE)].map((match) => match[1]))
+    const declarations = [...used].sort().map((name) => {
+      if (!(name in prefixes)) invalid(`unknown prefix "${name}:"; declare it with prefix()`, "prefix")
+      return `PREFIX ${name}: <${prefixes[name]}>`
+    })
+    return [...declarations, ...(declarations.length > 0 ? [""] : []), ...lines].join("\n")
+  }
+
+  toString(): string {
+    return this.build()
+  }
+}
+
+function checkCount(value: number | undefined, field: "limit" | "offset"): number | undefined {
+  if (value === undefined) return undefined
+  if (!Number.isInteger(value) || value < 0) invalid(`${field} must be a non-negative integer`, field)
+  return value
+}
+
+/**
+ * Start a SELECT query. Pass variable names (with or without `?`); none selects `*`.
+ */
+export function sparqlSelect<V extends string>(...variables: V[]): SparqlSelect<SparqlVariableName<V>> {
+  return new SparqlSelect(variables.map(variableName) as SparqlVariableName<V>[])
+}
+
+/**
+ * Convert one binding to a native value (see `SparqlValue`). Values whose lexical form is
+ * not valid for their datatype, integers beyond 2^53 and years outside 0000–9999 in dates
+ * are returned as the lexical string. Dates and date-times without a timezone are read as UTC.
+ */
+export function sparqlTermValue(binding: SparqlBinding): SparqlValue {
+  if (binding.type === "bnode") return `_:${binding.value}`
+  if (binding.type !== "literal" && binding.type !== "typed-literal") return binding.value
+  const language = binding["xml:lang"]
+  if (language) return { value: binding.value, language }
+  const datatype = binding.datatype
+  if (!datatype) return binding.value
+  const lexical = binding.value.trim()
+  return coerceLiteral(lexical, datatype) ?? binding.value
+}
+
+/**
+ * The native value of a lexical form under `datatype`, or `undefined` when the form is not
+ * valid XSD or would lose precision (integers beyond `Number.MAX_SAFE_INTEGER`).
+ */
+function coerceLiteral(lexical: string, datatype: string): SparqlValue | undefined {
+  if (INTEGER_TYPES.has(datatype)) {
+    if (!INTEGER_LEXICAL.test(lexical)) return undefined
+    const number = Number(lexical)
+    return Number.isSafeInteger(number) ? number : undefined
+  }
+  if (datatype === `${XSD}decimal`) return DECIMAL_LEXICAL.test(lexical) ? Number(lexical) : undefined
+  if (datatype === `${XSD}double` || datatype === `${XSD}float`) {
+    if (!DOUBLE_LEXICAL.test(lexical)) return undefined
+    return lexical.endsWith("INF") ? (lexical.startsWith("-") ? -Infinity : Infinity) : Number(lexical)
+  }
+  if (datatype === `${XSD}gYear`) {
+    const year = GYEAR_LEXICAL.exec(lexical)
+    const number = year ? Number(year[1]) : NaN
+    return Number.isSafeInteger(number) ? number : undefined
+  }
+  if (datatype === `${XSD}boolean`) {
+    if (lexical === "true" || lexical === "1") return true
+    if (lexical === "false" || lexical === "0") return false
+    return undefined
+  }
+  if (datatype === `${XSD}date`) {
+    const match = DATE_LEXICAL.exec(lexical)
+    return match ? toDate(match[1], match[2], match[3], "T00:00:00", match[4]) : undefined
+  }
+  if (datatype === `${XSD}dateTime` || datatype === `${XSD}dateTimeStamp`) {
+    const match = DATE_TIME_LEXICAL.exec(lexical)
+    if (!match || (datatype === `${XSD}dateTimeStamp` && !match[8])) return undefined
+    const [, year, month, day, hours, minutes, seconds, fraction = ""] = match
+    if (Number(hours) > 23 || Number(minutes) > 59 || Number(seconds) > 59) return undefined
+    return toDate(year, month, day, `T${hours}:${minutes}:${seconds}${fraction.slice(0, 4)}`, match[8])
+  }
+  return undefined
+}
+
+/** A `Date` for a four-digit-year calendar date; values without a timezone are read as UTC. */
+function toDate(year: string, month: string, day: string, time: string, timezone = "Z"): Date | undefined {
+  const calendar = new Date(0)
+  calendar.setUTCFullYear(Number(year), Number(month) - 1, Number(day))
+  if (calendar.getUTCMonth() !== Number(month) - 1 || calendar.getUTCDate() !== Number(day)) return undefined
+  const date = new Date(`${year}-${month}-${day}${time}${timezone}`)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Map a SPARQL JSON response to rows, coercing each binding with `sparqlTermValue`.
+ */
+export function mapSparqlResults<V extends string = string>(response: SparqlResponse): SparqlRow<V>[] {
+  return (response.results?.bindings ?? []).map((bindings) => {
+    const row: Record<string, SparqlValue> = {}
+    for (const [name, binding] of Object.entries(bindings)) {
+      if (binding) row[name] = sparqlTermValue(binding)
+    }
+    return row as SparqlRow<V>
+  })
+}
+
+/**
+ * Run a query and return its typed rows.
+ */
+export async function querySparql<V extends string>(
+  client: SparqlClient,
+  query: SparqlSelect<V>,
+  options: ApiRequestOptions = {}
+): Promise<SparqlRow<V>[]> {
+  const response = await client.executeSparqlQuery({ query: query.build() }, options)
+  return mapSparqlResults<V>(response.data)
+}
+
+/**
+ * Page through a query with LIMIT/OFFSET. The query's own LIMIT is the page size
+ * (default 100) and its OFFSET the starting point. Add an `orderBy` so pages are stable.
+ */
+export function paginateSparql<V extends string>(
+  client: SparqlClient,
+  query: SparqlSelect<V>,
+  options: PaginateOptions = {}
+): Paginator<SparqlRow<V>> {
+  const { limit = DEFAULT_PAGE_SIZE, offset = 0 } = query.page
+  return new Paginator<SparqlRow<V>>(
+    async (pageOffset, pageLimit, requestOptions) => {
+      const response = await client.executeSparqlQuery({ query: query.build({ limit: pageLimit, offset: pageOffset }) }, requestOptions)
+      return { items: mapSparqlResults<V>(response.data), response }
+    },
+    { limit: Math.max(1, limit), offset },
+    options
+  )
+}
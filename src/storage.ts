@@ -0,0 +1,479 @@
+/**
+ * Heritage Storage for Inheritage SDK
+ *
+ * Pluggable stores for mirrored records (heritage, geo, media, vectors)
+ * and the changefeed cursor: in-memory, JSON/NDJSON file shards, SQLite
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * const store = new FileSystemHeritageStore({ directory: './data/heritage' })
+ * const mirror = new HeritageMirror({ client, store })
+ * await mirror.sync()
+ * const temples = await store.find('heritage', { state: 'Karnataka' })
+ * ```
+ */
+
+import { fnv1a32 } from "./checksum"
+import { parseNdjsonStream } from "./ndjson"
+import type { AIVectorRecord, GeoFeature, Heritage, MediaResponse } from "./types"
+
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * Sync bookkeeping persisted next to the records.
+ */
+export interface MirrorState {
+  /** `next_since` of the last applied changefeed page. */
+  cursor: string | null
+  /** `dataset_hash` reported with that page. */
+  datasetHash: string | null
+  /** ISO timestamp of the last completed sync. */
+  syncedAt: string | null
+}
+
+export interface StoredRecordTypes {
+  heritage: Heritage
+  geo: GeoFeature
+  media: MediaResponse
+  vectors: AIVectorRecord
+}
+
+export type RecordKind = keyof StoredRecordTypes
+
+export const RECORD_KINDS: readonly RecordKind[] = ["heritage", "geo", "media", "vectors"]
+
+/**
+ * Exact, case-insensitive match on the indexed columns. Omitted keys match everything.
+ */
+export interface RecordFilter {
+  state?: string
+  dynasty?: string
+  category?: string
+}
+
+/**
+ * A record plus the columns stores index it by.
+ */
+export interface StoredRecord<K extends RecordKind = RecordKind> {
+  slug: string
+  state: string | null
+  dynasty: string | null
+  category: string | null
+  record: StoredRecordTypes[K]
+}
+
+type StoredRecordIndex = Omit<StoredRecord, "record">
+
+/**
+ * Derive the index columns for a record. Media bundles carry no slug of their own,
+ * so pass `{ slug }` for them (falls back to `metadata.slug`, then `heritage_id`).
+ */
+export function toStoredRecord<K extends RecordKind>(
+  kind: K,
+  record: StoredRecordTypes[K],
+  overrides: Partial<StoredRecordIndex> = {}
+): StoredRecord<K> {
+  let index: StoredRecordIndex
+  if (kind === "heritage") {
+    const heritage = record as Heritage
+    index = { slug: heritage.slug, state: heritage.state, dynasty: heritage.dynasty, category: heritage.category }
+  } else if (kind === "geo") {
+    const { properties } = record as GeoFeature
+    index = { slug: properties.slug ?? "", state: properties.state, dynasty: null, category: properties.category }
+  } else if (kind === "media") {
+    const media = record as MediaResponse
+    const slug = typeof media.metadata?.["slug"] === "string" ? (media.metadata["slug"] as string) : media.heritage_id
+    index = { slug, state: null, dynasty: null, category: null }
+  } else {
+    index = { slug: (record as AIVectorRecord).slug, state: null, dynasty: null, category: null }
+  }
+  const merged = { ...index, ...overrides, record }
+  if (!merged.slug) {
+    throw new Error(`Cannot store ${kind} record without a slug`)
+  }
+  return merged
+}
+
+function matchesFilter(entry: StoredRecordIndex, filter?: RecordFilter): boolean {
+  if (!filter) return true
+  const same = (value: string | null, expected?: string) =>
+    expected === undefined || (value !== null && value.toLowerCase() === expected.toLowerCase())
+  return same(entry.state, filter.state) && same(entry.dynasty, filter.dynasty) && same(entry.category, filter.category)
+}
+
+export interface HeritageStore {
+  get<K extends RecordKind>(kind: K, slug: string): MaybePromise<StoredRecordTypes[K] | undefined>
+  /** Insert or replace records, keyed by `slug`. */
+  put<K extends RecordKind>(kind: K, entries: StoredRecord<K>[]): MaybePromise<void>
+  delete(kind: RecordKind, slugs: string[]): MaybePromise<void>
+  /** Records matching the filter, in slug order. */
+  find<K extends RecordKind>(kind: K, filter?: RecordFilter): MaybePromise<StoredRecordTypes[K][]>
+  count(kind: RecordKind): MaybePromise<number>
+  getState(): MaybePromise<MirrorState | undefined>
+  setState(state: MirrorState): MaybePromise<void>
+  /** Remove every record of every kind and the sync state. */
+  clear(): MaybePromise<void>
+}
+
+/**
+ * Process-local store. Suitable for tests and short-lived workers.
+ */
+export class MemoryHeritageStore implements HeritageStore {
+  private readonly collections = new Map<RecordKind, Map<string, StoredRecord>>()
+  private state?: MirrorState
+
+  private collection(kind: RecordKind): Map<string, StoredRecord> {
+    let collection = this.collections.get(kind)
+    if (!collection) {
+      collection = new Map()
+      this.collections.set(kind, collection)
+    }
+    return collection
+  }
+
+  get<K extends RecordKind>(kind: K, slug: string): StoredRecordTypes[K] | undefined {
+    return this.collection(kind).get(slug)?.record as StoredRecordTypes[K] | undefined
+  }
+
+  put<K extends RecordKind>(kind: K, entries: StoredRecord<K>[]): void {
+    const collection = this.collection(kind)
+    for (const entry of entries) {
+      collection.set(entry.slug, entry)
+    }
+  }
+
+  delete(kind: RecordKind, slugs: string[]): void {
+    const collection = this.collection(kind)
+    for (const slug of slugs) {
+      collection.delete(slug)
+    }
+  }
+
+  find<K extends RecordKind>(kind: K, filter?: RecordFilter): StoredRecordTypes[K][] {
+    return [...this.collection(kind).values()]
+      .filter((entry) => matchesFilter(entry, filter))
+      .sort((a, b) => (a.slug < b.slug ? -1 : a.slug > b.slug ? 1 : 0))
+      .map((entry) => entry.record as StoredRecordTypes[K])
+  }
+
+  count(kind: RecordKind): number {
+    return this.collection(kind).size
+  }
+
+  getState(): MirrorState | undefined {
+    return this.state
+  }
+
+  setState(state: MirrorState): void {
+    this.state = { ...state }
+  }
+
+  clear(): void {
+    this.collections.clear()
+    this.state = undefined
+  }
+}
+
+export interface FileSystemHeritageStoreOptions {
+  /** Root directory; one sub-directory per record kind plus `state.json`. */
+  directory: string
+  /** Shard file format. Defaults to `"ndjson"`. */
+  format?: "json" | "ndjson"
+  /** Number of shard files per record kind. Defaults to 16. */
+  shards?: number
+}
+
+/**
+ * Node.js filesystem store. Records are spread over hashed JSON or NDJSON shard files,
+ * loaded into memory per kind on first access; only shards touched by a write are rewritten.
+ * Assumes a single writer process.
+ */
+export class FileSystemHeritageStore implements HeritageStore {
+  private readonly directory: string
+  private readonly format: "json" | "ndjson"
+  private readonly shards: number
+  private readonly loaded = new Map<RecordKind, Promise<Map<string, StoredRecord>>>()
+
+  constructor(options: FileSystemHeritageStoreOptions) {
+    if (!options?.directory) {
+      throw new Error("directory is required")
+    }
+    this.directory = options.directory
+    this.format = options.format ?? "ndjson"
+    this.shards = Math.max(1, Math.floor(options.shards ?? 16))
+  }
+
+  private shardOf(slug: string): number {
+    return fnv1a32(slug) % this.shards
+  }
+
+  private async shardPath(kind: RecordKind, shard: number): Promise<string> {
+    const path = await import("node:path")
+    return path.join(this.directory, kind, `${String(shard).padStart(3, "0")}.${this.format}`)
+  }
+
+  private collection(kind: RecordKind): Promise<Map<string, StoredRecord>> {
+    let pending = this.loaded.get(kind)
+    if (!pending) {
+      pending = this.load(kind)
+      this.loaded.set(kind, pending)
+    }
+    return pending
+  }
+
+  private async load(kind: RecordKind): Promise<Map<string, StoredRecord>> {
+    const fs = await import("node:fs/promises")
+    const path = await import("node:path")
+    const collection = new Map<string, StoredRecord>()
+    let files: string[]
+    try {
+      files = await fs.readdir(path.join(this.directory, kind))
+    } catch {
+      return collection
+    }
+
+    for (const file of files.filter((name) => name.endsWith(".json") || name.endsWith(".ndjson")).sort()) {
+      const raw = await fs.readFile(path.join(this.directory, kind, file), "utf8")
+      if (file.endsWith(".ndjson")) {
+        for await (const entry of parseNdjsonStream<StoredRecord>(raw)) {
+          collection.set(entry.slug, entry)
+        }
+      } else {
+        for (const entry of JSON.parse(raw) as StoredRecord[]) {
+          collection.set(entry.slug, entry)
+        }
+      }
+    }
+    return collection
+  }
+
+  private async writeShards(kind: RecordKind, collection: Map<string, StoredRecord>, shards: Set<number>): Promise<void> {
+    const fs = await import("node:fs/promises")
+    const path = await import("node:path")
+    await fs.mkdir(path.join(this.directory, kind), { recursive: true })
+
+    const grouped = new Map<number, StoredRecord[]>()
+    shards.forEach((shard) => grouped.set(shard, []))
+    collection.forEach((entry, slug) => {
+      grouped.get(this.shardOf(slug))?.push(entry)
+    })
+
+    for (const [shard, entries] of grouped) {
+      const file = await this.shardPath(kind, shard)
+      if (entries.length === 0) {
+        await fs.rm(file, { force: true })
+        continue
+      }
+      const body =
+        this.format === "ndjson" ? entries.map((entry) => JSON.stringify(entry)).join("\n") + "\n" : JSON.stringify(entries)
+      await fs.writeFile(`${file}.tmp`, body, "utf8")
+      await fs.rename(`${file}.tmp`, file)
+    }
+  }
+
+  async get<K extends RecordKind>(kind: K, slug: string): Promise<StoredRecordTypes[K] | undefined> {
+    return (await this.collection(kind)).get(slug)?.record as StoredRecordTypes[K] | undefined
+  }
+
+  async put<K extends RecordKind>(kind: K, entries: StoredRecord<K>[]): Promise<void> {
+    if (entries.length === 0) return
+    const collection = await this.collection(kind)
+    const touched = new Set<number>()
+    for (const entry of entries) {
+      collection.set(entry.slug, entry)
+      touched.add(this.shardOf(entry.slug))
+    }
+    await this.writeShards(kind, collection, touched)
+  }
+
+  async delete(kind: RecordKind, slugs: string[]): Promise<void> {
+    const collection = await this.collection(kind)
+    const touched = new Set<number>()
+    for (const slug of slugs) {
+      if (collection.delete(slug)) touched.add(this.shardOf(slug))
+    }
+    if (touched.size > 0) {
+      await this.writeShards(kind, collection, touched)
+    }
+  }
+
+  async find<K extends RecordKind>(kind: K, filter?: RecordFilter): Promise<StoredRecordTypes[K][]> {
+    return [...(await this.collection(kind)).values()]
+      .filter((entry) => matchesFilter(entry, filter))
+      .sort((a, b) => (a.slug < b.slug ? -1 : a.slug > b.slug ? 1 : 0))
+      .map((entry) => entry.record as StoredRecordTypes[K])
+  }
+
+  async count(kind: RecordKind): Promise<number> {
+    return (await this.collection(kind)).size
+  }
+
+  async getState(): Promise<MirrorState | undefined> {
+    const fs = await import("node:fs/promises")
+    const path = await import("node:path")
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, "state.json"), "utf8")) as MirrorState
+    } catch {
+      return undefined
+    }
+  }
+
+  async setState(state: MirrorState): Promise<void> {
+    const fs = await import("node:fs/promises")
+    const path = await import("node:path")
+    await fs.mkdir(this.directory, { recursive: true })
+    const file = path.join(this.directory, "state.json")
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(state), "utf8")
+    await fs.rename(`${file}.tmp`, file)
+  }
+
+  async clear(): Promise<void> {
+    const fs = await import("node:fs/promises")
+    const path = await import("node:path")
+    this.loaded.clear()
+    for (const kind of RECORD_KINDS) {
+      await fs.rm(path.join(this.directory, kind), { recursive: true, force: true })
+    }
+    await fs.rm(path.join(this.directory, "state.json"), { force: true })
+  }
+}
+
+/**
+ * Minimal synchronous SQLite surface shared by `better-sqlite3` and `node:sqlite`'s `DatabaseSync`.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown
+  prepare(sql: string): SqliteStatement
+}
+
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown
+  get(...params: unknown[]): unknown
+  all(...params: unknown[]): unknown[]
+}
+
+export interface SqliteHeritageStoreOptions {
+  /** An open database handle; the SDK never loads a SQLite driver itself. */
+  database: SqliteDatabase
+  /** Prefix for the tables this store creates. Defaults to `"inheritage_"`. */
+  tablePrefix?: string
+}
+
+/**
+ * SQLite store for a caller-supplied database handle. Index columns are real columns,
+ * so filters run in SQL; records are kept as JSON text.
+ */
+export class SqliteHeritageStore implements HeritageStore {
+  private readonly db: SqliteDatabase
+  private readonly records: string
+  private readonly meta: string
+
+  constructor(options: SqliteHeritageStoreOptions) {
+    if (!options?.database) {
+      throw new Error("database is required")
+    }
+    const prefix = options.tablePrefix ?? "inheritage_"
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(prefix)) {
+      throw new Error("tablePrefix may only contain letters, digits and underscores")
+    }
+    this.db = options.database
+    this.records = `${prefix}records`
+    this.meta = `${prefix}state`
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.records} (
+        kind TEXT NOT NULL,
+        slug TEXT NOT NULL,
+        state TEXT COLLATE NOCASE,
+        dynasty TEXT COLLATE NOCASE,
+        category TEXT COLLATE NOCASE,
+        data TEXT NOT NULL,
+        PRIMARY KEY (kind, slug)
+      );
+      CREATE INDEX IF NOT EXISTS ${this.records}_state ON ${this.records} (kind, state);
+      CREATE INDEX IF NOT EXISTS ${this.records}_dynasty ON ${this.records} (kind, dynasty);
+      CREATE INDEX IF NOT EXISTS ${this.records}_category ON ${this.records} (kind, category);
+      CREATE TABLE IF NOT EXISTS ${this.meta} (key TEXT PRIMARY KEY, value TEXT NOT NULL);`
+    )
+  }
+
+  private transaction(run: () => void): void {
+    this.db.exec("BEGIN")
+    try {
+      run()
+      this.db.exec("COMMIT")
+    } catch (error) {
+      this.db.exec("ROLLBACK")
+      throw error
+    }
+  }
+
+  get<K extends RecordKind>(kind: K, slug: string): StoredRecordTypes[K] | undefined {
+    const row = this.db.prepare(`SELECT data FROM ${this.records} WHERE kind = ? AND slug = ?`).get(kind, slug) as
+      | { data: string }
+      | undefined
+    return row ? (JSON.parse(row.data) as StoredRecordTypes[K]) : undefined
+  }
+
+  put<K extends RecordKind>(kind: K, entries: StoredRecord<K>[]): void {
+    if (entries.length === 0) return
+    const statement = this.db.prepare(
+      `INSERT OR REPLACE INTO ${this.records} (kind, slug, state, dynasty, category, data) VALUES (?, ?, ?, ?, ?, ?)`
+    )
+    this.transaction(() => {
+      for (const entry of entries) {
+        statement.run(kind, entry.slug, entry.state, entry.dynasty, entry.category, JSON.stringify(entry.record))
+      }
+    })
+  }
+
+  delete(kind: RecordKind, slugs: string[]): void {
+    if (slugs.length === 0) return
+    const statement = this.db.prepare(`DELETE FROM ${this.records} WHERE kind = ? AND slug = ?`)
+    this.transaction(() => {
+      for (const slug of slugs) {
+        statement.run(kind, slug)
+      }
+    })
+  }
+
+  find<K extends RecordKind>(kind: K, filter: RecordFilter = {}): StoredRecordTypes[K][] {
+    const clauses = ["kind = ?"]
+    const params: unknown[] = [kind]
+    for (const column of ["state", "dynasty", "category"] as const) {
+      if (filter[column] !== undefined) {
+        clauses.push(`${column} = ?`)
+        params.push(filter[column])
+      }
+    }
+    const rows = this.db
+      .prepare(`SELECT data FROM ${this.records} WHERE ${clauses.join(" AND ")} ORDER BY slug`)
+      .all(...params) as Array<{ data: string }>
+    return rows.map((row) => JSON.parse(row.data) as StoredRecordTypes[K])
+  }
+
+  count(kind: RecordKind): number {
+    const row = this.db.prepare(`SELECT COUNT(*) AS total FROM ${this.records} WHERE kind = ?`).get(kind) as { total: number }
+    return Number(row.total)
+  }
+
+  getState(): MirrorState | undefined {
+    const row = this.db.prepare(`SELECT value FROM ${this.meta} WHERE key = 'mirror'`).get() as { value: string } | undefined
+    return row ? (JSON.parse(row.value) as MirrorState) : undefined
+  }
+
+  setState(state: MirrorState): void {
+    this.db.prepare(`INSERT OR REPLACE INTO ${this.meta} (key, value) VALUES ('mirror', ?)`).run(JSON.stringify(state))
+  }
+
+  clear(): void {
+    this.transaction(() => {
+      this.db.exec(`DELETE FROM ${this.records}`)
+      this.db.exec(`DELETE FROM ${this.meta}`)
+    })
+  }
+}
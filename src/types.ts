@@ -10,6 +10,9 @@
  * @copyright Team Inheritage
  */
 
+import type { RetryOptions } from "./retry"
+import type { ValidationMode } from "./schema"
+
 export type JsonValue =
   | string
   | number
@@ -31,16 +34,26 @@ export interface ApiResponse<T> {
   traceId?: string
   rateLimit?: RateLimitInfo
   notModified: boolean
+  /** True when `data` was served from the client cache. */
+  cached?: boolean
 }
 
 export interface ApiRequestOptions {
   query?: Record<string, string | number | boolean | null | undefined>
   headers?: HeadersInit
   signal?: AbortSignal
+  /** Client cache mode for this call, e.g. `"no-store"` to bypass it. */
   cache?: RequestCache
+  /** Cache freshness override for this call, in seconds. */
   revalidate?: number
   ifNoneMatch?: string
   ifModifiedSince?: string
+  /** Abort this call with `InheritageTimeoutError` after this many milliseconds; `0` disables. */
+  timeoutMs?: number
+  /** Per-call override of the client's runtime response validation mode. */
+  validate?: ValidationMode
+  /** Per-call retry override; `false` disables retries configured on the client. */
+  retry?: RetryOptions | boolean
 }
 
 export interface HeritageReference {
@@ -178,8 +191,18 @@ export interface Heritage {
   same_as: string[]
 }
 
-export interface HeritageListResponse {
-  data: Heritage[]
+/**
+ * Top-level `Heritage` keys accepted by the `fields` projection parameter.
+ */
+export type HeritageField = keyof Heritage
+
+/**
+ * `Heritage` narrowed to the keys requested via `fields`; the full record when none are given.
+ */
+export type HeritageProjection<F extends HeritageField = HeritageField> = Pick<Heritage, F>
+
+export interface HeritageListResponse<T = Heritage> {
+  data: T[]
   meta: {
     total: number
     limit: number
@@ -188,6 +211,14 @@ export interface HeritageListResponse {
   }
 }
 
+export interface HeritageSearchResponse<T = Heritage> {
+  data: T[]
+  meta: {
+    total: number
+    limit: number
+  }
+}
+
 export interface HeritageFacetOptions {
   states: string[]
   countries: string[]
@@ -475,7 +506,7 @@ export interface StatsResponse {
   generated_at: string
 }
 
-export interface HeritageListParams {
+export interface HeritageListParams<F extends HeritageField = HeritageField> {
   state?: string
   dynasty?: string
   style?: string
@@ -485,16 +516,16 @@ export interface HeritageListParams {
   sort?: "name" | "-name" | "period" | "-period" | "state" | "-state" | "completion_score" | "-completion_score" | "view_count" | "-view_count" | "country" | "-country"
   limit?: number
   offset?: number
-  fields?: string[]
+  fields?: readonly F[]
 }
 
-export interface HeritageSearchParams {
+export interface HeritageSearchParams<F extends HeritageField = HeritageField> {
   q: string
   state?: string
   style?: string
   country?: string
   limit?: number
-  fields?: string[]
+  fields?: readonly F[]
 }
 
 export interface GeoHeritageParams {
@@ -575,6 +606,18 @@ export interface AIContextDumpParams {
   includeEmbedding?: boolean
 }
 
+/**
+ * CIDOC-CRM JSON-LD document as returned by `/cidoc/:slug`: a single node or an `@graph`.
+ * Navigate it with `CidocGraph`.
+ */
+export interface CidocJsonLd {
+  "@context"?: JsonValue
+  "@id"?: string
+  "@type"?: string | string[]
+  "@graph"?: JsonValue[]
+  [key: string]: JsonValue | undefined
+}
+
 export interface HeritageLIDOParams {
   download?: boolean
 }
@@ -659,6 +702,17 @@ export interface SparqlQueryRequest {
   query: string
 }
 
+/**
+ * SPARQL 1.1 JSON result term
+ */
+export interface SparqlBinding {
+  /** `uri`, `literal` or `bnode` (`typed-literal` from older endpoints). */
+  type: string
+  value: string
+  datatype?: string
+  "xml:lang"?: string
+}
+
 /**
  * SPARQL Query Response
  */
@@ -667,7 +721,7 @@ export interface SparqlResponse {
     vars: string[]
   }
   results: {
-    bindings: Array<Record<string, { type: string; value: string }>>
+    bindings: Array<Record<string, SparqlBinding>>
   }
 }
 
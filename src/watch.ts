@@ -0,0 +1,283 @@
+/**
+ * Changefeed Watcher for Inheritage SDK
+ *
+ * Polls `/changes`, follows `next_since` / `has_more` and turns entries
+ * into typed events or webhook POSTs, backing off while the feed is idle
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * const watcher = client.watchChanges({
+ *   intervalMs: 60_000,
+ *   cursorStore: new FileCursorStore('.inheritage/cursor.json'),
+ *   webhook: { url: 'http://localhost:3000/hooks/inheritage' },
+ * })
+ * watcher.on('upsert', ({ slug }) => console.log('updated', slug))
+ * ```
+ */
+
+import type { InheritageClient } from "./client"
+import { WebhookDeliveryError } from "./errors"
+import { TypedEventEmitter } from "./events"
+import { sleep } from "./retry"
+import type { ChangefeedEntry } from "./types"
+
+export interface ChangeCursor {
+  since: string
+  datasetHash: string | null
+}
+
+/**
+ * Persists the watcher position so a restarted process resumes where it stopped.
+ */
+export interface ChangeCursorStore {
+  load(): ChangeCursor | null | undefined | Promise<ChangeCursor | null | undefined>
+  save(cursor: ChangeCursor): void | Promise<void>
+}
+
+export class MemoryCursorStore implements ChangeCursorStore {
+  private cursor: ChangeCursor | null = null
+
+  load(): ChangeCursor | null {
+    return this.cursor
+  }
+
+  save(cursor: ChangeCursor): void {
+    this.cursor = { ...cursor }
+  }
+}
+
+/**
+ * JSON file cursor store (Node.js only). Writes go through a temp file and rename.
+ */
+export class FileCursorStore implements ChangeCursorStore {
+  constructor(private readonly file: string) {}
+
+  async load(): Promise<ChangeCursor | null> {
+    const fs = await import("node:fs/promises")
+    try {
+      return JSON.parse(await fs.readFile(this.file, "utf8")) as ChangeCursor
+    } catch {
+      return null
+    }
+  }
+
+  async save(cursor: ChangeCursor): Promise<void> {
+    const fs = await import("node:fs/promises")
+    const path = await import("node:path")
+    await fs.mkdir(path.dirname(this.file), { recursive: true })
+    await fs.writeFile(`${this.file}.tmp`, JSON.stringify(cursor), "utf8")
+    await fs.rename(`${this.file}.tmp`, this.file)
+  }
+}
+
+export interface ChangeEvent {
+  slug: string
+  entry: ChangefeedEntry
+}
+
+export interface DatasetHashChangedEvent {
+  previous: string
+  current: string
+}
+
+export interface ChangeWatcherEvents extends Record<string, unknown> {
+  upsert: ChangeEvent
+  unpublished: ChangeEvent
+  datasetHashChanged: DatasetHashChangedEvent
+  /**
+   * Poll or webhook failures. The cursor is not advanced past undelivered changes and their
+   * events are emitted only once delivery succeeds; the webhook may receive a page again.
+   */
+  error: { error: unknown }
+}
+
+export type ChangeWebhookPayload =
+  | ({ type: "upsert" | "unpublished" } & ChangeEvent)
+  | ({ type: "datasetHashChanged" } & DatasetHashChangedEvent)
+
+export interface ChangeWebhookOptions {
+  /** Receives one JSON POST per event. */
+  url: string
+  headers?: Record<string, string>
+  /** Defaults to `globalThis.fetch`. */
+  fetch?: typeof globalThis.fetch
+}
+
+export interface WatchChangesOptions {
+  /** Where to start when the cursor store is empty. Defaults to now. */
+  since?: string | Date
+  /** Delay between polls while changes keep arriving. Defaults to 60 seconds. */
+  intervalMs?: number
+  /** Ceiling for the idle backoff. Defaults to 15 minutes. */
+  maxIntervalMs?: number
+  /** Delay multiplier after each poll without changes (or with an error). Defaults to 2. */
+  backoffFactor?: number
+  /** Changefeed page size. Defaults to 500. */
+  limit?: number
+  /** Only matching entries produce events; the cursor still advances past the rest. */
+  filter?: (entry: ChangefeedEntry) => boolean
+  /** Defaults to a `MemoryCursorStore`. */
+  cursorStore?: ChangeCursorStore
+  webhook?: ChangeWebhookOptions
+  /** Stops the watcher when aborted. */
+  signal?: AbortSignal
+}
+
+export class ChangeWatcher extends TypedEventEmitter<ChangeWatcherEvents> {
+  private readonly client: Pick<InheritageClient, "getChangefeed">
+  private readonly options: WatchChangesOptions
+  private readonly intervalMs: number
+  private readonly maxIntervalMs: number
+  private readonly backoffFactor: number
+  private readonly cursorStore: ChangeCursorStore
+  private state?: ChangeCursor
+  private delayMs: number
+  private controller?: AbortController
+  private loop?: Promise<void>
+
+  constructor(client: Pick<InheritageClient, "getChangefeed">, options: WatchChangesOptions = {}) {
+    super()
+    this.client = client
+    this.options = options
+    this.intervalMs = Math.max(0, options.intervalMs ?? 60_000)
+    this.maxIntervalMs = Math.max(this.intervalMs, options.maxIntervalMs ?? 15 * 60_000)
+    this.backoffFactor = Math.max(1, options.backoffFactor ?? 2)
+    this.cursorStore = options.cursorStore ?? new MemoryCursorStore()
+    this.delayMs = this.intervalMs
+  }
+
+  get running(): boolean {
+    return this.controller !== undefined
+  }
+
+  /**
+   * The position after the last fully delivered page.
+   */
+  get cursor(): ChangeCursor | undefined {
+    return this.state ? { ...this.state } : undefined
+  }
+
+  /**
+   * Start polling in the background. Calling `start` on a running watcher is a no-op.
+   */
+  start(): this {
+    if (this.controller) return this
+    const controller = new AbortController()
+    this.controller = controller
+    const stopOnAbort = () => controller.abort(this.options.signal?.reason)
+    if (this.options.signal?.aborted) stopOnAbort()
+    else this.options.signal?.addEventListener("abort", stopOnAbort, { once: true })
+
+    this.loop = (async () => {
+      while (!controller.signal.aborted) {
+        let received = 0
+        try {
+          received = await this.poll(controller.signal)
+        } catch (error) {
+          if (controller.signal.aborted) break
+          this.emit("error", { error })
+        }
+        const wait = received > 0 ? this.intervalMs : this.delayMs
+        this.delayMs = received > 0 ? this.intervalMs : Math.min(this.maxIntervalMs, this.delayMs * this.backoffFactor)
+        // Rejects only when stopped, which ends the loop.
+        await sleep(wait, controller.signal).catch(() => undefined)
+      }
+      this.options.signal?.removeEventListener("abort", stopOnAbort)
+    })()
+    return this
+  }
+
+  /**
+   * Stop polling and wait for an in-flight poll to settle.
+   */
+  async stop(): Promise<void> {
+    this.controller?.abort()
+    await this.loop
+    this.controller = undefined
+    this.loop = undefined
+  }
+
+  /**
+   * Fetch pages until `has_more` is false, delivering each page to the webhook, then
+   * saving the cursor and emitting its events. Returns the number of entries received (before filtering).
+   */
+  async poll(signal?: AbortSignal): Promise<number> {
+    const state = await this.loadState()
+    let received = 0
+
+    while (true) {
+      const response = await this.client.getChangefeed(
+        { since: state.since, limit: this.options.limit ?? 500 },
+        { signal, cache: "no-store" }
+      )
+      const { data, meta } = response.data
+      received += data.length
+
+      const payloads: ChangeWebhookPayload[] = []
+      if (meta.dataset_hash && state.datasetHash && meta.dataset_hash !== state.datasetHash) {
+        payloads.push({ type: "datasetHashChanged", previous: state.datasetHash, current: meta.dataset_hash })
+      }
+      for (const entry of data) {
+        if (!entry.slug || (this.options.filter && !this.options.filter(entry))) continue
+        const type = entry.operation === "unpublished" || !entry.published ? "unpublished" : "upsert"
+        payloads.push({ type, slug: entry.slug, entry })
+      }
+
+      // Save the cursor as soon as the webhook has accepted the page, and emit only then:
+      // a failed delivery is fetched again on the next poll, while a throwing listener
+      // must not make the webhook receive an accepted page twice.
+      await this.deliver(payloads, signal)
+      state.since = meta.next_since ?? state.since
+      state.datasetHash = meta.dataset_hash ?? state.datasetHash
+      this.state = { ...state }
+      await this.cursorStore.save(this.state)
+
+      for (const payload of payloads) {
+        const { type, ...event } = payload
+        this.emit(type, event as never)
+      }
+
+      if (!meta.has_more || !meta.next_since || data.length === 0) break
+    }
+
+    return received
+  }
+
+  private async loadState(): Promise<ChangeCursor> {
+    if (!this.state) {
+      const stored = await this.cursorStore.load()
+      const since = this.options.since ?? new Date()
+      this.state = stored ?? { since: typeof since === "string" ? since : since.toISOString(), datasetHash: null }
+    }
+    return { ...this.state }
+  }
+
+  private async deliver(payloads: ChangeWebhookPayload[], signal?: AbortSignal): Promise<void> {
+    const webhook = this.options.webhook
+    if (!webhook) return
+    const fetchImpl = webhook.fetch ?? globalThis.fetch
+    for (const payload of payloads) {
+      let response: Response
+      try {
+        response = await fetchImpl(webhook.url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...webhook.headers },
+          body: JSON.stringify(payload),
+          signal,
+        })
+      } catch (error) {
+        if (signal?.aborted) throw error
+        throw new WebhookDeliveryError({ url: webhook.url, status: 0, cause: error })
+      }
+      await response.body?.cancel().catch(() => undefined)
+      if (!response.ok) {
+        throw new WebhookDeliveryError({ url: webhook.url, status: response.status })
+      }
+    }
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * XML Helpers for Inheritage SDK
+ *
+ * A small dependency-free XML reader plus the escaping shared by the
+ * feed and metadata serializers
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * const root = parseXml(response.data)
+ * const identifiers = findElements(root, 'identifier').map(textContent)
+ * ```
+ */
+
+import { ParseError } from "./errors"
+
+export interface XmlElement {
+  /** Qualified name as written, e.g. `oai_dc:dc`. */
+  name: string
+  /** Name without the namespace prefix. */
+  localName: string
+  /** Namespace URI resolved from `xmlns` declarations, or null. */
+  namespace: string | null
+  attributes: Record<string, string>
+  children: XmlNode[]
+  /** 1-based line of the start tag. */
+  line: number
+}
+
+export type XmlNode = XmlElement | string
+
+const XML_ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&apos;",
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+}
+
+/**
+ * Escape text for element content or attribute values. Characters that XML 1.0
+ * cannot represent at all (most C0 controls, lone surrogates) are dropped.
+ */
+export function escapeXml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]|[\ud800-\udbff](?![\udc00-\udfff])|(?<![\ud800-\udbff])[\udc00-\udfff]/g, "")
+    .replace(/[&<>"']/g, (char) => XML_ENTITIES[char])
+}
+
+function decodeEntities(text: string, line: number): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z][\w.-]*);/g, (match, entity: string) => {
+    if (entity.startsWith("#")) {
+      const codePoint = entity.startsWith("#x") ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      if (!isXmlChar(codePoint)) {
+        throw new ParseError({ message: `Invalid character reference ${match} on line ${line}` })
+      }
+      return String.fromCodePoint(codePoint)
+    }
+    const named = NAMED_ENTITIES[entity]
+    if (named === undefined) {
+      throw new ParseError({ message: `Unknown XML entity ${match} on line ${line}` })
+    }
+    return named
+  })
+}
+
+/** The XML 1.0 `Char` production. */
+function isXmlChar(codePoint: number): boolean {
+  return (
+    codePoint === 0x9 ||
+    codePoint === 0xa ||
+    codePoint === 0xd ||
+    (codePoint >= 0x20 && codePoint <= 0xd7ff) ||
+    (codePoint >= 0xe000 && codePoint <= 0xfffd) ||
+    (codePoint >= 0x10000 && codePoint <= 0x10ffff)
+  )
+}
+
+function splitName(name: string): [string | null, string] {
+  const index = name.indexOf(":")
+  return index === -1 ? [null, name] : [name.slice(0, index), name.slice(index + 1)]
+}
+
+const NAME = /[A-Za-z_:][\w.:\u00b7\u00c0-\uffff-]*/y
+const ATTRIBUTE = /\s*([A-Za-z_:][\w.:\u00b7\u00c0-\uffff-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/y
+
+/**
+ * Parse an XML document into an element tree. Comments, processing instructions and
+ * the DOCTYPE are skipped; CDATA becomes text. Throws `ParseError` on malformed input.
+ */
+export function parseXml(text: string): XmlElement {
+  let index = 0
+  let line = 1
+  const stack: { element: XmlElement; namespaces: Map<string | null, string | null> }[] = []
+  let root: XmlElement | undefined
+
+  const fail = (message: string): never => {
+    throw new ParseError({ message: `Invalid XML on line ${line}: ${message}` })
+  }
+  const advance = (to: number) => {
+    for (let position = index; position < to; position += 1) {
+      if (text.charCodeAt(position) === 10) line += 1
+    }
+    index = to
+  }
+  const skipPast = (terminator: string, what: string): number => {
+    const end = text.indexOf(terminator, index)
+    if (end === -1) fail(`unterminated ${what}`)
+    const start = index
+    advance(end + terminator.length)
+    return start
+  }
+  const appendText = (value: string) => {
+    const parent = stack[stack.length - 1]
+    if (!parent) {
+      if (value.trim()) fail("text outside the root element")
+      return
+    }
+    const children = parent.element.children
+    if (typeof children[children.length - 1] === "string") children[children.length - 1] += value
+    else children.push(value)
+  }
+
+  while (index < text.length) {
+    const next = text.indexOf("<", index)
+    if (next === -1) {
+      appendText(decodeEntities(text.slice(index), line))
+      advance(text.length)
+      break
+    }
+    if (next > index) {
+      const startLine = line
+      const raw = text.slice(index, next)
+      advance(next)
+      appendText(decodeEntities(raw, startLine))
+    }
+
+    if (text.startsWith("<!--", index)) {
+      skipPast("-->", "comment")
+    } else if (text.startsWith("<![CDATA[", index)) {
+      const start = skipPast("]]>", "CDATA section")
+      appendText(text.slice(start + 9, index - 3))
+    } else if (text.startsWith("<?", index)) {
+      skipPast("?>", "processing instruction")
+    } else if (text.startsWith("<!DOCTYPE", index)) {
+      const subset = text.indexOf("[", index)
+      const close = text.indexOf(">", index)
+      if (subset !== -1 && subset < close) {
+        advance(subset)
+        skipPast("]", "DOCTYPE")
+      }
+      skipPast(">", "DOCTYPE")
+    } else if (text.startsWith("</", index)) {
+      advance(index + 2)
+      NAME.lastIndex = index
+      const match = NAME.exec(text)
+      if (!match) fail("malformed end tag")
+      advance(index + match![0].length)
+      const close = text.indexOf(">", index)
+      if (close === -1 || text.slice(index, close).trim()) fail("malformed end tag")
+      advance(close + 1)
+      const open = stack.pop()
+      if (!open || open.element.name !== match![0]) {
+        fail(`unexpected </${match![0]}>${open ? `, expected </${open.element.name}>` : ""}`)
+      }
+    } else {
+      const startLine = line
+      advance(index + 1)
+      NAME.lastIndex = index
+      const match = NAME.exec(text)
+      if (!match) fail("malformed start tag")
+      const name = match![0]
+      advance(index + name.length)
+
+      // Null prototype: attribute names such as `constructor` or `__proto__` are ordinary keys.
+      const attributes: Record<string, string> = Object.create(null)
+      while (true) {
+        ATTRIBUTE.lastIndex = index
+        const attribute = ATTRIBUTE.exec(text)
+        if (!attribute) break
+        if (Object.hasOwn(attributes, attribute[1])) fail(`duplicate attribute ${attribute[1]}`)
+        attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3], line)
+        advance(index + attribute[0].length)
+      }
+      const rest = /^\s*(\/?)>/.exec(text.slice(index, index + 256))
+      if (!rest) fail(`malformed start tag <${name}>`)
+      advance(index + rest![0].length)
+
+      const parentScope = stack[stack.length - 1]?.namespaces
+      const namespaces = new Map<string | null, string | null>(parentScope ?? [["xml", "http://www.w3.org/XML/1998/namespace"]])
+      for (const [key, value] of Object.entries(attributes)) {
+        if (key === "xmlns") namespaces.set(null, value || null)
+        else if (key.startsWith("xmlns:")) namespaces.set(key.slice(6), value)
+      }
+      const [prefix, localName] = splitName(name)
+      if (prefix !== null && !namespaces.has(prefix)) fail(`undeclared namespace prefix ${prefix}`)
+      const element: XmlElement = {
+        name,
+        localName,
+        namespace: namespaces.get(prefix) ?? null,
+        attributes,
+        children: [],
+        line: startLine,
+      }
+
+      const parent = stack[stack.length - 1]
+      if (parent) parent.element.children.push(element)
+      else if (root) fail("multiple root elements")
+      else root = element
+      if (!rest![1]) stack.push({ element, namespaces })
+    }
+  }
+
+  if (stack.length > 0) fail(`unclosed <${stack[stack.length - 1].element.name}>`)
+  if (!root) fail("no root element")
+  return root!
+}
+
+/**
+ * Direct child elements, optionally filtered by local name.
+ */
+export function childElements(element: XmlElement, localName?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement => typeof child !== "string" && (localName === undefined || child.localName === localName)
+  )
+}
+
+/**
+ * First direct child element with the given local name.
+ */
+export function childElement(element: XmlElement, localName: string): XmlElement | undefined {
+  return childElements(element, localName)[0]
+}
+
+/**
+ * All descendant elements (depth-first, document order) with the given local name.
+ */
+export function findElements(element: XmlElement, localName: string): XmlElement[] {
+  const found: XmlElement[] = []
+  const visit = (node: XmlElement) => {
+    for (const child of childElements(node)) {
+      if (child.localName === localName) found.push(child)
+      visit(child)
+    }
+  }
+  visit(element)
+  return found
+}
+
+/**
+ * Concatenated text of an element and its descendants, trimmed.
+ */
+export function textContent(element: XmlElement | undefined): string {
+  if (!element) return ""
+  const collect = (node: XmlElement): string =>
+    node.children.map((child) => (typeof child === "string" ? child : collect(child))).join("")
+  return collect(element).trim()
+}
+
+/**
+ * Attribute by local name, ignoring its prefix (`xml:lang` matches `lang`).
+ */
+export function attribute(element: XmlElement, localName: string): string | undefined {
+  if (Object.hasOwn(element.attributes, localName)) return element.attributes[localName]
+  const key = Object.keys(element.attributes).find((name) => splitName(name)[1] === localName && !name.startsWith("xmlns"))
+  return key === undefined ? undefined : element.attributes[key]
+}
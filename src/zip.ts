@@ -0,0 +1,183 @@
+/**
+ * ZIP Reader for Inheritage SDK
+ *
+ * Reads stored and deflated entries from an in-memory ZIP archive,
+ * using DecompressionStream in browsers and node:zlib otherwise
+ *
+ * @version 0.3.0
+ * @author Ayush Mishra <hello@inheritage.foundation> (https://ayush.studio)
+ * @license Apache-2.0
+ * @copyright Team Inheritage
+ *
+ * @example
+ * ```typescript
+ * const { data } = await client.exportHeritageLIDO({ state: 'Karnataka' })
+ * for await (const { entry, data: bytes } of readZipEntries(data)) {
+ *   console.log(entry.filename, bytes.byteLength)
+ * }
+ * ```
+ */
+
+import { ParseError } from "./errors"
+
+export interface ZipEntry {
+  filename: string
+  directory: boolean
+  /** Compression method: 0 (stored) or 8 (deflate) are supported. */
+  method: number
+  compressedSize: number
+  size: number
+  crc32: number
+  /** DOS timestamp of the entry, read as UTC. */
+  modifiedAt: Date
+  comment: string
+  /** Offset of the entry's local file header. */
+  offset: number
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+let crcTable: Uint32Array | null = null
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n += 1) {
+      let c = n
+      for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let index = 0; index < bytes.length; index += 1) crc = crcTable[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function invalid(message: string): ParseError {
+  return new ParseError({ message: `Invalid ZIP archive: ${message}` })
+}
+
+function toBytes(archive: ArrayBuffer | Uint8Array): Uint8Array {
+  return archive instanceof Uint8Array ? archive : new Uint8Array(archive)
+}
+
+function dosDate(date: number, time: number): Date {
+  return new Date(
+    Date.UTC(1980 + (date >> 9), ((date >> 5) & 0x0f) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2)
+  )
+}
+
+/**
+ * List the entries of an archive from its central directory. Throws `ParseError` for
+ * truncated, ZIP64 or multi-disk archives.
+ */
+export function listZipEntries(archive: ArrayBuffer | Uint8Array): ZipEntry[] {
+  const bytes = toBytes(archive)
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const decoder = new TextDecoder()
+
+  // The end record is 22 bytes plus a comment of up to 64 KiB.
+  let end = -1
+  for (let position = bytes.length - 22; position >= Math.max(0, bytes.length - 22 - 0xffff); position -= 1) {
+    if (view.getUint32(position, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = position
+      break
+    }
+  }
+  if (end < 0) throw invalid("end of central directory not found")
+
+  const count = view.getUint16(end + 10, true)
+  const directoryOffset = view.getUint32(end + 16, true)
+  if (view.getUint16(end + 4, true) !== 0 || view.getUint16(end + 6, true) !== 0) throw invalid("multi-disk archives are not supported")
+  if (count === 0xffff || directoryOffset === 0xffffffff) throw invalid("ZIP64 archives are not supported")
+
+  const entries: ZipEntry[] = []
+  let position = directoryOffset
+  for (let index = 0; index < count; index += 1) {
+    if (position + 46 > bytes.length || view.getUint32(position, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw invalid(`corrupt central directory entry ${index + 1}`)
+    }
+    const nameLength = view.getUint16(position + 28, true)
+    const extraLength = view.getUint16(position + 30, true)
+    const commentLength = view.getUint16(position + 32, true)
+    const nameStart = position + 46
+    const filename = decoder.decode(bytes.subarray(nameStart, nameStart + nameLength))
+    if (view.getUint16(position + 8, true) & 0x1) throw invalid(`${filename} is encrypted`)
+    entries.push({
+      filename,
+      directory: filename.endsWith("/"),
+      method: view.getUint16(position + 10, true),
+      compressedSize: view.getUint32(position + 20, true),
+      size: view.getUint32(position + 24, true),
+      crc32: view.getUint32(position + 16, true),
+      modifiedAt: dosDate(view.getUint16(position + 14, true), view.getUint16(position + 12, true)),
+      comment: decoder.decode(bytes.subarray(nameStart + nameLength + extraLength, nameStart + nameLength + extraLength + commentLength)),
+      offset: view.getUint32(position + 42, true),
+    })
+    position = nameStart + nameLength + extraLength + commentLength
+  }
+  return entries
+}
+
+async function inflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream !== "undefined") {
+    let stream: DecompressionStream | null = null
+    try {
+      stream = new DecompressionStream("deflate-raw")
+    } catch {
+      // Older runtimes only know "gzip" and "deflate"; fall through to node:zlib.
+    }
+    if (stream) {
+      // Write directly rather than via Blob#stream, which jsdom and older runtimes lack.
+      // Failures surface through the readable side.
+      const writer = stream.writable.getWriter()
+      writer.write(bytes as Uint8Array<ArrayBuffer>).catch(() => undefined)
+      writer.close().catch(() => undefined)
+      return new Uint8Array(await new Response(stream.readable).arrayBuffer())
+    }
+  }
+  const { inflateRawSync } = await import("node:zlib")
+  return new Uint8Array(inflateRawSync(bytes))
+}
+
+/**
+ * Decompress one entry and verify its CRC-32.
+ */
+export async function readZipEntry(archive: ArrayBuffer | Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  const bytes = toBytes(archive)
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (entry.offset + 30 > bytes.length || view.getUint32(entry.offset, true) !== LOCAL_FILE_HEADER) {
+    throw invalid(`missing local header for ${entry.filename}`)
+  }
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true)
+  if (start + entry.compressedSize > bytes.length) throw invalid(`${entry.filename} is truncated`)
+  const raw = bytes.subarray(start, start + entry.compressedSize)
+
+  let data: Uint8Array
+  if (entry.method === 0) {
+    data = raw
+  } else if (entry.method === 8) {
+    try {
+      data = await inflateRaw(raw)
+    } catch (error) {
+      throw new ParseError({ message: `Invalid ZIP archive: cannot inflate ${entry.filename}`, cause: error })
+    }
+  } else {
+    throw invalid(`${entry.filename} uses unsupported compression method ${entry.method}`)
+  }
+
+  if (data.length !== entry.size || crc32(data) !== entry.crc32) throw invalid(`checksum mismatch for ${entry.filename}`)
+  return data
+}
+
+/**
+ * Iterate the files of an archive (directories are skipped), decompressing one at a time.
+ */
+export async function* readZipEntries(archive: ArrayBuffer | Uint8Array): AsyncGenerator<{ entry: ZipEntry; data: Uint8Array }> {
+  for (const entry of listZipEntries(archive)) {
+    if (entry.directory) continue
+    yield { entry, data: await readZipEntry(archive, entry) }
+  }
+}
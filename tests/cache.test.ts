@@ -0,0 +1,136 @@
+/// <reference types="vitest" />
+import { describe, it, expect, afterEach, vi } from "vitest"
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { InheritageClient } from "../src/client"
+import { FileSystemCacheStore, MemoryCacheStore, type CacheEntry } from "../src/cache"
+
+const heritage = { slug: "taj-mahal", name: "Taj Mahal" }
+
+function entry(data: unknown, size = 10): CacheEntry {
+  return { data, status: 200, headers: {}, etag: null, lastModified: null, storedAt: Date.now(), size }
+}
+
+function jsonResponse(body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "Content-Type": "application/json", ...headers },
+  })
+}
+
+describe("MemoryCacheStore", () => {
+  it("evicts the least recently used entry when full", () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 })
+    store.set("a", entry("a"))
+    store.set("b", entry("b"))
+    store.get("a")
+    store.set("c", entry("c"))
+
+    expect(store.get("b")).toBeUndefined()
+    expect(store.get("a")?.data).toBe("a")
+    expect(store.get("c")?.data).toBe("c")
+  })
+
+  it("enforces the combined size budget", () => {
+    const store = new MemoryCacheStore({ maxSize: 25 })
+    store.set("a", entry("a", 10))
+    store.set("b", entry("b", 10))
+    store.set("c", entry("c", 10))
+
+    expect(store.size).toBe(2)
+    expect(store.get("a")).toBeUndefined()
+  })
+})
+
+describe("FileSystemCacheStore", () => {
+  let directory: string | undefined
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true })
+  })
+
+  it("persists entries to disk", async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "inheritage-cache-"))
+    const store = new FileSystemCacheStore({ directory })
+    await store.set("https://example.org/heritage/taj-mahal", entry(heritage))
+
+    const reopened = new FileSystemCacheStore({ directory })
+    expect((await reopened.get("https://example.org/heritage/taj-mahal"))?.data).toEqual(heritage)
+    await reopened.delete("https://example.org/heritage/taj-mahal")
+    expect(await reopened.get("https://example.org/heritage/taj-mahal")).toBeUndefined()
+  })
+
+  it("clears only its own entry files", async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "inheritage-cache-"))
+    await writeFile(path.join(directory, "notes.json"), "{}")
+    const store = new FileSystemCacheStore({ directory })
+    await store.set("a", entry("a"))
+    await store.set("b", entry("b"))
+
+    await store.clear()
+
+    expect(await store.get("a")).toBeUndefined()
+    expect(await readdir(directory)).toEqual(["notes.json"])
+  })
+})
+
+describe("InheritageClient HTTP cache", () => {
+  it("revalidates with the stored ETag and returns cached data on 304", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(heritage, { ETag: '"v1"' }))
+      .mockResolvedValueOnce(new Response(null, { status: 304, headers: { ETag: '"v1"' } }))
+    const client = new InheritageClient({ fetch: fetchMock, cache: true })
+
+    await client.getHeritage("taj-mahal")
+    const revalidated = await client.getHeritage("taj-mahal")
+
+    const headers = new Headers(fetchMock.mock.calls[1]![1].headers)
+    expect(headers.get("If-None-Match")).toBe('"v1"')
+    expect(revalidated).toMatchObject({ status: 304, notModified: true, cached: true, data: heritage })
+  })
+
+  it("serves fresh entries within the TTL without a network call", async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(heritage, { ETag: '"v1"' }))
+    const client = new InheritageClient({ fetch: fetchMock, cache: { ttlMs: 60_000 } })
+
+    await client.getHeritage("taj-mahal")
+    const second = await client.getHeritage("taj-mahal")
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(second).toMatchObject({ status: 200, cached: true, data: heritage })
+  })
+
+  it("bypasses the cache for no-store requests", async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(heritage, { ETag: '"v1"' }))
+    const store = new MemoryCacheStore()
+    const client = new InheritageClient({ fetch: fetchMock, cache: { store, ttlMs: 60_000 } })
+
+    await client.getHeritage("taj-mahal", {}, { cache: "no-store" })
+    await client.getHeritage("taj-mahal", {}, { cache: "no-store" })
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(store.size).toBe(0)
+  })
+
+  it("keeps entries for different credentials apart in a shared store", async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(heritage, { ETag: '"v1"' }))
+    const store = new MemoryCacheStore()
+    const alice = new InheritageClient({ fetch: fetchMock, cache: { store, ttlMs: 60_000 }, defaultHeaders: { Authorization: "Bearer alice" } })
+    const bob = new InheritageClient({ fetch: fetchMock, cache: { store, ttlMs: 60_000 }, defaultHeaders: { Authorization: "Bearer bob" } })
+
+    await alice.getHeritage("taj-mahal")
+    const second = await bob.getHeritage("taj-mahal")
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(second.cached).toBeUndefined()
+    expect(store.size).toBe(2)
+  })
+
+  it("fails only-if-cached requests on a cache miss", async () => {
+    const client = new InheritageClient({ fetch: vi.fn(), cache: true })
+
+    await expect(client.getStats({ cache: "only-if-cached" })).rejects.toMatchObject({ status: 504, code: "CACHE_MISS" })
+  })
+})
@@ -0,0 +1,107 @@
+/// <reference types="vitest" />
+import { describe, it, expect } from "vitest"
+import { CidocGraph } from "../src/cidoc"
+import type { CidocJsonLd } from "../src/types"
+
+const nested: CidocJsonLd = {
+  "@context": "https://www.inheritage.foundation/context/cidoc-crm.jsonld",
+  "@id": "https://inheritage.foundation/heritage/hoysaleswara-temple",
+  "@type": "E22_Human-Made_Object",
+  "rdfs:label": "Hoysaleswara Temple",
+  P1_is_identified_by: [
+    { "@type": "E41_Appellation", P190_has_symbolic_content: "Hoysaleswara Temple" },
+    { "@type": "E41_Appellation", P190_has_symbolic_content: { "@value": "ಹೊಯ್ಸಳೇಶ್ವರ ದೇವಾಲಯ", "@language": "kn" } },
+  ],
+  P2_has_type: { "@id": "http://vocab.getty.edu/aat/300007466", "@type": "E55_Type", "rdfs:label": "temples" },
+  P45_consists_of: [{ "@id": "http://vocab.getty.edu/aat/300011180", "@type": "E57_Material", "rdfs:label": "schist" }],
+  P108i_was_produced_by: {
+    "@type": "E12_Production",
+    "P4_has_time-span": {
+      "@type": "E52_Time-Span",
+      P82a_begin_of_the_begin: "1121-01-01",
+      P82b_end_of_the_end: "1160-12-31",
+      P82_at_some_time_within: "12th century",
+    },
+    P14_carried_out_by: [{ "@id": "https://www.wikidata.org/entity/Q6395880", "@type": "E21_Person", "rdfs:label": "Ketamalla" }],
+    P7_took_place_at: { "@id": "#halebidu" },
+  },
+  P53_has_former_or_current_location: {
+    "@id": "#halebidu",
+    "@type": "E53_Place",
+    "rdfs:label": "Halebidu",
+    P168_place_is_defined_by: "POINT(75.9947 13.2130)",
+    P89_falls_within: { "@type": "E53_Place", "rdfs:label": "Karnataka" },
+  },
+  sameAs: ["https://www.wikidata.org/entity/Q3146380"],
+}
+
+describe("CidocGraph", () => {
+  it("resolves the main object with its production, dates, actors and places", () => {
+    const temple = new CidocGraph(nested).object()!
+
+    expect(temple.id).toBe("https://inheritage.foundation/heritage/hoysaleswara-temple")
+    expect(temple.label).toBe("Hoysaleswara Temple")
+    expect(temple.names).toEqual(["Hoysaleswara Temple", "ಹೊಯ್ಸಳೇಶ್ವರ ದೇವಾಲಯ"])
+    expect(temple.types).toEqual([
+      { id: "http://vocab.getty.edu/aat/300007466", classes: ["E55_Type"], label: "temples", aatId: "300007466" },
+    ])
+    expect(temple.materials.map((material) => material.label)).toEqual(["schist"])
+    expect(temple.sameAs).toEqual(["https://www.wikidata.org/entity/Q3146380"])
+    expect(temple.production?.timeSpan).toMatchObject({ begin: "1121-01-01", end: "1160-12-31", display: "12th century" })
+    expect(temple.production?.carriedOutBy).toEqual([
+      { id: "https://www.wikidata.org/entity/Q6395880", classes: ["E21_Person"], label: "Ketamalla", sameAs: [] },
+    ])
+    expect(temple.production?.tookPlaceAt.map((place) => place.label)).toEqual(["Halebidu"])
+    expect(temple.location).toMatchObject({
+      id: "#halebidu",
+      label: "Halebidu",
+      coordinates: [13.213, 75.9947],
+      fallsWithin: [{ label: "Karnataka", classes: ["E53_Place"], fallsWithin: [] }],
+    })
+  })
+
+  it("navigates flattened @graph documents and inverse properties", () => {
+    const graph = new CidocGraph({
+      "@graph": [
+        { "@id": "ex:production", "@type": "crm:E12_Production", "crm:P108_has_produced": { "@id": "ex:fort" }, "crm:P4_has_time-span": "ex:span" },
+        { "@id": "ex:span", "@type": "crm:E52_Time-Span", "crm:P82a_begin_of_the_begin": { "@value": "1565", "@type": "xsd:gYear" } },
+        { "@id": "ex:fort", "@type": "http://www.cidoc-crm.org/cidoc-crm/E22_Human-Made_Object", name: "Chitradurga Fort" },
+      ],
+    })
+
+    expect(graph.size).toBe(3)
+    expect(graph.entities("E22").map((entity) => entity.label)).toEqual(["Chitradurga Fort"])
+    expect(graph.related("ex:fort", "P108i_was_produced_by").map((entity) => entity.id)).toEqual(["ex:production"])
+    expect(graph.related("ex:production", "crm:P108").map((entity) => entity.id)).toEqual(["ex:fort"])
+    expect(graph.literals("ex:span", "P82a")).toEqual(["1565"])
+    expect(graph.object()).toMatchObject({ id: "ex:fort", names: ["Chitradurga Fort"], production: { id: "ex:production", timeSpan: { begin: "1565" } } })
+  })
+
+  it("merges nodes repeated under the same @id", () => {
+    const graph = new CidocGraph([
+      { "@id": "ex:place", "@type": "E53_Place", "rdfs:label": "Hampi" },
+      { "@id": "ex:place", lat: 15.335, long: 76.46 },
+    ])
+
+    expect(graph.place("ex:place")).toEqual({ id: "ex:place", classes: ["E53_Place"], label: "Hampi", coordinates: [15.335, 76.46], fallsWithin: [] })
+  })
+
+  it("does not repeat values of a node that appears both flattened and nested", () => {
+    const place = { "@id": "ex:hampi", "@type": "E53_Place", "rdfs:label": "Hampi", P1_is_identified_by: [{ "@id": "ex:name", P190_has_symbolic_content: "Vijayanagara" }] }
+    const graph = new CidocGraph({
+      "@graph": [{ "@id": "ex:temple", "@type": "E22_Human-Made_Object", P53_has_former_or_current_location: place }, place],
+    })
+
+    expect(graph.literals("ex:hampi", "rdfs:label")).toEqual(["Hampi"])
+    expect(graph.literals("ex:name", "P190")).toEqual(["Vijayanagara"])
+    expect(graph.related("ex:hampi", "P1").map((entity) => entity.id)).toEqual(["ex:name"])
+  })
+
+  it("returns nothing for unknown ids and empty documents", () => {
+    const graph = new CidocGraph({})
+
+    expect(graph.object()).toBeUndefined()
+    expect(graph.related("missing", "P53")).toEqual([])
+    expect(new CidocGraph(null).size).toBe(0)
+  })
+})
@@ -1,6 +1,16 @@
 /// <reference types="vitest" />
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
 import { InheritageClient } from "../src/client"
+import {
+  InheritageApiError,
+  InheritageTimeoutError,
+  NetworkError,
+  NotFoundError,
+  ParseError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+} from "../src/errors"
 
 const rateLimitHeaders = {
   "X-RateLimit-Limit": "120",
@@ -136,8 +146,10 @@ describe("InheritageClient", () => {
       )
     )
 
-    await expect(client.getRandomHeritage()).rejects.toMatchObject({
-      name: "InheritageApiError",
+    const request = client.getRandomHeritage()
+    await expect(request).rejects.toBeInstanceOf(InheritageApiError)
+    await expect(request).rejects.toMatchObject({
+      name: "RateLimitError",
       status: 429,
       code: "RATE_LIMITED",
       hint: "Respect Retry-After.",
@@ -562,5 +574,321 @@ describe("InheritageClient", () => {
     expect(result.data.embedding_checksum).toBe("checksum-img")
     expect(result.traceId).toBe("trace-vision")
   })
+
+  it("forwards per-request options to the SPARQL and OAI-PMH endpoints like every other endpoint", async () => {
+    fetchMock.mockImplementation(async () => new Response("<OAI-PMH/>", { status: 200, headers: { "Content-Type": "text/xml" } }))
+    const controller = new AbortController()
+
+    await client.executeSparqlQuery({ query: "SELECT * WHERE { ?s ?p ?o }" }, { query: { query: "DROP ALL" }, headers: { "X-Trace": "1" }, signal: controller.signal })
+    await client.oaipmhIdentify({ headers: { "X-Trace": "2" }, signal: controller.signal })
+
+    const [sparqlUrl, sparqlInit] = fetchMock.mock.calls[0] as [string, RequestInit]
+    expect(new URL(sparqlUrl).searchParams.get("query")).toBe("SELECT * WHERE { ?s ?p ?o }")
+    expect(new Headers(sparqlInit.headers).get("X-Trace")).toBe("1")
+    expect(sparqlInit.signal).toBe(controller.signal)
+    const [, oaiInit] = fetchMock.mock.calls[1] as [string, RequestInit]
+    expect(new Headers(oaiInit.headers).get("X-Trace")).toBe("2")
+    expect(new Headers(oaiInit.headers).get("Accept")).toBe("text/xml")
+    expect(oaiInit.signal).toBe(controller.signal)
+  })
+})
+
+
+describe("InheritageClient retry policy", () => {
+  const jsonHeaders = { "Content-Type": "application/json", ...rateLimitHeaders }
+  const unavailable = () =>
+    new Response(JSON.stringify({ error: { code: "SERVICE_UNAVAILABLE", message: "Try again." } }), {
+      status: 503,
+      headers: jsonHeaders,
+    })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("retries transient 5xx responses until one succeeds", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockImplementationOnce(async () => unavailable())
+      .mockImplementationOnce(async () => unavailable())
+      .mockImplementationOnce(async () => new Response(JSON.stringify({ timelines: [] }), { status: 200, headers: jsonHeaders }))
+    const onRetry = vi.fn()
+    const client = new InheritageClient({ fetch: fetchMock, retry: { baseDelayMs: 0, onRetry } })
+
+    const result = await client.getTimelineFeatured()
+
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(onRetry).toHaveBeenCalledTimes(2)
+    expect(result.data.timelines).toEqual([])
+  })
+
+  it("waits for Retry-After before the next attempt", async () => {
+    vi.useFakeTimers()
+    const fetchMock = vi
+      .fn()
+      .mockImplementationOnce(
+        async () =>
+          new Response(JSON.stringify({ error: { code: "RATE_LIMITED", message: "Slow down." } }), {
+            status: 429,
+            headers: { ...jsonHeaders, "Retry-After": "2" },
+          })
+      )
+      .mockImplementationOnce(async () => new Response(JSON.stringify({ timelines: [] }), { status: 200, headers: jsonHeaders }))
+    const client = new InheritageClient({ fetch: fetchMock, retry: true })
+
+    const pending = client.getTimelineFeatured()
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    await pending
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it("gives up after maxAttempts and surfaces the last error", async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => unavailable())
+    const client = new InheritageClient({ fetch: fetchMock, retry: { maxAttempts: 2, baseDelayMs: 0 } })
+
+    await expect(client.getStats()).rejects.toMatchObject({ status: 503, code: "SERVICE_UNAVAILABLE" })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it("never replays non-idempotent POSTs unless told to", async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => unavailable())
+    const client = new InheritageClient({ fetch: fetchMock, retry: { baseDelayMs: 0 } })
+    const report = { entity: "taj-mahal", app_name: "demo", domain: "example.org" }
+
+    await expect(client.reportCitation(report)).rejects.toMatchObject({ status: 503 })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    await expect(client.reportCitation(report, { retry: { retryNonIdempotent: true } })).rejects.toMatchObject({ status: 503 })
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+  })
+
+  it("retries network errors and honours a per-call opt-out", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockImplementationOnce(async () => new Response(JSON.stringify({ timelines: [] }), { status: 200, headers: jsonHeaders }))
+    const client = new InheritageClient({ fetch: fetchMock, retry: { baseDelayMs: 0 } })
+
+    await expect(client.getTimelineFeatured()).resolves.toMatchObject({ status: 200 })
+
+    fetchMock.mockRejectedValueOnce(new TypeError("fetch failed"))
+    await expect(client.getTimelineFeatured({ retry: false })).rejects.toThrow("fetch failed")
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+})
+
+describe("InheritageClient middleware", () => {
+  const jsonHeaders = { "Content-Type": "application/json", ...rateLimitHeaders }
+
+  it("lets middleware modify the outgoing request and observe the result", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockImplementation(async () => new Response(JSON.stringify({ timelines: [] }), { status: 200, headers: jsonHeaders }))
+    const calls: string[] = []
+    const client = new InheritageClient({ fetch: fetchMock })
+      .use({
+        name: "auth",
+        onRequest(request) {
+          calls.push("auth:request")
+          request.headers.set("Authorization", "Bearer token")
+          request.url.searchParams.set("locale", "hi")
+        },
+        onResult(result) {
+          calls.push("auth:result")
+          return { ...result, traceId: "rewritten" }
+        },
+      })
+      .use({
+        name: "metrics",
+        onRequest() {
+          calls.push("metrics:request")
+        },
+        onResponse(response) {
+          calls.push(`metrics:response:${response.status}`)
+        },
+      })
+
+    const result = await client.getTimelineFeatured()
+    const [url, init] = fetchMock.mock.calls[0]!
+
+    expect(url).toBe("https://www.inheritage.foundation/api/v1/timeline/featured?locale=hi")
+    expect(new Headers(init.headers).get("Authorization")).toBe("Bearer token")
+    expect(result.traceId).toBe("rewritten")
+    expect(calls).toEqual(["auth:request", "metrics:request", "metrics:response:200", "auth:result"])
+  })
+
+  it("allows onError middleware to recover from API errors", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ error: { code: "NOT_FOUND", message: "Missing." } }), { status: 404, headers: jsonHeaders })
+    )
+    const onError = vi.fn().mockImplementation((error) => ({
+      status: error.status,
+      data: null,
+      headers: new Headers(),
+      notModified: false,
+    }))
+    const client = new InheritageClient({ fetch: fetchMock, middleware: [{ onError }] })
+
+    const result = await client.getHeritage("missing-site")
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: "NOT_FOUND" }), expect.objectContaining({ method: "GET" }))
+    expect(result).toMatchObject({ status: 404, data: null })
+  })
+})
+
+describe("InheritageClient timeouts and scopes", () => {
+  const hangingFetch = () =>
+    vi.fn().mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          if (init.signal?.aborted) reject(init.signal.reason)
+          init.signal?.addEventListener("abort", () => reject(init.signal?.reason))
+        })
+    )
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("aborts slow requests with InheritageTimeoutError", async () => {
+    vi.useFakeTimers()
+    const client = new InheritageClient({ fetch: hangingFetch(), timeoutMs: 5_000 })
+
+    const pending = client.getHeritageDump()
+    const assertion = expect(pending).rejects.toMatchObject({
+      name: "InheritageTimeoutError",
+      code: "REQUEST_TIMEOUT",
+      timeoutMs: 5_000,
+    })
+    await vi.advanceTimersByTimeAsync(5_000)
+    await assertion
+    await expect(pending).rejects.toBeInstanceOf(InheritageTimeoutError)
+  })
+
+  it("lets a per-request timeout override the client default", async () => {
+    vi.useFakeTimers()
+    const client = new InheritageClient({ fetch: hangingFetch(), timeoutMs: 60_000 })
+
+    const pending = client.getStats({ timeoutMs: 100 })
+    const assertion = expect(pending).rejects.toMatchObject({ timeoutMs: 100 })
+    await vi.advanceTimersByTimeAsync(100)
+    await assertion
+  })
+
+  it("cancels every in-flight request of a scope together", async () => {
+    const fetchMock = hangingFetch()
+    const client = new InheritageClient({ fetch: fetchMock })
+    const scope = client.createScope()
+    const nested = scope.createScope()
+
+    const first = scope.getStats()
+    const second = nested.getHeritage("taj-mahal")
+    scope.abort(new Error("unmounted"))
+
+    await expect(first).rejects.toThrow("unmounted")
+    await expect(second).rejects.toThrow("unmounted")
+    expect(scope.signal.aborted).toBe(true)
+
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ timelines: [] }), { status: 200, headers: { "Content-Type": "application/json" } }))
+    await expect(client.getTimelineFeatured()).resolves.toMatchObject({ status: 200 })
+  })
+
+  it("detaches a child scope from its parent once it is aborted or disposed", () => {
+    const scope = new InheritageClient({ fetch: hangingFetch() }).createScope()
+    const removeListener = vi.spyOn(scope.signal, "removeEventListener")
+
+    scope.createScope().abort()
+    const disposed = scope.createScope()
+    disposed.dispose()
+    scope.abort()
+
+    expect(removeListener).toHaveBeenCalledTimes(2)
+    expect(disposed.signal.aborted).toBe(false)
+  })
+
+  it("clears the timeout when request middleware throws", async () => {
+    vi.useFakeTimers()
+    const client = new InheritageClient({ fetch: hangingFetch(), timeoutMs: 60_000 }).use({
+      onRequest: () => {
+        throw new Error("blocked")
+      },
+    })
+
+    await expect(client.getStats()).rejects.toThrow("blocked")
+    expect(vi.getTimerCount()).toBe(0)
+  })
 })
 
+describe("InheritageClient error hierarchy", () => {
+  const errorResponse = (status: number, error: Record<string, unknown>) =>
+    new Response(JSON.stringify({ error }), { status, headers: { "Content-Type": "application/json" } })
+
+  it("maps HTTP statuses to typed subclasses that stay InheritageApiError-compatible", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(errorResponse(404, { code: "HERITAGE_NOT_FOUND", message: "No such site.", trace_id: "trace-404" }))
+      .mockResolvedValueOnce(errorResponse(503, { message: "Maintenance." }))
+    const client = new InheritageClient({ fetch: fetchMock })
+
+    const notFound = await client.getHeritage("atlantis").catch((error: unknown) => error)
+    expect(notFound).toBeInstanceOf(NotFoundError)
+    expect(notFound).toBeInstanceOf(InheritageApiError)
+    expect(notFound).toMatchObject({ code: "NOT_FOUND", serverCode: "HERITAGE_NOT_FOUND", isRetryable: false })
+    expect(JSON.parse(JSON.stringify(notFound))).toMatchObject({
+      name: "NotFoundError",
+      status: 404,
+      code: "NOT_FOUND",
+      traceId: "trace-404",
+      isRetryable: false,
+    })
+
+    const unavailable = await client.getStats().catch((error: unknown) => error)
+    expect(unavailable).toBeInstanceOf(ServerError)
+    expect(unavailable).toMatchObject({ code: "SERVICE_UNAVAILABLE", isRetryable: true })
+  })
+
+  it("reports malformed JSON bodies as ParseError instead of null data", async () => {
+    const fetchMock = vi.fn().mockImplementation(
+      async () => new Response("{not json", { status: 200, headers: { "Content-Type": "application/json", "X-Trace-Id": "trace-parse" } })
+    )
+    const client = new InheritageClient({ fetch: fetchMock })
+
+    await expect(client.getStats()).rejects.toMatchObject({
+      name: "ParseError",
+      code: "PARSE_ERROR",
+      traceId: "trace-parse",
+      payload: "{not json",
+    })
+    await expect(client.getStats()).rejects.toBeInstanceOf(ParseError)
+  })
+
+  it("wraps transport failures in NetworkError and keeps caller aborts intact", async () => {
+    const cause = new TypeError("fetch failed")
+    const fetchMock = vi.fn().mockRejectedValueOnce(cause)
+    const client = new InheritageClient({ fetch: fetchMock })
+
+    const failure = await client.getStats().catch((error: unknown) => error)
+    expect(failure).toBeInstanceOf(NetworkError)
+    expect(failure).toMatchObject({ status: 0, code: "NETWORK_ERROR", isRetryable: true, cause })
+
+    const controller = new AbortController()
+    controller.abort()
+    fetchMock.mockRejectedValueOnce(new DOMException("aborted", "AbortError"))
+    await expect(client.getStats({ signal: controller.signal })).rejects.toMatchObject({ name: "AbortError" })
+  })
+
+  it("throws ValidationError for client-side argument checks", async () => {
+    const client = new InheritageClient({ fetch: vi.fn() })
+
+    const error = await client.getHeritage("").catch((caught: unknown) => caught)
+    expect(error).toBeInstanceOf(ValidationError)
+    expect(error).toMatchObject({ status: 0, code: "VALIDATION_ERROR", field: "slug", message: "slug is required" })
+  })
+
+  it("exposes retryability on rate limit errors", () => {
+    const error = new RateLimitError({ message: "Slow down.", retryAfter: 10 })
+    expect(error).toMatchObject({ status: 429, code: "RATE_LIMITED", isRetryable: true, retryAfter: 10 })
+  })
+})
@@ -0,0 +1,119 @@
+/// <reference types="vitest" />
+import { describe, it, expect } from "vitest"
+import { diffHeritage, diffHeritageSnapshots } from "../src/diff"
+import type { Heritage } from "../src/types"
+
+function site(slug: string, overrides: Record<string, unknown> = {}): Heritage {
+  return {
+    slug,
+    name: slug,
+    architecture: { style: "Nagara", features: ["shikhara"] },
+    visitor_info: { timings: "6am-6pm", entry_fee: null },
+    media: { primary_image: "a.jpg", gallery: ["a.jpg", "b.jpg"] },
+    timeline: [{ year: 1250, event: "Construction begins" }],
+    citations: { name: slug, url: `https://inheritage.foundation/heritage/${slug}` },
+    analytics: { views: 1 },
+    ...overrides,
+  } as unknown as Heritage
+}
+
+describe("diffHeritage", () => {
+  it("reports nothing for equal records regardless of key order", () => {
+    const a = site("konark")
+    const b = Object.fromEntries(Object.entries(a).reverse()) as unknown as Heritage
+    b.architecture = { features: ["shikhara"], style: "Nagara" } as unknown as Heritage["architecture"]
+
+    const diff = diffHeritage(a, b)
+
+    expect(diff).toEqual({ slug: "konark", changed: false, fields: [], changes: [] })
+  })
+
+  it("describes nested field changes with dotted paths", () => {
+    const before = site("konark")
+    const after = site("konark", {
+      architecture: { style: "Kalinga", features: ["shikhara"] },
+      visitor_info: { timings: "6am-6pm", entry_fee: "₹40", parking: true },
+      media: { primary_image: "a.jpg", gallery: ["b.jpg", "c.jpg"] },
+      timeline: [
+        { year: 1250, event: "Construction completed" },
+        { year: 1984, event: "UNESCO listing" },
+      ],
+      citations: { name: "Konark Sun Temple", url: "https://inheritage.foundation/heritage/konark" },
+    })
+
+    const diff = diffHeritage(before, after)
+
+    expect(diff.fields).toEqual(["architecture", "citations", "media", "timeline", "visitor_info"])
+    expect(diff.changes).toEqual([
+      { path: "architecture.style", kind: "changed", before: "Nagara", after: "Kalinga" },
+      { path: "citations.name", kind: "changed", before: "konark", after: "Konark Sun Temple" },
+      { path: "media.gallery", kind: "removed", before: "a.jpg" },
+      { path: "media.gallery", kind: "added", after: "c.jpg" },
+      { path: "timeline[0].event", kind: "changed", before: "Construction begins", after: "Construction completed" },
+      { path: "timeline[1]", kind: "added", after: { year: 1984, event: "UNESCO listing" } },
+      { path: "visitor_info.entry_fee", kind: "changed", before: null, after: "₹40" },
+      { path: "visitor_info.parking", kind: "added", after: true },
+    ])
+  })
+
+  it("reports a reordered scalar list as a single change", () => {
+    const diff = diffHeritage(site("hampi"), site("hampi", { media: { primary_image: "a.jpg", gallery: ["b.jpg", "a.jpg"] } }))
+
+    expect(diff.changes).toEqual([{ path: "media.gallery", kind: "changed", before: ["a.jpg", "b.jpg"], after: ["b.jpg", "a.jpg"] }])
+  })
+
+  it("matches array entries by identity key and skips ignored paths", () => {
+    const before = site("hampi", {
+      timeline: [
+        { year: 1336, event: "Founded" },
+        { year: 1565, event: "Sacked" },
+      ],
+    })
+    const after = site("hampi", {
+      timeline: [
+        { year: 1343, event: "Founded" },
+        { year: 1565, event: "Sacked" },
+      ],
+      analytics: { views: 99 },
+    })
+
+    const diff = diffHeritage(before, after, { arrayKeys: { timeline: "event" }, ignore: ["analytics"] })
+
+    expect(diff.changes).toEqual([{ path: "timeline[0].year", kind: "changed", before: 1336, after: 1343 }])
+  })
+})
+
+describe("diffHeritageSnapshots", () => {
+  it("summarizes added, removed and modified sites across two NDJSON dumps", async () => {
+    const previous = [site("hampi"), site("konark"), site("khajuraho")].map((record) => JSON.stringify(record)).join("\n")
+    const next = [
+      site("hampi"),
+      site("konark", { architecture: { style: "Kalinga", features: ["shikhara"] } }),
+      site("sanchi"),
+    ]
+      .map((record) => JSON.stringify(record))
+      .join("\n")
+
+    const report = await diffHeritageSnapshots(previous, next)
+
+    expect(report.added).toEqual(["sanchi"])
+    expect(report.removed).toEqual(["khajuraho"])
+    expect(report.modified.map((diff) => diff.slug)).toEqual(["konark"])
+    expect(report.summary).toEqual({
+      added: 1,
+      removed: 1,
+      modified: 1,
+      unchanged: 1,
+      fields: { "architecture.style": 1 },
+    })
+  })
+
+  it("accepts parsed records and collapses array indices in the field summary", async () => {
+    const report = await diffHeritageSnapshots(
+      [site("a"), site("b")],
+      [site("a", { timeline: [{ year: 1, event: "x" }] }), site("b", { timeline: [{ year: 2, event: "y" }] })]
+    )
+
+    expect(report.summary.fields).toEqual({ "timeline[].event": 2, "timeline[].year": 2 })
+  })
+})
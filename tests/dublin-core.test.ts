@@ -0,0 +1,133 @@
+/// <reference types="vitest" />
+import { describe, it, expect } from "vitest"
+import {
+  diffDublinCore,
+  dublinCoreToHeritage,
+  emptyDublinCore,
+  heritageToDublinCore,
+  parseDublinCore,
+  serializeDublinCore,
+} from "../src/dublin-core"
+import type { Heritage } from "../src/types"
+
+const site = {
+  slug: "hoysaleswara-temple",
+  name: "Hoysaleswara Temple",
+  summary: "12th-century Hoysala temple.",
+  description: "Twin-shrined temple dedicated to Shiva.",
+  category: "Temple",
+  location: "Halebidu",
+  state: "Karnataka",
+  country: "India",
+  period: "12th century",
+  year_built: "1121",
+  built_by: "Ketamalla",
+  materials: ["Chloritic schist"],
+  architecture: { style: "Hoysala" },
+  official_url: "https://inheritage.foundation/heritage/hoysaleswara-temple",
+  same_as: ["https://www.wikidata.org/wiki/Q3146380"],
+  citations: [
+    {
+      name: "Inheritage Foundation",
+      url: "https://inheritage.foundation/heritage/hoysaleswara-temple",
+      license: "CC BY 4.0",
+      required_display: "© Inheritage Foundation (CC BY 4.0)",
+    },
+  ],
+} as unknown as Heritage
+
+describe("parseDublinCore", () => {
+  it("reads every repeatable element of an oai_dc block", () => {
+    const record = parseDublinCore(`<oai_dc:dc xmlns:oai_dc="http://www.openarchives.org/OAI/2.0/oai_dc/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <dc:title>Hoysaleswara Temple</dc:title>
+  <dc:subject>Temple</dc:subject>
+  <dc:subject>Hoysala</dc:subject>
+  <dc:coverage>Halebidu</dc:coverage>
+  <dc:rights>CC BY 4.0</dc:rights>
+  <dc:description>  </dc:description>
+  <dc:unknown>ignored</dc:unknown>
+</oai_dc:dc>`)
+
+    expect(record).toEqual({
+      ...emptyDublinCore(),
+      title: ["Hoysaleswara Temple"],
+      subject: ["Temple", "Hoysala"],
+      coverage: ["Halebidu"],
+      rights: ["CC BY 4.0"],
+    })
+  })
+
+  it("round-trips through serializeDublinCore", () => {
+    const record = heritageToDublinCore({ ...site, name: "Temple & <Shrine>" })
+
+    expect(parseDublinCore(serializeDublinCore(record))).toEqual(record)
+  })
+})
+
+describe("Heritage mapping", () => {
+  it("maps a site to Dublin Core", () => {
+    expect(heritageToDublinCore(site)).toEqual({
+      identifier: ["oai:inheritage.foundation:heritage:hoysaleswara-temple", "https://inheritage.foundation/heritage/hoysaleswara-temple"],
+      title: ["Hoysaleswara Temple"],
+      creator: ["Ketamalla"],
+      subject: ["Temple"],
+      description: ["12th-century Hoysala temple.", "Twin-shrined temple dedicated to Shiva."],
+      publisher: ["Inheritage Foundation"],
+      contributor: [],
+      date: ["1121"],
+      type: ["PhysicalObject", "Hoysala"],
+      format: ["Chloritic schist"],
+      source: [],
+      language: ["en"],
+      coverage: ["Halebidu", "Karnataka", "India", "12th century"],
+      relation: ["https://www.wikidata.org/wiki/Q3146380"],
+      rights: ["© Inheritage Foundation (CC BY 4.0)"],
+    })
+  })
+
+  it("maps Dublin Core back to the fields it can express", () => {
+    expect(dublinCoreToHeritage(heritageToDublinCore(site))).toEqual({
+      slug: "hoysaleswara-temple",
+      official_url: "https://inheritage.foundation/heritage/hoysaleswara-temple",
+      name: "Hoysaleswara Temple",
+      built_by: "Ketamalla",
+      year_built: "1121",
+      category: "Temple",
+      materials: ["Chloritic schist"],
+      same_as: ["https://www.wikidata.org/wiki/Q3146380"],
+    })
+  })
+
+  it("derives the slug from a heritage URL when there is no OAI identifier", () => {
+    expect(dublinCoreToHeritage({ identifier: ["https://inheritage.foundation/heritage/taj-mahal/"] }).slug).toBe("taj-mahal")
+  })
+
+  it("keeps a slug with a malformed escape as written", () => {
+    expect(dublinCoreToHeritage({ identifier: ["oai:inheritage.foundation:heritage:taj%mahal"] }).slug).toBe("taj%mahal")
+  })
+
+  it("round-trips sites with a null category or summary without reporting changes", () => {
+    const sparse = { ...site, category: null, summary: null } as Heritage
+
+    expect(dublinCoreToHeritage(heritageToDublinCore(sparse))).toMatchObject({ category: null, name: "Hoysaleswara Temple" })
+    expect(diffDublinCore(sparse, heritageToDublinCore(sparse)).changes).toEqual([])
+    expect(diffDublinCore(site, heritageToDublinCore(site)).changes).toEqual([])
+  })
+
+  it("leaves fields unset for elements missing from a partial record", () => {
+    expect(dublinCoreToHeritage({ identifier: ["oai:inheritage.foundation:heritage:hoysaleswara-temple"] })).toEqual({ slug: "hoysaleswara-temple" })
+    expect(diffDublinCore(site, { identifier: ["oai:inheritage.foundation:heritage:hoysaleswara-temple"] }).changes).toEqual([])
+  })
+
+  it("diffs harvested metadata against API data", () => {
+    const harvested = { ...heritageToDublinCore(site), title: ["Hoysaleswara Temple, Halebidu"], date: [] }
+
+    const diff = diffDublinCore(site, harvested)
+
+    expect(diff.slug).toBe("hoysaleswara-temple")
+    expect(diff.changes).toEqual([
+      { path: "name", kind: "changed", before: "Hoysaleswara Temple", after: "Hoysaleswara Temple, Halebidu" },
+      { path: "year_built", kind: "changed", before: "1121", after: null },
+    ])
+  })
+})
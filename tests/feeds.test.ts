@@ -0,0 +1,175 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi } from "vitest"
+import { NotFoundError } from "../src/errors"
+import {
+  CC_BY_4_URL,
+  createFeedItems,
+  enrichChangefeed,
+  renderAtomFeed,
+  renderJsonFeed,
+  renderRssFeed,
+  type FeedHeritage,
+} from "../src/feeds"
+import type { ChangefeedEntry, ChangefeedResponse } from "../src/types"
+import { escapeXml } from "../src/xml"
+
+const changes: ChangefeedResponse = {
+  data: [
+    {
+      slug: "konark-sun-temple",
+      updated_at: "2026-03-02T10:00:00Z",
+      created_at: "2025-01-01T00:00:00Z",
+      published: true,
+      operation: "upsert",
+      checksum: "abc123",
+      url: null,
+    },
+    {
+      slug: "old-fort",
+      updated_at: "2026-03-01T08:00:00Z",
+      created_at: null,
+      published: false,
+      operation: "unpublished",
+      checksum: "def456",
+      url: "https://inheritage.foundation/heritage/old-fort",
+    },
+  ],
+  meta: {
+    count: 2,
+    limit: 100,
+    since: "2026-03-01T00:00:00Z",
+    next_since: null,
+    has_more: false,
+    dataset_hash: "hash",
+    last_updated: null,
+  },
+}
+
+const konark: FeedHeritage = {
+  slug: "konark-sun-temple",
+  name: "Konark Sun Temple & <Chariot>",
+  summary: "13th-century temple shaped as a chariot.",
+  official_url: "https://inheritage.foundation/heritage/konark-sun-temple",
+  citations: [
+    {
+      name: "Inheritage Foundation",
+      url: "https://inheritage.foundation/heritage/konark-sun-temple",
+      license: "CC BY 4.0",
+      required_display: "© Inheritage Foundation (CC BY 4.0)",
+    },
+  ],
+}
+
+const options = { title: "Heritage updates", feedUrl: "https://museum.example/feeds/heritage.atom" }
+
+describe("escapeXml", () => {
+  it("escapes markup characters and drops characters XML cannot encode", () => {
+    expect(escapeXml(`a & b < "c" > 'd'\u0001`)).toBe("a &amp; b &lt; &quot;c&quot; &gt; &apos;d&apos;")
+  })
+})
+
+describe("createFeedItems", () => {
+  it("builds items with attribution from the record citation", () => {
+    const [upsert, removed] = createFeedItems(changes, [konark])
+
+    expect(upsert).toMatchObject({
+      id: "urn:inheritage:konark-sun-temple:abc123",
+      title: "Konark Sun Temple & <Chariot>",
+      url: konark.official_url,
+      updated: "2026-03-02T10:00:00.000Z",
+      attribution: {
+        text: "© Inheritage Foundation (CC BY 4.0)",
+        license: "CC BY 4.0",
+        licenseUrl: CC_BY_4_URL,
+      },
+    })
+    expect(removed).toMatchObject({
+      title: "Unpublished: old-fort",
+      summary: null,
+      url: "https://inheritage.foundation/heritage/old-fort",
+      attribution: { name: "Inheritage Foundation", licenseUrl: CC_BY_4_URL },
+    })
+  })
+
+  it("maps other CC BY variants to their license URL", () => {
+    const [item] = createFeedItems(changes.data.slice(0, 1), [
+      { ...konark, citations: [{ ...konark.citations[0], license: "CC BY-SA 4.0" }] },
+    ])
+
+    expect(item.attribution.licenseUrl).toBe("https://creativecommons.org/licenses/by-sa/4.0/")
+  })
+
+  it("falls back to created_at for an unparseable updated_at and skips entries with no valid date", () => {
+    const [entry] = changes.data
+    const items = createFeedItems(
+      [
+        { ...entry, updated_at: "yesterday-ish" },
+        { ...entry, slug: "broken", updated_at: "not a date", created_at: "also not" },
+      ],
+      [konark]
+    )
+
+    expect(items.map((item) => [item.slug, item.updated, item.published])).toEqual([
+      ["konark-sun-temple", "2025-01-01T00:00:00.000Z", "2025-01-01T00:00:00.000Z"],
+    ])
+    expect(renderRssFeed(items, options)).not.toContain("Invalid Date")
+  })
+})
+
+describe("enrichChangefeed", () => {
+  it("fetches projected records for upserts only and tolerates missing sites", async () => {
+    const entries: ChangefeedEntry[] = [...changes.data, { ...changes.data[0], slug: "gone", checksum: "x" }]
+    const getHeritage = vi.fn(async (slug: string, _params: { fields?: readonly string[] }) => {
+      if (slug === "gone") throw new NotFoundError({ message: "missing" })
+      return { status: 200, data: konark, headers: new Headers(), notModified: false }
+    })
+
+    const items = await enrichChangefeed({ getHeritage } as never, entries)
+
+    expect(getHeritage).toHaveBeenCalledTimes(2)
+    expect(getHeritage.mock.calls[0][1]).toEqual({ fields: ["slug", "name", "summary", "official_url", "citations"] })
+    expect(items.map((item) => item.title)).toEqual(["Konark Sun Temple & <Chariot>", "Unpublished: old-fort", "gone"])
+  })
+})
+
+describe("feed renderers", () => {
+  const items = createFeedItems(changes, [konark])
+
+  it("renders Atom 1.0 with per-entry rights and license links", () => {
+    const atom = renderAtomFeed(items, options)
+
+    expect(atom).toContain(`<feed xmlns="http://www.w3.org/2005/Atom">`)
+    expect(atom).toContain(`<id>https://museum.example/feeds/heritage.atom</id>`)
+    expect(atom).toContain(`<updated>2026-03-02T10:00:00.000Z</updated>`)
+    expect(atom).toContain(`<title>Konark Sun Temple &amp; &lt;Chariot&gt;</title>`)
+    expect(atom).toContain(`<link rel="license" href="${CC_BY_4_URL}"/>`)
+    expect(atom).toContain(`<rights>© Inheritage Foundation (CC BY 4.0)</rights>`)
+    expect(atom.match(/<entry>/g)).toHaveLength(2)
+  })
+
+  it("renders RSS 2.0 with Creative Commons and Dublin Core elements", () => {
+    const rss = renderRssFeed(items, { ...options, description: "Updates for partner museums" })
+
+    expect(rss).toContain(`<rss version="2.0"`)
+    expect(rss).toContain(`<description>Updates for partner museums</description>`)
+    expect(rss).toContain(`<guid isPermaLink="false">urn:inheritage:konark-sun-temple:abc123</guid>`)
+    expect(rss).toContain(`<pubDate>Mon, 02 Mar 2026 10:00:00 GMT</pubDate>`)
+    expect(rss).toContain(`<creativeCommons:license>${CC_BY_4_URL}</creativeCommons:license>`)
+    expect(rss).toContain(`<dc:rights>© Inheritage Foundation (CC BY 4.0)</dc:rights>`)
+  })
+
+  it("renders JSON Feed 1.1 with attribution in every item", () => {
+    const feed = renderJsonFeed(items, { ...options, author: { name: "Museum" } })
+
+    expect(feed.version).toBe("https://jsonfeed.org/version/1.1")
+    expect(feed.authors).toEqual([{ name: "Museum" }])
+    expect(feed.items[0]).toMatchObject({
+      id: "urn:inheritage:konark-sun-temple:abc123",
+      summary: konark.summary,
+      date_published: "2025-01-01T00:00:00.000Z",
+      content_text: `${konark.summary}\n\n© Inheritage Foundation (CC BY 4.0)`,
+      _inheritage: { slug: "konark-sun-temple", operation: "upsert" },
+    })
+    expect(feed.items[1].content_text).toContain("no longer published")
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * Builds small ZIP archives (stored or deflated entries) for tests.
+ */
+import { crc32, deflateRawSync } from "node:zlib"
+
+export interface ZipFile {
+  name: string
+  content: string
+  deflate?: boolean
+}
+
+export function createZip(files: ZipFile[], comment = ""): Uint8Array {
+  const encoder = new TextEncoder()
+  const locals: Uint8Array[] = []
+  const centrals: Uint8Array[] = []
+  let offset = 0
+  for (const file of files) {
+    const name = encoder.encode(file.name)
+    const data = encoder.encode(file.content)
+    const stored = file.deflate ? new Uint8Array(deflateRawSync(data)) : data
+    const fields = (header: DataView, at: number) => {
+      header.setUint16(at, 20, true)
+      header.setUint16(at + 4, file.deflate ? 8 : 0, true)
+      header.setUint16(at + 6, (12 << 11) | (30 << 5) | 5, true) // 12:30:10
+      header.setUint16(at + 8, ((2026 - 1980) << 9) | (3 << 5) | 1, true) // 2026-03-01
+      header.setUint32(at + 10, crc32(data), true)
+      header.setUint32(at + 14, stored.length, true)
+      header.setUint32(at + 18, data.length, true)
+      header.setUint16(at + 22, name.length, true)
+    }
+    const local = new Uint8Array(30 + name.length + stored.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    fields(localView, 4)
+    local.set(name, 30)
+    local.set(stored, 30 + name.length)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint16(4, 20, true)
+    fields(centralView, 6)
+    centralView.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    locals.push(local)
+    centrals.push(central)
+    offset += local.length
+  }
+  const directorySize = centrals.reduce((total, part) => total + part.length, 0)
+  const commentBytes = encoder.encode(comment)
+  const end = new Uint8Array(22 + commentBytes.length)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, files.length, true)
+  endView.setUint16(10, files.length, true)
+  endView.setUint32(12, directorySize, true)
+  endView.setUint32(16, offset, true)
+  endView.setUint16(20, commentBytes.length, true)
+  end.set(commentBytes, 22)
+
+  const parts = [...locals, ...centrals, end]
+  const archive = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    archive.set(part, position)
+    position += part.length
+  }
+  return archive
+}
@@ -0,0 +1,122 @@
+/// <reference types="vitest" />
+import { describe, it, expect } from "vitest"
+import { defaultEmbeddingChecksum, defaultHeritageChecksum } from "../src/checksum"
+import { verifyIntegrity, verifyStoreIntegrity } from "../src/integrity"
+import { MemoryHeritageStore, toStoredRecord } from "../src/storage"
+import type { AIEmbeddingResponse, AIVectorRecord, ChangefeedEntry, Heritage } from "../src/types"
+
+function site(slug: string, name = slug): Heritage {
+  return { slug, name, state: "Karnataka" } as Heritage
+}
+
+function entry(slug: string, checksum: string, operation: ChangefeedEntry["operation"] = "upsert"): ChangefeedEntry {
+  return {
+    slug,
+    checksum,
+    operation,
+    published: operation === "upsert",
+    updated_at: "2026-01-01T00:00:00Z",
+    created_at: null,
+    url: null,
+  }
+}
+
+async function vectorRecord(slug: string, vector: number[], overrides: Partial<AIVectorRecord> = {}): Promise<AIVectorRecord> {
+  return {
+    slug,
+    vector,
+    embedding_dimensions: vector.length,
+    embedding_checksum: await defaultEmbeddingChecksum(vector),
+    ...overrides,
+  } as AIVectorRecord
+}
+
+describe("verifyIntegrity", () => {
+  it("passes when records and embeddings match their checksums", async () => {
+    const record = site("hampi")
+    const report = await verifyIntegrity({
+      records: [record],
+      embeddings: [await vectorRecord("hampi", [0.1, 0.2, 0.3])],
+      changes: [entry("hampi", await defaultHeritageChecksum(record))],
+    })
+
+    expect(report.ok).toBe(true)
+    expect(report.issues).toEqual([])
+    expect(report.checked).toEqual({ records: 1, embeddings: 1, changes: 1 })
+  })
+
+  it("reports stale, missing and unpublished records against the latest changefeed entry", async () => {
+    const current = site("hampi")
+    const report = await verifyIntegrity({
+      records: [site("hampi", "Old Hampi"), site("konark")],
+      changes: [
+        entry("hampi", "outdated"),
+        entry("hampi", await defaultHeritageChecksum(current)),
+        entry("konark", "x", "unpublished"),
+        entry("khajuraho", "y"),
+      ],
+    })
+
+    expect(report.ok).toBe(false)
+    expect(report.issues.map((issue) => [issue.type, issue.slug])).toEqual([
+      ["stale_record", "hampi"],
+      ["unpublished_record", "konark"],
+      ["missing_record", "khajuraho"],
+    ])
+    expect(report.summary.stale_record).toBe(1)
+  })
+
+  it("detects dimension and embedding checksum mismatches across response shapes", async () => {
+    const embedding: AIEmbeddingResponse = {
+      slug: "hampi",
+      dimensions: 4,
+      embedding: [1, 2, 3],
+      embedding_checksum: await defaultEmbeddingChecksum([1, 2, 3]),
+    } as AIEmbeddingResponse
+    const tampered = await vectorRecord("konark", [0.5, 0.5], { embedding_checksum: "sha256:deadbeef" })
+
+    const report = await verifyIntegrity({ embeddings: [embedding, tampered] })
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({ type: "dimension_mismatch", slug: "hampi", expected: 4, actual: 3 }),
+      expect.objectContaining({ type: "embedding_checksum_mismatch", slug: "konark", expected: "sha256:deadbeef" }),
+    ])
+  })
+
+  it("only fails on the configured issue types", async () => {
+    const report = await verifyIntegrity(
+      { embeddings: [await vectorRecord("hampi", [1], { embedding_dimensions: 2 })], expectedDatasetHash: "b", datasetHash: "a" },
+      { failOn: ["embedding_checksum_mismatch"] }
+    )
+
+    expect(report.ok).toBe(true)
+    expect(report.summary).toMatchObject({ dimension_mismatch: 1, dataset_hash_mismatch: 1 })
+  })
+
+  it("accepts a custom embedding checksum", async () => {
+    const report = await verifyIntegrity(
+      { embeddings: [await vectorRecord("hampi", [1, 2], { embedding_checksum: "2" })] },
+      { embeddingChecksum: (vector) => String(vector.length) }
+    )
+
+    expect(report.ok).toBe(true)
+  })
+})
+
+describe("verifyStoreIntegrity", () => {
+  it("verifies stored records, vectors and the persisted dataset hash", async () => {
+    const store = new MemoryHeritageStore()
+    const record = site("hampi")
+    await store.put("heritage", [toStoredRecord("heritage", record)])
+    await store.put("vectors", [toStoredRecord("vectors", await vectorRecord("hampi", [1, 2]))])
+    await store.setState({ cursor: "2026-01-01T00:00:00Z", datasetHash: "abc", syncedAt: null })
+
+    const report = await verifyStoreIntegrity(store, {
+      changes: [entry("hampi", await defaultHeritageChecksum(record))],
+      expectedDatasetHash: "def",
+    })
+
+    expect(report.checked).toEqual({ records: 1, embeddings: 1, changes: 1 })
+    expect(report.issues).toEqual([expect.objectContaining({ type: "dataset_hash_mismatch", expected: "def", actual: "abc" })])
+  })
+})
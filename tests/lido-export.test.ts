@@ -0,0 +1,82 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi } from "vitest"
+import { harvestLidoExport, harvestLidoExportRecords, type LidoExportManifest } from "../src/lido-export"
+import type { HeritageLidoExportParams } from "../src/types"
+import { createZip } from "./helpers/zip"
+
+const lido = (slug: string) =>
+  `<lido:lido xmlns:lido="http://www.lido-schema.org"><lido:lidoRecID>inheritage:${slug}</lido:lidoRecID></lido:lido>`
+
+function zipResponse(archive: Uint8Array) {
+  return { status: 200, data: archive.buffer as ArrayBuffer, headers: new Headers(), notModified: false }
+}
+
+function exportClient(pages: Uint8Array[]) {
+  const exportHeritageLIDO = vi.fn(async (_params?: HeritageLidoExportParams, _options?: { signal?: AbortSignal }) =>
+    zipResponse(pages.shift() ?? createZip([]))
+  )
+  return { exportHeritageLIDO }
+}
+
+describe("harvestLidoExport", () => {
+  it("pages with limit and offset until an archive comes back short", async () => {
+    const client = exportClient([
+      createZip([
+        { name: "manifest.json", content: JSON.stringify({ total: 3, generated_at: "2026-03-01" }) },
+        { name: "lido/", content: "" },
+        { name: "lido/hampi.xml", content: lido("hampi"), deflate: true },
+        { name: "lido/badami.xml", content: lido("badami") },
+      ]),
+      createZip([{ name: "lido/pattadakal.xml", content: lido("pattadakal"), deflate: true }]),
+    ])
+    const manifests: LidoExportManifest[] = []
+
+    const entries = []
+    for await (const entry of harvestLidoExport(client, { state: "Karnataka", limit: 2, onManifest: (manifest) => void manifests.push(manifest) })) {
+      entries.push(entry)
+    }
+
+    expect(entries.map(({ slug, filename }) => ({ slug, filename }))).toEqual([
+      { slug: "hampi", filename: "lido/hampi.xml" },
+      { slug: "badami", filename: "lido/badami.xml" },
+      { slug: "pattadakal", filename: "lido/pattadakal.xml" },
+    ])
+    expect(entries[0].xml).toBe(lido("hampi"))
+    expect(client.exportHeritageLIDO.mock.calls.map((call) => call[0])).toEqual([
+      { state: "Karnataka", limit: 2, offset: 0 },
+      { state: "Karnataka", limit: 2, offset: 2 },
+    ])
+    expect(manifests.map(({ page, offset, count, metadata, entries }) => ({ page, offset, count, metadata, files: entries.length }))).toEqual([
+      { page: 1, offset: 0, count: 2, metadata: { total: 3, generated_at: "2026-03-01" }, files: 4 },
+      { page: 2, offset: 2, count: 1, metadata: null, files: 1 },
+    ])
+  })
+
+  it("starts from the given offset and honours maxPages", async () => {
+    const page = () => createZip([{ name: "a.xml", content: lido("a") }])
+    const client = exportClient([page(), page(), page()])
+
+    const slugs = []
+    for await (const entry of harvestLidoExport(client, { limit: 1, offset: 10, maxPages: 2 })) slugs.push(entry.slug)
+
+    expect(slugs).toEqual(["a", "a"])
+    expect(client.exportHeritageLIDO.mock.calls.map((call) => call[0]?.offset)).toEqual([10, 11])
+  })
+})
+
+describe("harvestLidoExportRecords", () => {
+  it("parses every record, including wrapped files", async () => {
+    const wrapped = `<lido:lidoWrap xmlns:lido="http://www.lido-schema.org">${lido("hampi").replace(/ xmlns:lido="[^"]+"/, "")}${lido("badami").replace(/ xmlns:lido="[^"]+"/, "")}</lido:lidoWrap>`
+    const client = exportClient([createZip([{ name: "karnataka.xml", content: wrapped, deflate: true }])])
+
+    const records = []
+    for await (const { slug, record } of harvestLidoExportRecords(client)) records.push([slug, record.lidoRecId.value])
+
+    expect(records).toEqual([
+      ["karnataka", "inheritage:hampi"],
+      ["karnataka", "inheritage:badami"],
+    ])
+    expect(client.exportHeritageLIDO).toHaveBeenCalledTimes(1)
+    expect(client.exportHeritageLIDO.mock.calls[0][0]).toEqual({ limit: 100, offset: 0 })
+  })
+})
@@ -0,0 +1,122 @@
+/// <reference types="vitest" />
+import { describe, it, expect } from "vitest"
+import { serializeLido, type LidoRecord } from "../src/lido"
+import { validateLido } from "../src/lido-validation"
+
+const record: LidoRecord = {
+  lidoRecId: { value: "inheritage:hoysaleswara-temple", type: "local" },
+  lang: "en",
+  objectWorkTypes: [{ conceptId: "http://vocab.getty.edu/aat/300007466", term: "temples" }],
+  classifications: [],
+  objectIdentification: { titles: [{ value: "Hoysaleswara Temple", lang: "en" }], repositories: [], descriptions: [], measurements: [] },
+  events: [
+    {
+      ids: [],
+      type: { term: "Production" },
+      names: [],
+      actors: [],
+      cultures: [],
+      date: { earliest: "1121", latest: "1160" },
+      periods: [],
+      places: [],
+      materialsTech: [],
+      descriptions: [],
+    },
+  ],
+  subjects: [],
+  relatedWorks: [],
+  rightsWork: [],
+  record: { ids: [{ value: "hoysaleswara-temple" }], type: { term: "item" }, sources: ["Inheritage Foundation"], rights: [], infoLinks: [] },
+  resources: [],
+}
+
+const lido = (body: string, attributes = "") =>
+  `<lido:lido xmlns:lido="http://www.lido-schema.org"${attributes}>${body}</lido:lido>`
+
+describe("validateLido", () => {
+  it("accepts serializer output", () => {
+    const report = validateLido(serializeLido([record, record]))
+
+    expect(report).toEqual({ valid: true, records: 2, summary: { error: 0, warning: 0 }, issues: [] })
+  })
+
+  it("reports missing required elements and xml:lang with XPath locations", () => {
+    const report = validateLido(
+      lido(`<lido:lidoRecID>x</lido:lidoRecID>
+  <lido:descriptiveMetadata>
+    <lido:objectClassificationWrap><lido:objectWorkTypeWrap><lido:objectWorkType><lido:term>temple</lido:term></lido:objectWorkType></lido:objectWorkTypeWrap></lido:objectClassificationWrap>
+    <lido:objectIdentificationWrap/>
+  </lido:descriptiveMetadata>`)
+    )
+
+    expect(report.valid).toBe(false)
+    expect(report.issues.map(({ code, path, line }) => ({ code, path, line }))).toEqual([
+      { code: "missing_element", path: "/lido:lido[1]/lido:administrativeMetadata", line: 1 },
+      { code: "missing_lang", path: "/lido:lido[1]/lido:descriptiveMetadata[1]", line: 2 },
+      { code: "missing_element", path: "/lido:lido[1]/lido:descriptiveMetadata[1]/lido:objectIdentificationWrap[1]/lido:titleWrap", line: 4 },
+    ])
+  })
+
+  it("checks cardinality, unknown elements, empty values and language tags", () => {
+    const xml = serializeLido({ ...record, lang: "english" })
+      .replace("<lido:objectIdentificationWrap>", "<lido:objectIdentificationWrap><lido:titelWrap/>")
+      .replace("</lido:eventType>", "</lido:eventType><lido:eventType><lido:term> </lido:term></lido:eventType>")
+
+    const report = validateLido(xml)
+
+    expect(report.summary).toEqual({ error: 5, warning: 0 })
+    expect(report.issues.map((issue) => [issue.code, issue.path])).toEqual([
+      ["invalid_lang", "/lido:lido[1]/lido:descriptiveMetadata[1]/@xml:lang"],
+      ["unexpected_element", "/lido:lido[1]/lido:descriptiveMetadata[1]/lido:objectIdentificationWrap[1]/lido:titelWrap[1]"],
+      ["too_many_elements", "/lido:lido[1]/lido:descriptiveMetadata[1]/lido:eventWrap[1]/lido:eventSet[1]/lido:event[1]/lido:eventType"],
+      ["empty_element", "/lido:lido[1]/lido:descriptiveMetadata[1]/lido:eventWrap[1]/lido:eventSet[1]/lido:event[1]/lido:eventType[2]/lido:term[1]"],
+      ["invalid_lang", "/lido:lido[1]/lido:administrativeMetadata[1]/@xml:lang"],
+    ])
+  })
+
+  it("checks date format and order", () => {
+    const xml = serializeLido({
+      ...record,
+      events: [
+        { ...record.events[0], date: { earliest: "1160", latest: "1121" } },
+        { ...record.events[0], date: { earliest: "0999", latest: "1160" } },
+        { ...record.events[0], date: { earliest: "-0250", latest: "0100-03" } },
+      ],
+    }).replace("<lido:earliestDate>0999</lido:earliestDate>", "<lido:earliestDate>c. 1121</lido:earliestDate>") // serializeLido only writes ISO dates
+
+    expect(validateLido(xml).issues.map(({ code, severity, message }) => ({ code, severity, message }))).toEqual([
+      { code: "invalid_date", severity: "error", message: "earliestDate 1160 is after latestDate 1121" },
+      { code: "invalid_date", severity: "warning", message: `"c. 1121" is not an ISO 8601 date (YYYY, YYYY-MM or YYYY-MM-DD)` },
+    ])
+  })
+
+  it("checks AAT and URI concept references", () => {
+    const xml = serializeLido({
+      ...record,
+      objectWorkTypes: [
+        { conceptId: "http://vocab.getty.edu/aat/300007466", term: "temples" },
+        { conceptId: "http://vocab.getty.edu/page/aat/300004792", term: "mausoleums" },
+        { conceptId: "aat:temple", term: "temples" },
+        { conceptId: "http://", term: "broken" },
+      ],
+    })
+
+    const report = validateLido(xml, { aatStyles: [{ uri: "http://vocab.getty.edu/aat/300007466" }] })
+
+    expect(report.issues.map((issue) => [issue.code, issue.severity])).toEqual([
+      ["unknown_aat_term", "warning"],
+      ["invalid_aat_uri", "error"],
+      ["invalid_concept_id", "error"],
+    ])
+    expect(validateLido(serializeLido(record), { aatStyles: [], strict: true }).valid).toBe(false)
+  })
+
+  it("reports malformed XML and foreign roots instead of throwing", () => {
+    expect(validateLido("<lido:lido xmlns:lido='http://www.lido-schema.org'>\n<a></b>").issues).toEqual([
+      expect.objectContaining({ code: "malformed_xml", path: "/", line: 2 }),
+    ])
+    expect(validateLido("<lido><lidoRecID>x</lidoRecID></lido>").issues).toEqual([
+      expect.objectContaining({ code: "wrong_namespace", path: "/lido" }),
+    ])
+  })
+})
@@ -0,0 +1,232 @@
+/// <reference types="vitest" />
+import { describe, it, expect } from "vitest"
+import { ParseError } from "../src/errors"
+import { parseLido, parseLidoRecord, serializeLido, type LidoRecord } from "../src/lido"
+import { validateLido } from "../src/lido-validation"
+import { parseXml } from "../src/xml"
+
+const document = `<?xml version="1.0" encoding="UTF-8"?>
+<lido:lidoWrap xmlns:lido="http://www.lido-schema.org" xmlns:gml="http://www.opengis.net/gml">
+  <lido:lido>
+    <lido:lidoRecID lido:type="local" lido:source="Inheritage Foundation">inheritage:taj-mahal</lido:lidoRecID>
+    <lido:category><lido:conceptID lido:type="URI">http://www.cidoc-crm.org/crm-concepts/E22</lido:conceptID><lido:term>Man-Made Object</lido:term></lido:category>
+    <lido:descriptiveMetadata xml:lang="en">
+      <lido:objectClassificationWrap>
+        <lido:objectWorkTypeWrap><lido:objectWorkType><lido:term>Mausoleum</lido:term></lido:objectWorkType></lido:objectWorkTypeWrap>
+        <lido:classificationWrap><lido:classification><lido:term>Mughal</lido:term></lido:classification></lido:classificationWrap>
+      </lido:objectClassificationWrap>
+      <lido:objectIdentificationWrap>
+        <lido:titleWrap>
+          <lido:titleSet>
+            <lido:appellationValue lido:pref="preferred" xml:lang="en">Taj Mahal</lido:appellationValue>
+            <lido:appellationValue lido:pref="alternate" xml:lang="hi">ताज महल</lido:appellationValue>
+          </lido:titleSet>
+        </lido:titleWrap>
+        <lido:repositoryWrap>
+          <lido:repositorySet>
+            <lido:repositoryName><lido:legalBodyName><lido:appellationValue>Archaeological Survey of India</lido:appellationValue></lido:legalBodyName></lido:repositoryName>
+            <lido:workID>N-UP-A28</lido:workID>
+            <lido:repositoryLocation><lido:namePlaceSet><lido:appellationValue>Agra</lido:appellationValue></lido:namePlaceSet></lido:repositoryLocation>
+          </lido:repositorySet>
+        </lido:repositoryWrap>
+        <lido:objectDescriptionWrap>
+          <lido:objectDescriptionSet><lido:descriptiveNoteValue>White marble mausoleum.</lido:descriptiveNoteValue></lido:objectDescriptionSet>
+        </lido:objectDescriptionWrap>
+        <lido:objectMeasurementsWrap>
+          <lido:objectMeasurementsSet>
+            <lido:displayObjectMeasurements>Height 73 m</lido:displayObjectMeasurements>
+            <lido:objectMeasurements>
+              <lido:measurementsSet><lido:measurementType>height</lido:measurementType><lido:measurementUnit>m</lido:measurementUnit><lido:measurementValue>73</lido:measurementValue></lido:measurementsSet>
+            </lido:objectMeasurements>
+          </lido:objectMeasurementsSet>
+        </lido:objectMeasurementsWrap>
+      </lido:objectIdentificationWrap>
+      <lido:eventWrap>
+        <lido:eventSet>
+          <lido:displayEvent>Built 1632–1653</lido:displayEvent>
+          <lido:event>
+            <lido:eventType><lido:conceptID>http://terminology.lido-schema.org/lido00007</lido:conceptID><lido:term>Production</lido:term></lido:eventType>
+            <lido:eventActor>
+              <lido:displayActorInRole>Ustad Ahmad Lahauri (architect)</lido:displayActorInRole>
+              <lido:actorInRole>
+                <lido:actor><lido:nameActorSet><lido:appellationValue>Ustad Ahmad Lahauri</lido:appellationValue></lido:nameActorSet></lido:actor>
+                <lido:roleActor><lido:term>architect</lido:term></lido:roleActor>
+              </lido:actorInRole>
+            </lido:eventActor>
+            <lido:eventDate>
+              <lido:displayDate>1632–1653</lido:displayDate>
+              <lido:date><lido:earliestDate>1632</lido:earliestDate><lido:latestDate>1653</lido:latestDate></lido:date>
+            </lido:eventDate>
+            <lido:periodName><lido:term>Mughal</lido:term></lido:periodName>
+            <lido:eventPlace>
+              <lido:displayPlace>Agra, Uttar Pradesh</lido:displayPlace>
+              <lido:place>
+                <lido:namePlaceSet><lido:appellationValue>Agra</lido:appellationValue></lido:namePlaceSet>
+                <lido:gml><gml:Point><gml:pos>27.1751 78.0421</gml:pos></gml:Point></lido:gml>
+              </lido:place>
+            </lido:eventPlace>
+            <lido:eventMaterialsTech><lido:materialsTech><lido:termMaterialsTech><lido:term>Makrana marble</lido:term></lido:termMaterialsTech></lido:materialsTech></lido:eventMaterialsTech>
+          </lido:event>
+        </lido:eventSet>
+      </lido:eventWrap>
+      <lido:objectRelationWrap>
+        <lido:relatedWorksWrap>
+          <lido:relatedWorkSet>
+            <lido:relatedWork>
+              <lido:displayObject>Agra Fort</lido:displayObject>
+              <lido:object><lido:objectWebResource>https://inheritage.foundation/heritage/agra-fort</lido:objectWebResource><lido:objectID>inheritage:agra-fort</lido:objectID></lido:object>
+            </lido:relatedWork>
+            <lido:relatedWorkRelType><lido:term>related to</lido:term></lido:relatedWorkRelType>
+          </lido:relatedWorkSet>
+        </lido:relatedWorksWrap>
+      </lido:objectRelationWrap>
+    </lido:descriptiveMetadata>
+    <lido:administrativeMetadata xml:lang="en">
+      <lido:rightsWorkWrap>
+        <lido:rightsWorkSet>
+          <lido:rightsType><lido:term>CC BY 4.0</lido:term></lido:rightsType>
+          <lido:rightsHolder><lido:legalBodyName><lido:appellationValue>Inheritage Foundation</lido:appellationValue></lido:legalBodyName></lido:rightsHolder>
+          <lido:creditLine>© Inheritage Foundation (CC BY 4.0)</lido:creditLine>
+        </lido:rightsWorkSet>
+      </lido:rightsWorkWrap>
+      <lido:recordWrap>
+        <lido:recordID lido:type="local">taj-mahal</lido:recordID>
+        <lido:recordType><lido:term>item</lido:term></lido:recordType>
+        <lido:recordSource><lido:legalBodyName><lido:appellationValue>Inheritage Foundation</lido:appellationValue></lido:legalBodyName></lido:recordSource>
+        <lido:recordInfoSet><lido:recordInfoLink>https://inheritage.foundation/heritage/taj-mahal</lido:recordInfoLink><lido:recordMetadataDate>2026-03-01</lido:recordMetadataDate></lido:recordInfoSet>
+      </lido:recordWrap>
+      <lido:resourceWrap>
+        <lido:resourceSet>
+          <lido:resourceRepresentation lido:type="image_master"><lido:linkResource>https://cdn.inheritage.foundation/taj-mahal.jpg</lido:linkResource></lido:resourceRepresentation>
+          <lido:resourceType><lido:term>image</lido:term></lido:resourceType>
+          <lido:resourceDescription>South facade</lido:resourceDescription>
+          <lido:rightsResource><lido:rightsType><lido:term>CC BY-SA 4.0</lido:term></lido:rightsType></lido:rightsResource>
+        </lido:resourceSet>
+      </lido:resourceWrap>
+    </lido:administrativeMetadata>
+  </lido:lido>
+</lido:lidoWrap>`
+
+describe("parseLido", () => {
+  it("maps a LIDO record to the typed model", () => {
+    const [record] = parseLido(document)
+
+    expect(record).toEqual<LidoRecord>({
+      lidoRecId: { value: "inheritage:taj-mahal", type: "local", source: "Inheritage Foundation" },
+      category: { conceptId: "http://www.cidoc-crm.org/crm-concepts/E22", term: "Man-Made Object" },
+      lang: "en",
+      objectWorkTypes: [{ term: "Mausoleum" }],
+      classifications: [{ term: "Mughal" }],
+      objectIdentification: {
+        titles: [
+          { value: "Taj Mahal", lang: "en", pref: "preferred" },
+          { value: "ताज महल", lang: "hi", pref: "alternate" },
+        ],
+        repositories: [{ name: "Archaeological Survey of India", workId: "N-UP-A28", location: "Agra" }],
+        descriptions: ["White marble mausoleum."],
+        measurements: [{ display: "Height 73 m", type: "height", unit: "m", value: "73" }],
+      },
+      events: [
+        {
+          display: "Built 1632–1653",
+          ids: [],
+          type: { conceptId: "http://terminology.lido-schema.org/lido00007", term: "Production" },
+          names: [],
+          actors: [{ name: "Ustad Ahmad Lahauri", role: { term: "architect" }, display: "Ustad Ahmad Lahauri (architect)" }],
+          cultures: [],
+          date: { display: "1632–1653", earliest: "1632", latest: "1653" },
+          periods: [{ term: "Mughal" }],
+          places: [{ name: "Agra", display: "Agra, Uttar Pradesh", coordinates: [27.1751, 78.0421] }],
+          materialsTech: [{ term: "Makrana marble" }],
+          descriptions: [],
+        },
+      ],
+      subjects: [],
+      relatedWorks: [
+        {
+          display: "Agra Fort",
+          objectId: "inheritage:agra-fort",
+          webResource: "https://inheritage.foundation/heritage/agra-fort",
+          relationType: { term: "related to" },
+        },
+      ],
+      rightsWork: [{ type: { term: "CC BY 4.0" }, holder: "Inheritage Foundation", creditLine: "© Inheritage Foundation (CC BY 4.0)" }],
+      record: {
+        ids: [{ value: "taj-mahal", type: "local" }],
+        type: { term: "item" },
+        sources: ["Inheritage Foundation"],
+        rights: [],
+        infoLinks: ["https://inheritage.foundation/heritage/taj-mahal"],
+        metadataDate: "2026-03-01",
+      },
+      resources: [
+        {
+          links: [{ url: "https://cdn.inheritage.foundation/taj-mahal.jpg", type: "image_master" }],
+          type: { term: "image" },
+          description: "South facade",
+          rights: [{ type: { term: "CC BY-SA 4.0" } }],
+        },
+      ],
+    })
+  })
+
+  it("accepts a single lido element or a parsed tree", () => {
+    const xml = `<lido:lido xmlns:lido="http://www.lido-schema.org"><lido:lidoRecID>x</lido:lidoRecID></lido:lido>`
+
+    expect(parseLido(xml)).toHaveLength(1)
+    expect(parseLidoRecord(parseXml(xml)).lidoRecId).toEqual({ value: "x" })
+  })
+
+  it("rejects records without lidoRecID and non-LIDO roots", () => {
+    expect(() => parseLido(`<lido:lido xmlns:lido="http://www.lido-schema.org"/>`)).toThrow(ParseError)
+    expect(() => parseLido(`<oai_dc/>`)).toThrow(/Expected <lido:lidoWrap> or <lido:lido>, got <oai_dc>/)
+  })
+})
+
+describe("serializeLido", () => {
+  it("round-trips a parsed document", () => {
+    const records = parseLido(document)
+
+    const xml = serializeLido(records, { wrap: true })
+
+    expect(xml.startsWith(`<?xml version="1.0" encoding="UTF-8"?>\n<lido:lidoWrap xmlns:lido="http://www.lido-schema.org"`)).toBe(true)
+    expect(parseLido(xml)).toEqual(records)
+  })
+
+  it("writes elements in schema order, escapes text and omits empty wraps", () => {
+    const [record] = parseLido(document)
+    const xml = serializeLido({
+      ...record,
+      objectIdentification: { ...record.objectIdentification, titles: [{ value: "Fort & <Palace>" }], repositories: [], measurements: [] },
+      relatedWorks: [],
+    })
+
+    expect(xml).toContain("<lido:lido xmlns:lido=")
+    expect(xml).toContain("<lido:appellationValue>Fort &amp; &lt;Palace&gt;</lido:appellationValue>")
+    expect(xml).not.toContain("repositoryWrap")
+    expect(xml).not.toContain("objectRelationWrap")
+    const order = ["lidoRecID", "category", "descriptiveMetadata", "objectClassificationWrap", "objectIdentificationWrap", "eventWrap", "administrativeMetadata", "rightsWorkWrap", "recordWrap", "resourceWrap"]
+    const positions = order.map((name) => xml.indexOf(`<lido:${name}`))
+    expect(positions).toEqual([...positions].sort((a, b) => a - b))
+    expect(positions).not.toContain(-1)
+  })
+
+  it("writes only ISO 8601 bounds to earliestDate / latestDate", () => {
+    const [record] = parseLido(document)
+    const withDate = (date: LidoRecord["events"][number]["date"]) =>
+      serializeLido({ ...record, events: [{ ...record.events[0], date }] })
+
+    const partial = withDate({ display: "c. 1121", earliest: "12th century", latest: "1160" })
+    expect(parseLido(partial)[0].events[0].date).toEqual({ display: "c. 1121" })
+    expect(partial.match(/<lido:displayDate>[^<]*<\/lido:displayDate>/g)).toEqual([
+      "<lido:displayDate>c. 1121</lido:displayDate>",
+      "<lido:displayDate>12th century</lido:displayDate>",
+      "<lido:displayDate>1160</lido:displayDate>",
+    ])
+    expect(partial).not.toContain("<lido:date>")
+    expect(validateLido(partial).issues.filter((issue) => issue.code === "invalid_date" || issue.code === "missing_element")).toEqual([])
+
+    const iso = withDate({ display: "1121", earliest: "1121", latest: "1160-12-31" })
+    expect(parseLido(iso)[0].events[0].date).toEqual({ display: "1121", earliest: "1121", latest: "1160-12-31" })
+  })
+})
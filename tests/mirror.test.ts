@@ -0,0 +1,162 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi } from "vitest"
+import { canonicalJson, sha256Hex } from "../src/checksum"
+import { ChecksumMismatchError, NotFoundError } from "../src/errors"
+import { HeritageMirror, type HeritageMirrorOptions } from "../src/mirror"
+import { MemoryHeritageStore, toStoredRecord } from "../src/storage"
+import type { AIVectorRecord, ChangefeedEntry, ChangefeedResponse, Heritage } from "../src/types"
+
+function site(slug: string, name = slug): Heritage {
+  return { slug, name } as Heritage
+}
+
+function change(slug: string, checksum: string, operation: ChangefeedEntry["operation"] = "upsert"): ChangefeedEntry {
+  return { slug, checksum, operation, published: operation === "upsert", updated_at: null, created_at: null, url: null }
+}
+
+function feedPage(entries: ChangefeedEntry[], next: string | null, hasMore = false): { data: ChangefeedResponse } {
+  return {
+    data: {
+      data: entries,
+      meta: { count: entries.length, limit: 500, since: "", next_since: next, has_more: hasMore, dataset_hash: `hash-${next}`, last_updated: null },
+    },
+  }
+}
+
+function fakeClient(options: { dump?: Heritage[]; records?: Record<string, Heritage>; pages?: Array<{ data: ChangefeedResponse }> }) {
+  const pages = [...(options.pages ?? [])]
+  return {
+    streamHeritageDump: vi.fn(async function* () {
+      yield* options.dump ?? []
+    }),
+    getChangefeed: vi.fn(async (_params: { since?: string; limit?: number }) => pages.shift() ?? feedPage([], null)),
+    getHeritage: vi.fn(async (slug: string) => {
+      const record = options.records?.[slug]
+      if (!record) throw new NotFoundError({ message: "gone" })
+      return { status: 200, data: record, headers: new Headers() }
+    }),
+  }
+}
+
+const checksumOf = (record: Heritage) => sha256Hex(canonicalJson(record))
+
+describe("HeritageMirror", () => {
+  it("loads the dump, then applies changefeed pages and persists the cursor", async () => {
+    const updated = site("hampi", "Hampi (updated)")
+    const client = fakeClient({
+      dump: [site("hampi"), site("konark"), site("khajuraho")],
+      records: { hampi: updated },
+      pages: [
+        feedPage([change("hampi", await checksumOf(updated))], "2025-01-02T00:00:00Z", true),
+        feedPage([change("konark", "x", "unpublished")], "2025-01-03T00:00:00Z"),
+      ],
+    })
+    const store = new MemoryHeritageStore()
+    const mirror = new HeritageMirror({ client: client as unknown as HeritageMirrorOptions["client"], store })
+
+    const report = await mirror.sync()
+
+    expect(report).toMatchObject({ mode: "full", upserted: 4, deleted: 1, pages: 2, mismatched: [], cursor: "2025-01-03T00:00:00Z" })
+    expect(store.count("heritage")).toBe(2)
+    expect(store.get("heritage", "hampi")?.name).toBe("Hampi (updated)")
+    expect(store.get("heritage", "konark")).toBeUndefined()
+    expect(store.getState()).toMatchObject({ cursor: "2025-01-03T00:00:00Z", datasetHash: "hash-2025-01-03T00:00:00Z" })
+    expect(client.getChangefeed.mock.calls[1]![0]).toMatchObject({ since: "2025-01-02T00:00:00Z" })
+  })
+
+  it("resumes incrementally from a stored cursor", async () => {
+    const client = fakeClient({ pages: [feedPage([], null)] })
+    const store = new MemoryHeritageStore()
+    store.setState({ cursor: "2025-02-01T00:00:00Z", datasetHash: "abc", syncedAt: null })
+    const mirror = new HeritageMirror({ client: client as unknown as HeritageMirrorOptions["client"], store })
+
+    const report = await mirror.sync()
+
+    expect(report.mode).toBe("incremental")
+    expect(client.streamHeritageDump).not.toHaveBeenCalled()
+    expect(client.getChangefeed.mock.calls[0]![0]).toMatchObject({ since: "2025-02-01T00:00:00Z" })
+    expect(store.getState()?.cursor).toBe("2025-02-01T00:00:00Z")
+  })
+
+  it("treats upserts for records that 404 as deletions", async () => {
+    const client = fakeClient({ pages: [feedPage([change("gone", "x")], "c1")] })
+    const store = new MemoryHeritageStore()
+    store.put("heritage", [toStoredRecord("heritage", site("gone"))])
+    store.setState({ cursor: "c0", datasetHash: null, syncedAt: null })
+    const mirror = new HeritageMirror({ client: client as unknown as HeritageMirrorOptions["client"], store })
+
+    const report = await mirror.sync()
+
+    expect(report.deleted).toBe(1)
+    expect(store.get("heritage", "gone")).toBeUndefined()
+  })
+
+  it("reports checksum mismatches, or throws in strict mode without advancing the cursor", async () => {
+    const pages = () => [feedPage([change("hampi", "sha256:deadbeef")], "c1")]
+    const store = new MemoryHeritageStore()
+    store.setState({ cursor: "c0", datasetHash: null, syncedAt: null })
+
+    const lenient = new HeritageMirror({
+      client: fakeClient({ records: { hampi: site("hampi") }, pages: pages() }) as unknown as HeritageMirrorOptions["client"],
+      store,
+    })
+    const onMismatch = vi.fn()
+    lenient.on("checksumMismatch", onMismatch)
+    await expect(lenient.sync()).resolves.toMatchObject({ mismatched: ["hampi"] })
+    expect(onMismatch).toHaveBeenCalledWith(expect.objectContaining({ slug: "hampi", expected: "sha256:deadbeef" }))
+
+    store.setState({ cursor: "c0", datasetHash: null, syncedAt: null })
+    const strict = new HeritageMirror({
+      client: fakeClient({ records: { hampi: site("hampi") }, pages: pages() }) as unknown as HeritageMirrorOptions["client"],
+      store,
+      strictChecksums: true,
+    })
+    await expect(strict.sync()).rejects.toBeInstanceOf(ChecksumMismatchError)
+    expect(store.getState()?.cursor).toBe("c0")
+  })
+
+  it("drops records missing from the dump on a full reload", async () => {
+    const client = fakeClient({ dump: [site("hampi")] })
+    const store = new MemoryHeritageStore()
+    store.put("heritage", [toStoredRecord("heritage", site("hampi")), toStoredRecord("heritage", site("removed"))])
+    store.put("vectors", [toStoredRecord("vectors", { slug: "removed" } as AIVectorRecord)])
+    store.setState({ cursor: "c0", datasetHash: null, syncedAt: null })
+    const mirror = new HeritageMirror({ client: client as unknown as HeritageMirrorOptions["client"], store })
+
+    const report = await mirror.sync({ full: true })
+
+    expect(report).toMatchObject({ mode: "full", upserted: 1, deleted: 1 })
+    expect(store.find("heritage").map((record) => record.slug)).toEqual(["hampi"])
+    expect(store.count("vectors")).toBe(0)
+  })
+
+  it("shares a single run between concurrent sync calls", async () => {
+    const client = fakeClient({ dump: [site("hampi")] })
+    const mirror = new HeritageMirror({ client: client as unknown as HeritageMirrorOptions["client"] })
+
+    const [first, second] = await Promise.all([mirror.sync(), mirror.sync()])
+
+    expect(first).toBe(second)
+    expect(client.streamHeritageDump).toHaveBeenCalledTimes(1)
+  })
+
+  it("queues a concurrent sync that passes its own options", async () => {
+    const client = fakeClient({ dump: [site("hampi")] })
+    const store = new MemoryHeritageStore()
+    store.setState({ cursor: "2025-02-01T00:00:00Z", datasetHash: "abc", syncedAt: null })
+    const mirror = new HeritageMirror({ client: client as unknown as HeritageMirrorOptions["client"], store })
+
+    const [incremental, full] = await Promise.all([mirror.sync(), mirror.sync({ full: true })])
+
+    expect(incremental.mode).toBe("incremental")
+    expect(full.mode).toBe("full")
+    expect(client.streamHeritageDump).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("checksum helpers", () => {
+  it("hashes canonical JSON independent of key order", async () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, { f: 1, e: 2 }], c: null } })).toBe('{"a":{"c":null,"d":[1,{"e":2,"f":1}]},"b":1}')
+    expect(await sha256Hex("abc")).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad")
+  })
+})
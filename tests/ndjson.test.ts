@@ -0,0 +1,120 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi } from "vitest"
+import { InheritageClient } from "../src/client"
+import { NdjsonParseError, NotFoundError } from "../src/errors"
+import { parseNdjsonStream } from "../src/ndjson"
+
+function streamOf(chunks: Array<string | Uint8Array>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk))
+      controller.close()
+    },
+  })
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = []
+  for await (const item of iterable) items.push(item)
+  return items
+}
+
+describe("parseNdjsonStream", () => {
+  it("reassembles lines and multi-byte characters split across chunks", async () => {
+    const bytes = new TextEncoder().encode('{"name":"Kōṇārk"}\n')
+    const stream = streamOf(['{"slug":"a"}\r\n{"sl', 'ug":"b"}\n\n', bytes.slice(0, 11), bytes.slice(11), '{"slug":"c"}'])
+
+    const records = await collect(parseNdjsonStream(stream))
+
+    expect(records).toEqual([{ slug: "a" }, { slug: "b" }, { name: "Kōṇārk" }, { slug: "c" }])
+  })
+
+  it("reports the line number and raw text of malformed lines", async () => {
+    const error = await collect(parseNdjsonStream('{"slug":"a"}\n\n{"slug":\n')).catch((err: unknown) => err)
+
+    expect(error).toBeInstanceOf(NdjsonParseError)
+    expect(error).toMatchObject({ line: 3, raw: '{"slug":', code: "PARSE_ERROR" })
+  })
+
+  it("skips malformed lines when skipInvalid is set", async () => {
+    const onInvalidLine = vi.fn()
+    const records = await collect(
+      parseNdjsonStream(streamOf(['{"slug":"a"}\nnot json\n{"slug":"b"}\n']), { skipInvalid: true, onInvalidLine })
+    )
+
+    expect(records).toEqual([{ slug: "a" }, { slug: "b" }])
+    expect(onInvalidLine).toHaveBeenCalledTimes(1)
+    expect(onInvalidLine.mock.calls[0]![0]).toMatchObject({ line: 2, raw: "not json" })
+  })
+})
+
+describe("InheritageClient dump streaming", () => {
+  it("streams heritage records from the response body", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(streamOf(['{"slug":"taj-mahal"}\n{"slug":', '"hampi"}\n']), {
+        status: 200,
+        headers: { "Content-Type": "application/x-ndjson" },
+      })
+    )
+    const client = new InheritageClient({ fetch: fetchMock as unknown as typeof fetch, cache: true })
+
+    const sites = await collect(client.streamHeritageDump({ batch: 2 }))
+
+    expect(sites.map((site) => site.slug)).toEqual(["taj-mahal", "hampi"])
+    const [url, init] = fetchMock.mock.calls[0]!
+    expect(url).toBe("https://www.inheritage.foundation/api/v1/dump/heritage.ndjson?batch=2")
+    expect((init.headers as Headers).get("Accept")).toBe("application/x-ndjson")
+  })
+
+  it("passes the embedding flag and yields AI context records", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response('{"slug":"hampi","context":"..."}\n', { status: 200, headers: { "Content-Type": "application/jsonl" } })
+    )
+    const client = new InheritageClient({ fetch: fetchMock as unknown as typeof fetch })
+
+    const records = await collect(client.streamAIContextDump({ includeEmbedding: true }))
+
+    expect(records).toEqual([{ slug: "hampi", context: "..." }])
+    expect(fetchMock.mock.calls[0]![0]).toContain("include=embedding")
+  })
+
+  it("throws typed API errors before iteration starts", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ error: { code: "NOT_FOUND", message: "Dump missing" } }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      })
+    )
+    const client = new InheritageClient({ fetch: fetchMock as unknown as typeof fetch })
+
+    await expect(collect(client.streamHeritageDump())).rejects.toBeInstanceOf(NotFoundError)
+  })
+
+  it("cancels the body when the scope is aborted mid-stream", async () => {
+    const encoder = new TextEncoder()
+    let cancelled = false
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode('{"slug":"a"}\n'))
+      },
+      cancel() {
+        cancelled = true
+      },
+    })
+    const fetchMock = vi.fn().mockResolvedValue(new Response(body, { status: 200, headers: { "Content-Type": "application/x-ndjson" } }))
+    const scope = new InheritageClient({ fetch: fetchMock as unknown as typeof fetch }).createScope()
+
+    const seen: string[] = []
+    const run = async () => {
+      for await (const site of scope.streamHeritageDump()) {
+        seen.push(site.slug)
+        scope.abort(new DOMException("shutdown", "AbortError"))
+      }
+    }
+
+    await expect(run()).rejects.toMatchObject({ name: "AbortError" })
+    expect(seen).toEqual(["a"])
+    expect(cancelled).toBe(true)
+  })
+})
@@ -0,0 +1,165 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi } from "vitest"
+import { InheritageClient } from "../src/client"
+import { emptyDublinCore } from "../src/dublin-core"
+import { OaiPmhError } from "../src/errors"
+import {
+  harvestOaiIdentifiers,
+  harvestOaiRecords,
+  parseOaiGetRecord,
+  parseOaiListRecords,
+  type OaiRecord,
+} from "../src/oaipmh"
+
+function envelope(body: string, responseDate = "2026-03-01T12:00:00Z"): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<OAI-PMH xmlns="http://www.openarchives.org/OAI/2.0/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <responseDate>${responseDate}</responseDate>
+  <request verb="ListRecords" metadataPrefix="oai_dc">https://api.inheritage.foundation/v1/oai-pmh</request>
+  ${body}
+</OAI-PMH>`
+}
+
+function dcRecord(slug: string, title: string): string {
+  return `<record>
+      <header>
+        <identifier>oai:inheritage.foundation:heritage:${slug}</identifier>
+        <datestamp>2026-02-01T00:00:00Z</datestamp>
+        <setSpec>state:karnataka</setSpec>
+        <setSpec>category:temple</setSpec>
+      </header>
+      <metadata>
+        <oai_dc:dc xmlns:oai_dc="http://www.openarchives.org/OAI/2.0/oai_dc/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+          <dc:title>${title}</dc:title>
+          <dc:subject>Temple</dc:subject>
+          <dc:subject>Hoysala</dc:subject>
+          <dc:rights>CC BY 4.0</dc:rights>
+        </oai_dc:dc>
+      </metadata>
+    </record>`
+}
+
+const deletedRecord = `<record>
+      <header status="deleted">
+        <identifier>oai:inheritage.foundation:heritage:old-fort</identifier>
+        <datestamp>2026-02-02T00:00:00Z</datestamp>
+      </header>
+    </record>`
+
+function xmlResponse(data: string) {
+  return { status: 200, data, headers: new Headers(), notModified: false }
+}
+
+describe("OAI-PMH parsing", () => {
+  it("parses headers, set specs, deleted status, Dublin Core metadata and the resumption token", () => {
+    const page = parseOaiListRecords(
+      envelope(`<ListRecords>
+    ${dcRecord("hoysaleswara-temple", "Hoysaleswara Temple")}
+    ${deletedRecord}
+    <resumptionToken completeListSize="3" cursor="0" expirationDate="2026-03-02T00:00:00Z">token-2</resumptionToken>
+  </ListRecords>`),
+      "oai_dc"
+    )
+
+    expect(page.responseDate).toBe("2026-03-01T12:00:00Z")
+    expect(page.items).toEqual<OaiRecord<"oai_dc">[]>([
+      {
+        header: {
+          identifier: "oai:inheritage.foundation:heritage:hoysaleswara-temple",
+          datestamp: "2026-02-01T00:00:00Z",
+          setSpecs: ["state:karnataka", "category:temple"],
+          deleted: false,
+        },
+        metadata: {
+          ...emptyDublinCore(),
+          title: ["Hoysaleswara Temple"],
+          subject: ["Temple", "Hoysala"],
+          rights: ["CC BY 4.0"],
+        },
+      },
+      {
+        header: { identifier: "oai:inheritage.foundation:heritage:old-fort", datestamp: "2026-02-02T00:00:00Z", setSpecs: [], deleted: true },
+        metadata: null,
+      },
+    ])
+    expect(page.resumptionToken).toEqual({ token: "token-2", completeListSize: 3, cursor: 0, expirationDate: "2026-03-02T00:00:00Z" })
+  })
+
+  it("returns the LIDO element tree for lido records", () => {
+    const record = parseOaiGetRecord(
+      envelope(`<GetRecord><record>
+    <header><identifier>oai:x</identifier><datestamp>2026-01-01</datestamp></header>
+    <metadata><lido:lido xmlns:lido="http://www.lido-schema.org"><lido:lidoRecID>x</lido:lidoRecID></lido:lido></metadata>
+  </record></GetRecord>`),
+      "lido"
+    )
+
+    expect(record.metadata).toMatchObject({ name: "lido:lido", namespace: "http://www.lido-schema.org" })
+  })
+
+  it("raises typed OAI-PMH errors", () => {
+    const parse = () => parseOaiListRecords(envelope(`<error code="badResumptionToken">The token has expired</error>`), "oai_dc")
+
+    expect(parse).toThrow(OaiPmhError)
+    try {
+      parse()
+    } catch (error) {
+      expect(error).toMatchObject({ code: "badResumptionToken", message: "OAI-PMH badResumptionToken: The token has expired" })
+    }
+  })
+})
+
+describe("OAI-PMH harvesting", () => {
+  it("follows resumption tokens and sends the token as the only argument", async () => {
+    const oaipmhListRecords = vi
+      .fn(async (_prefix: "oai_dc" | "lido", _params?: { from?: string; until?: string; set?: string; resumptionToken?: string }) =>
+        xmlResponse(envelope(`<ListRecords>${dcRecord("b", "B")}<resumptionToken completeListSize="2" cursor="1"/></ListRecords>`))
+      )
+      .mockResolvedValueOnce(
+        xmlResponse(envelope(`<ListRecords>${dcRecord("a", "A")}<resumptionToken cursor="0">next</resumptionToken></ListRecords>`))
+      )
+    const pages: unknown[] = []
+
+    const records = []
+    for await (const record of harvestOaiRecords(
+      { oaipmhListRecords },
+      { metadataPrefix: "oai_dc", from: new Date("2026-02-01T00:00:00.000Z"), set: "state:karnataka", onPage: (page) => void pages.push(page) }
+    )) {
+      records.push(record.metadata?.title?.[0])
+    }
+
+    expect(records).toEqual(["A", "B"])
+    expect(oaipmhListRecords.mock.calls.map((call) => call[1])).toEqual([
+      { from: "2026-02-01T00:00:00Z", until: undefined, set: "state:karnataka" },
+      { resumptionToken: "next" },
+    ])
+    expect(pages).toEqual([
+      { responseDate: "2026-03-01T12:00:00Z", resumptionToken: { token: "next", cursor: 0 }, count: 1 },
+      { responseDate: "2026-03-01T12:00:00Z", resumptionToken: null, count: 1 },
+    ])
+  })
+
+  it("treats noRecordsMatch as an empty harvest unless asked to throw", async () => {
+    const oaipmhListIdentifiers = vi.fn(async () => xmlResponse(envelope(`<error code="noRecordsMatch"/>`)))
+    const collect = async (emptyOnNoRecordsMatch?: boolean) => {
+      const headers = []
+      for await (const header of harvestOaiIdentifiers({ oaipmhListIdentifiers }, { metadataPrefix: "lido", emptyOnNoRecordsMatch })) {
+        headers.push(header)
+      }
+      return headers
+    }
+
+    await expect(collect()).resolves.toEqual([])
+    await expect(collect(false)).rejects.toMatchObject({ name: "OaiPmhError", code: "noRecordsMatch" })
+  })
+
+  it("drops other filters from client requests that carry a resumption token", async () => {
+    const fetchMock = vi.fn(async () => new Response(envelope("<ListIdentifiers/>"), { headers: { "Content-Type": "text/xml" } }))
+    const client = new InheritageClient({ fetch: fetchMock as typeof fetch })
+
+    await client.oaipmhListIdentifiers("oai_dc", { from: "2026-01-01", resumptionToken: "abc" })
+
+    const url = new URL(String((fetchMock.mock.calls[0] as unknown[])[0]))
+    expect(Object.fromEntries(url.searchParams)).toEqual({ verb: "ListIdentifiers", resumptionToken: "abc" })
+  })
+})
@@ -0,0 +1,120 @@
+/// <reference types="vitest" />
+import { describe, it, expect, expectTypeOf } from "vitest"
+import { NotFoundError, ValidationError } from "../src/errors"
+import { OfflineHeritageClient, type HeritageQueryClient } from "../src/offline"
+import { MemoryHeritageStore, toStoredRecord } from "../src/storage"
+import type { Heritage } from "../src/types"
+
+function site(overrides: Partial<Heritage> & { slug: string; name: string }): Heritage {
+  return {
+    state: null,
+    country: "India",
+    dynasty: null,
+    period: null,
+    category: null,
+    location: null,
+    summary: null,
+    description: null,
+    materials: [],
+    architecture: { style: null },
+    status: { completion_score: null, view_count: null },
+    ...overrides,
+  } as Heritage
+}
+
+const dataset = [
+  site({
+    slug: "hoysaleswara-temple",
+    name: "Hoysaleswara Temple",
+    state: "Karnataka",
+    dynasty: "Hoysala",
+    period: "12th century",
+    materials: ["Soapstone"],
+    architecture: { style: "Hoysala" } as Heritage["architecture"],
+    status: { view_count: 900 } as Heritage["status"],
+  }),
+  site({
+    slug: "hampi",
+    name: "Group of Monuments at Hampi",
+    state: "Karnataka",
+    dynasty: "Vijayanagara",
+    summary: "Ruined capital with Dravidian temples",
+    materials: ["Granite"],
+    architecture: { style: "Dravidian" } as Heritage["architecture"],
+    status: { view_count: 1500 } as Heritage["status"],
+  }),
+  site({
+    slug: "konark-sun-temple",
+    name: "Konark Sun Temple",
+    state: "Odisha",
+    dynasty: "Eastern Ganga",
+    materials: ["Khondalite"],
+    architecture: { style: "Kalinga" } as Heritage["architecture"],
+  }),
+]
+
+describe("OfflineHeritageClient", () => {
+  const offline = new OfflineHeritageClient({ records: dataset })
+
+  it("filters, sorts and paginates with listHeritage response shapes", async () => {
+    const response = await offline.listHeritage({ state: "karnataka", sort: "-view_count", limit: 1, offset: 1 })
+
+    expect(response.status).toBe(200)
+    expect(response.data.meta).toEqual({ total: 2, limit: 1, offset: 1, page: 2 })
+    expect(response.data.data.map((entry) => entry.slug)).toEqual(["hoysaleswara-temple"])
+  })
+
+  it("matches style, material and dynasty filters case-insensitively", async () => {
+    expect((await offline.listHeritage({ style: "dravidian" })).data.data.map((entry) => entry.slug)).toEqual(["hampi"])
+    expect((await offline.listHeritage({ material: "soapstone" })).data.data.map((entry) => entry.slug)).toEqual(["hoysaleswara-temple"])
+    expect((await offline.listHeritage({ dynasty: "EASTERN GANGA" })).data.meta.total).toBe(1)
+  })
+
+  it("sorts nulls last and defaults to name order", async () => {
+    const byViews = await offline.listHeritage({ sort: "view_count" })
+    expect(byViews.data.data.map((entry) => entry.slug)).toEqual(["hoysaleswara-temple", "hampi", "konark-sun-temple"])
+
+    const byName = await offline.listHeritage()
+    expect(byName.data.data.map((entry) => entry.name)).toEqual([
+      "Group of Monuments at Hampi",
+      "Hoysaleswara Temple",
+      "Konark Sun Temple",
+    ])
+  })
+
+  it("projects fields with the same typing as the online client", async () => {
+    const response = await offline.listHeritage({ fields: ["slug", "state"], limit: 1 })
+
+    expectTypeOf(response.data.data[0]!).toEqualTypeOf<Pick<Heritage, "slug" | "state">>()
+    expect(response.data.data[0]).toEqual({ slug: "hampi", state: "Karnataka" })
+  })
+
+  it("ranks free-text matches on name above other fields", async () => {
+    const response = await offline.searchHeritage({ q: "temple" })
+
+    expect(response.data.meta).toEqual({ total: 3, limit: 20 })
+    expect(response.data.data.map((entry) => entry.slug)).toEqual(["hoysaleswara-temple", "konark-sun-temple", "hampi"])
+    expect((await offline.searchHeritage({ q: "dravid capital", state: "Karnataka" })).data.data.map((entry) => entry.slug)).toEqual([
+      "hampi",
+    ])
+    await expect(offline.searchHeritage({ q: " " })).rejects.toBeInstanceOf(ValidationError)
+  })
+
+  it("reads through a store and raises NotFoundError for unknown slugs", async () => {
+    const store = new MemoryHeritageStore()
+    const client: HeritageQueryClient = new OfflineHeritageClient({ store })
+    store.put("heritage", [toStoredRecord("heritage", dataset[2]!)])
+
+    await expect(client.getHeritage("konark-sun-temple", { fields: ["name"] })).resolves.toMatchObject({
+      data: { name: "Konark Sun Temple" },
+    })
+    await expect(client.getHeritage("hampi")).rejects.toBeInstanceOf(NotFoundError)
+  })
+
+  it("loads an NDJSON dump", async () => {
+    const dump = dataset.map((record) => JSON.stringify(record)).join("\n")
+    const fromDump = await OfflineHeritageClient.fromNdjson(dump)
+
+    expect((await fromDump.listHeritage()).data.meta.total).toBe(3)
+  })
+})
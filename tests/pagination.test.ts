@@ -0,0 +1,113 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi } from "vitest"
+import { InheritageClient } from "../src/client"
+
+function jsonResponse(body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  })
+}
+
+function heritagePages(total: number) {
+  return vi.fn().mockImplementation(async (input: string) => {
+    const url = new URL(input)
+    const offset = Number(url.searchParams.get("offset") ?? 0)
+    const limit = Number(url.searchParams.get("limit") ?? 100)
+    const data = Array.from({ length: Math.max(0, Math.min(limit, total - offset)) }, (_, index) => ({
+      slug: `site-${offset + index}`,
+    }))
+    return jsonResponse({ data, meta: { total, limit, offset } })
+  })
+}
+
+describe("client.paginate", () => {
+  it("iterates every heritage item and stops once meta.total is reached", async () => {
+    const fetchMock = heritagePages(5)
+    const client = new InheritageClient({ fetch: fetchMock as unknown as typeof fetch })
+
+    const slugs: string[] = []
+    for await (const site of client.paginate.heritage({ state: "Karnataka", limit: 2 })) {
+      slugs.push(site.slug)
+    }
+
+    expect(slugs).toEqual(["site-0", "site-1", "site-2", "site-3", "site-4"])
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(new URL(fetchMock.mock.calls[2]![0] as string).searchParams.get("state")).toBe("Karnataka")
+  })
+
+  it("does not request another page after an exact final page", async () => {
+    const fetchMock = heritagePages(4)
+    const client = new InheritageClient({ fetch: fetchMock as unknown as typeof fetch })
+
+    const pages = []
+    for await (const page of client.paginate.heritage({ limit: 2 }).pages()) {
+      pages.push({ offset: page.offset, pageNumber: page.pageNumber, count: page.items.length, total: page.total })
+    }
+
+    expect(pages).toEqual([
+      { offset: 0, pageNumber: 1, count: 2, total: 4 },
+      { offset: 2, pageNumber: 2, count: 2, total: 4 },
+    ])
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it("stops on a short page when the endpoint reports no total", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('{"slug":"a"}\n{"slug":"b"}\n', { status: 200, headers: { "Content-Type": "application/x-ndjson" } }))
+      .mockResolvedValueOnce(new Response('{"slug":"c"}\n', { status: 200, headers: { "Content-Type": "application/x-ndjson" } }))
+    const client = new InheritageClient({ fetch: fetchMock as unknown as typeof fetch })
+
+    const records = await client.paginate.vectors({ limit: 2 }).collect()
+
+    expect(records.map((record) => record.slug)).toEqual(["a", "b", "c"])
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it("follows AAT pagination.totalPages", async () => {
+    const fetchMock = vi.fn().mockImplementation(async (input: string) => {
+      const offset = Number(new URL(input).searchParams.get("offset"))
+      const page = offset / 2 + 1
+      return jsonResponse({
+        total: 4,
+        data: [{ slug: `style-${offset}` }, { slug: `style-${offset + 1}` }],
+        pagination: { page, pageSize: 2, total: 4, totalPages: 2 },
+      })
+    })
+    const client = new InheritageClient({ fetch: fetchMock as unknown as typeof fetch })
+
+    const styles = await client.paginate.aat({ q: "dravida", limit: 2 }).collect()
+
+    expect(styles.map((style) => style.slug)).toEqual(["style-0", "style-1", "style-2", "style-3"])
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it("caps collected items with maxItems", async () => {
+    const fetchMock = heritagePages(50)
+    const client = new InheritageClient({ fetch: fetchMock as unknown as typeof fetch })
+
+    const items = await client.paginate.media({ limit: 4 }).collect({ maxItems: 6 })
+
+    expect(items).toHaveLength(6)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it("stops iterating when the signal is aborted between pages", async () => {
+    const fetchMock = heritagePages(10)
+    const client = new InheritageClient({ fetch: fetchMock as unknown as typeof fetch })
+    const controller = new AbortController()
+
+    const seen: string[] = []
+    const run = async () => {
+      for await (const site of client.paginate.heritage({ limit: 2 }, { signal: controller.signal })) {
+        seen.push(site.slug)
+        if (seen.length === 2) controller.abort(new DOMException("stop", "AbortError"))
+      }
+    }
+
+    await expect(run()).rejects.toMatchObject({ name: "AbortError" })
+    expect(seen).toEqual(["site-0", "site-1"])
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,202 @@
+/// <reference types="vitest" />
+import { describe, it, expect } from "vitest"
+import {
+  cidocToQuads,
+  heritageToQuads,
+  literal,
+  namedNode,
+  quadsToJsonLd,
+  serializeNQuads,
+  serializeNTriples,
+  serializeTurtle,
+  streamHeritageRdf,
+} from "../src/rdf"
+import { ValidationError } from "../src/errors"
+import type { Heritage } from "../src/types"
+
+const site = {
+  slug: "hoysaleswara-temple",
+  uuid: "8d2f5a1e-0000-4000-8000-000000000001",
+  name: "Hoysaleswara Temple",
+  summary: 'Twin-shrined "Hoysala" temple.\nHalebidu',
+  description: null,
+  category: "Temple",
+  location: "Halebidu",
+  state: "Karnataka",
+  country: "India",
+  period: "12th century",
+  year_built: "1121",
+  built_by: null,
+  materials: ["Chloritic schist"],
+  geolocation: { lat: 13.213, lon: 75.9947 },
+  official_url: "https://inheritage.foundation/heritage/hoysaleswara-temple",
+  same_as: ["https://www.wikidata.org/wiki/Q3146380", "not a url"],
+  citations: [
+    {
+      name: "Inheritage Foundation",
+      url: "https://inheritage.foundation",
+      license: "CC BY 4.0",
+      required_display: "© Inheritage Foundation (CC BY 4.0)",
+    },
+  ],
+} as unknown as Heritage
+
+const IRI = "<https://inheritage.foundation/heritage/hoysaleswara-temple>"
+
+describe("heritageToQuads", () => {
+  it("uses official_url as the subject, links same_as and adds license triples", () => {
+    const ntriples = serializeNTriples(heritageToQuads(site))
+
+    expect(ntriples).toContain(`${IRI} <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://schema.org/LandmarksOrHistoricalBuildings> .\n`)
+    expect(ntriples).toContain(`${IRI} <http://schema.org/name> "Hoysaleswara Temple"@en .\n`)
+    expect(ntriples).toContain(`${IRI} <http://schema.org/description> "Twin-shrined \\"Hoysala\\" temple.\\nHalebidu"@en .\n`)
+    expect(ntriples).toContain(`${IRI} <http://www.w3.org/2002/07/owl#sameAs> <http://www.wikidata.org/entity/Q3146380> .\n`)
+    expect(ntriples).toContain(`${IRI} <http://purl.org/dc/terms/license> <https://creativecommons.org/licenses/by/4.0/> .\n`)
+    expect(ntriples).toContain(`${IRI} <http://creativecommons.org/ns#attributionName> "Inheritage Foundation" .\n`)
+    expect(ntriples).toContain(`_:hoysaleswara-temple-geo <http://schema.org/latitude> "13.213"^^<http://www.w3.org/2001/XMLSchema#decimal> .\n`)
+    expect(ntriples).not.toContain("not a url")
+    expect(ntriples).not.toContain("dc/terms/creator")
+  })
+
+  it("falls back to a urn:uuid IRI and honours a custom IRI", () => {
+    const withoutUrl = { ...site, official_url: "" }
+
+    expect(heritageToQuads(withoutUrl)[0].subject.value).toBe("urn:uuid:8d2f5a1e-0000-4000-8000-000000000001")
+    expect(heritageToQuads(site, { iri: (record) => `https://example.org/${record.slug}` })[0].subject.value).toBe(
+      "https://example.org/hoysaleswara-temple"
+    )
+  })
+})
+
+describe("serializers", () => {
+  const quads = [
+    { subject: namedNode("https://example.org/a"), predicate: namedNode("http://schema.org/name"), object: literal("A", "en") },
+    { subject: namedNode("https://example.org/a"), predicate: namedNode("http://schema.org/name"), object: literal("ए", "hi") },
+    { subject: namedNode("https://example.org/a"), predicate: namedNode("http://www.w3.org/1999/02/22-rdf-syntax-ns#type"), object: namedNode("http://schema.org/Place") },
+    { subject: namedNode("https://example.org/a b"), predicate: namedNode("http://schema.org/height"), object: literal(73.5) },
+  ]
+
+  it("writes N-Quads with named graphs and escapes IRIs", () => {
+    const nquads = serializeNQuads([{ ...quads[0], graph: namedNode("https://inheritage.foundation/") }, quads[3]])
+
+    expect(nquads).toBe(
+      `<https://example.org/a> <http://schema.org/name> "A"@en <https://inheritage.foundation/> .\n` +
+        `<https://example.org/a\\u0020b> <http://schema.org/height> "73.5"^^<http://www.w3.org/2001/XMLSchema#decimal> .\n`
+    )
+  })
+
+  it("writes Turtle grouped by subject with prefixes", () => {
+    expect(serializeTurtle(quads, { prefixes: { schema: "http://schema.org/", xsd: "http://www.w3.org/2001/XMLSchema#" } })).toBe(
+      `@prefix schema: <http://schema.org/> .\n@prefix xsd: <http://www.w3.org/2001/XMLSchema#> .\n\n` +
+        `<https://example.org/a>\n    schema:name "A"@en, "ए"@hi ;\n    a schema:Place .\n\n` +
+        `<https://example.org/a\\u0020b>\n    schema:height "73.5"^^xsd:decimal .\n`
+    )
+  })
+
+  it("writes expanded JSON-LD", () => {
+    expect(quadsToJsonLd(quads.slice(0, 3))).toEqual([
+      {
+        "@id": "https://example.org/a",
+        "@type": ["http://schema.org/Place"],
+        "http://schema.org/name": [
+          { "@value": "A", "@language": "en" },
+          { "@value": "ए", "@language": "hi" },
+        ],
+      },
+    ])
+  })
+})
+
+describe("cidocToQuads", () => {
+  it("maps CRM names, nested nodes and typed literals, dropping unmapped keys", () => {
+    const nquads = serializeNQuads(
+      cidocToQuads(
+        {
+          "@context": "https://www.inheritage.foundation/context/cidoc-crm.jsonld",
+          "@id": "https://inheritage.foundation/heritage/hoysaleswara-temple",
+          "@type": "E22_Human-Made_Object",
+          "rdfs:label": { "@value": "Hoysaleswara Temple", "@language": "en" },
+          P108i_was_produced_by: {
+            "@type": "crm:E12_Production",
+            "P4_has_time-span": { "@type": "E52_Time-Span", P82a_begin_of_the_begin: { "@value": "1121", "@type": "xsd:gYear" } },
+          },
+          P53_has_former_or_current_location: "#halebidu",
+          sameAs: ["https://www.wikidata.org/entity/Q3146380"],
+          internal_note: "dropped",
+        },
+        { graph: "https://inheritage.foundation/cidoc" }
+      )
+    )
+
+    expect(nquads.split("\n").filter(Boolean)).toEqual([
+      `<https://inheritage.foundation/heritage/hoysaleswara-temple> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://www.cidoc-crm.org/cidoc-crm/E22_Human-Made_Object> <https://inheritage.foundation/cidoc> .`,
+      `<https://inheritage.foundation/heritage/hoysaleswara-temple> <http://www.w3.org/2000/01/rdf-schema#label> "Hoysaleswara Temple"@en <https://inheritage.foundation/cidoc> .`,
+      `_:hoysaleswara-temple-c0 <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://www.cidoc-crm.org/cidoc-crm/E12_Production> <https://inheritage.foundation/cidoc> .`,
+      `_:hoysaleswara-temple-c1 <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://www.cidoc-crm.org/cidoc-crm/E52_Time-Span> <https://inheritage.foundation/cidoc> .`,
+      `_:hoysaleswara-temple-c1 <http://www.cidoc-crm.org/cidoc-crm/P82a_begin_of_the_begin> "1121"^^<http://www.w3.org/2001/XMLSchema#gYear> <https://inheritage.foundation/cidoc> .`,
+      `_:hoysaleswara-temple-c0 <http://www.cidoc-crm.org/cidoc-crm/P4_has_time-span> _:hoysaleswara-temple-c1 <https://inheritage.foundation/cidoc> .`,
+      `<https://inheritage.foundation/heritage/hoysaleswara-temple> <http://www.cidoc-crm.org/cidoc-crm/P108i_was_produced_by> _:hoysaleswara-temple-c0 <https://inheritage.foundation/cidoc> .`,
+      `<https://inheritage.foundation/heritage/hoysaleswara-temple> <http://www.cidoc-crm.org/cidoc-crm/P53_has_former_or_current_location> "#halebidu" <https://inheritage.foundation/cidoc> .`,
+      `<https://inheritage.foundation/heritage/hoysaleswara-temple> <http://www.w3.org/2002/07/owl#sameAs> <https://www.wikidata.org/entity/Q3146380> <https://inheritage.foundation/cidoc> .`,
+    ])
+  })
+
+  it("keeps blank nodes of different documents apart", () => {
+    const production = (id: string) => ({ "@id": id, "@type": "E22_Human-Made_Object", P108i_was_produced_by: { "@type": "E12_Production" } })
+    const subjects = (quads: ReturnType<typeof cidocToQuads>) => quads.filter((quad) => quad.subject.termType === "BlankNode").map((quad) => quad.subject.value)
+
+    expect(subjects(cidocToQuads(production("https://inheritage.foundation/heritage/hampi")))).toEqual(["hampi-c0"])
+    expect(subjects(cidocToQuads(production("https://inheritage.foundation/heritage/badami")))).toEqual(["badami-c0"])
+    expect(subjects(cidocToQuads([{ "@id": "_:b0", "@type": "E53_Place" }], { blankNodePrefix: "doc7" }))).toEqual(["doc7-b-b0"])
+    expect(subjects(cidocToQuads({ "@type": "E53_Place", label: "Hampi" }))).not.toEqual(subjects(cidocToQuads({ "@type": "E53_Place", label: "Badami" })))
+  })
+
+  it("requires a base for relative ids", () => {
+    const document = { "@graph": [{ "@id": "#obj", "@type": ["E22_Human-Made_Object", "Monument"] }] }
+
+    expect(() => cidocToQuads(document)).toThrow(ValidationError)
+    expect(serializeNTriples(cidocToQuads(document, { base: "https://example.org/doc" }))).toBe(
+      `<https://example.org/doc#obj> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://www.cidoc-crm.org/cidoc-crm/E22_Human-Made_Object> .\n`
+    )
+  })
+
+  it("links string references to nodes in a flattened graph", () => {
+    const quads = cidocToQuads(
+      {
+        "@graph": [
+          { "@id": "https://example.org/fort", "@type": "E22_Human-Made_Object", P53_has_former_or_current_location: "#place" },
+          { "@id": "#place", "@type": "E53_Place", lat: 14.23 },
+        ],
+      },
+      { base: "https://example.org/fort" }
+    )
+
+    expect(serializeNTriples(quads)).toContain(
+      `<https://example.org/fort> <http://www.cidoc-crm.org/cidoc-crm/P53_has_former_or_current_location> <https://example.org/fort#place> .`
+    )
+    expect(serializeNTriples(quads)).toContain(`<https://example.org/fort#place> <http://www.w3.org/2003/01/geo/wgs84_pos#lat> "14.23"^^<http://www.w3.org/2001/XMLSchema#decimal> .`)
+  })
+})
+
+describe("streamHeritageRdf", () => {
+  async function* dump() {
+    yield site
+    yield { ...site, slug: "chennakeshava-temple", official_url: "https://inheritage.foundation/heritage/chennakeshava-temple" }
+  }
+
+  it("emits one Turtle header and one block per record", async () => {
+    const chunks: string[] = []
+    for await (const chunk of streamHeritageRdf(dump(), { format: "turtle" })) chunks.push(chunk)
+
+    expect(chunks).toHaveLength(3)
+    expect(chunks.join("").match(/@prefix schema:/g)).toHaveLength(1)
+    expect(chunks[2]).toContain("_:chennakeshava-temple-address")
+  })
+
+  it("streams N-Quads into a named graph", async () => {
+    const chunks: string[] = []
+    for await (const chunk of streamHeritageRdf([site], { format: "nquads", graph: "https://inheritage.foundation/" })) chunks.push(chunk)
+
+    expect(chunks[0].split("\n").filter(Boolean).every((line) => line.endsWith(" <https://inheritage.foundation/> ."))).toBe(true)
+  })
+})
@@ -0,0 +1,135 @@
+/// <reference types="vitest" />
+import { describe, it, expect, afterEach, vi } from "vitest"
+import { InheritageClient } from "../src/client"
+import { RequestScheduler } from "../src/scheduler"
+
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>((res) => {
+    resolve = res
+  })
+  return { promise, resolve }
+}
+
+describe("RequestScheduler", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("caps the number of tasks in flight and emits queued events", async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 2 })
+    const queued = vi.fn()
+    scheduler.on("queued", queued)
+
+    const gates = [deferred<number>(), deferred<number>(), deferred<number>()]
+    const results = gates.map((gate) => scheduler.schedule(() => gate.promise))
+
+    expect(scheduler.active).toBe(2)
+    expect(scheduler.pending).toBe(1)
+    expect(queued).toHaveBeenCalledWith({ pending: 1, active: 2 })
+
+    gates[0]!.resolve(1)
+    await results[0]
+    await Promise.resolve()
+    expect(scheduler.active).toBe(2)
+    expect(scheduler.pending).toBe(0)
+
+    gates[1]!.resolve(2)
+    gates[2]!.resolve(3)
+    await expect(Promise.all(results)).resolves.toEqual([1, 2, 3])
+  })
+
+  it("holds requests until the rate-limit window resets", async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date("2025-11-12T00:00:00Z"))
+    const scheduler = new RequestScheduler()
+    const throttled = vi.fn()
+    const resumed = vi.fn()
+    scheduler.on("throttled", throttled)
+    scheduler.on("resumed", resumed)
+
+    const reset = Math.floor(Date.now() / 1000) + 5
+    scheduler.update({ limit: 120, remaining: 0, reset })
+
+    const task = vi.fn().mockResolvedValue("ok")
+    const pending = scheduler.schedule(task)
+
+    expect(task).not.toHaveBeenCalled()
+    expect(throttled).toHaveBeenCalledWith(expect.objectContaining({ until: reset * 1000, pending: 1 }))
+
+    await vi.advanceTimersByTimeAsync(5000)
+    await expect(pending).resolves.toBe("ok")
+    expect(resumed).toHaveBeenCalledWith({ pending: 1, waitedMs: 5000 })
+  })
+
+  it("extends the hold when a 429 arrives while already throttled", async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date("2025-11-12T00:00:00Z"))
+    const scheduler = new RequestScheduler()
+    const throttled = vi.fn()
+    const resumed = vi.fn()
+    scheduler.on("throttled", throttled)
+    scheduler.on("resumed", resumed)
+
+    scheduler.update({ limit: 120, remaining: 0, reset: Math.floor(Date.now() / 1000) + 5 })
+    const task = vi.fn().mockResolvedValue("ok")
+    const pending = scheduler.schedule(task)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    scheduler.pauseFor(10_000)
+
+    await vi.advanceTimersByTimeAsync(4000)
+    expect(task).not.toHaveBeenCalled()
+    expect(resumed).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(6000)
+    await expect(pending).resolves.toBe("ok")
+    expect(throttled).toHaveBeenCalledTimes(1)
+    expect(resumed).toHaveBeenCalledTimes(1)
+    expect(resumed).toHaveBeenCalledWith({ pending: 1, waitedMs: 11_000 })
+  })
+
+  it("rejects queued tasks when their signal aborts", async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 })
+    const gate = deferred<void>()
+    const first = scheduler.schedule(() => gate.promise)
+    const controller = new AbortController()
+    const second = scheduler.schedule(() => Promise.resolve("never"), controller.signal)
+
+    controller.abort(new Error("cancelled"))
+    await expect(second).rejects.toThrow("cancelled")
+    expect(scheduler.pending).toBe(0)
+
+    gate.resolve()
+    await first
+  })
+
+  it("feeds X-RateLimit headers from client responses into the scheduler", async () => {
+    const reset = Math.floor(Date.now() / 1000) + 60
+    const fetchMock = vi.fn().mockImplementation(
+      async () =>
+        new Response(JSON.stringify({ timelines: [] }), {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "X-RateLimit-Limit": "120",
+            "X-RateLimit-Remaining": "0",
+            "X-RateLimit-Reset": String(reset),
+          },
+        })
+    )
+    const client = new InheritageClient({ fetch: fetchMock, scheduler: true })
+    const throttled = vi.fn()
+    client.scheduler!.on("throttled", throttled)
+
+    await client.getTimelineFeatured()
+    const controller = new AbortController()
+    const held = client.getTimelineFeatured({ signal: controller.signal })
+
+    expect(throttled).toHaveBeenCalledWith(expect.objectContaining({ until: reset * 1000 }))
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    controller.abort(new Error("stop"))
+    await expect(held).rejects.toThrow("stop")
+  })
+})
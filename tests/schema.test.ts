@@ -0,0 +1,156 @@
+/// <reference types="vitest" />
+import { describe, it, expect, expectTypeOf, vi } from "vitest"
+import { InheritageClient } from "../src/client"
+import { ResponseValidationError } from "../src/errors"
+import { projectionIssues, responseSchemas, s, validateSchema } from "../src/schema"
+import type { Heritage } from "../src/types"
+
+function jsonResponse(body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "Content-Type": "application/json", "X-Trace-Id": "trace-1", ...headers },
+  })
+}
+
+const geoFeature = {
+  type: "Feature",
+  geometry: { type: "Point", coordinates: [78.0421, 27.1751] },
+  properties: {
+    slug: "taj-mahal",
+    name: "Taj Mahal",
+    state: "Uttar Pradesh",
+    country: "India",
+    category: "Mausoleum",
+    view_count: 10,
+    completion_score: 90,
+    citation: { name: "Inheritage", url: "https://inheritage.foundation", license: "CC BY 4.0", required_display: "Inheritage" },
+  },
+}
+
+describe("validateSchema", () => {
+  it("reports JSONPath locations for nested mismatches", () => {
+    const schema = s.object({
+      data: s.array(s.object({ slug: s.string(), coordinates: s.nullable(s.tuple(s.number(), s.number())) })),
+    })
+    const issues = validateSchema(schema, {
+      data: [{ slug: "a", coordinates: null }, { slug: 1, coordinates: { lat: 1 } }],
+    })
+
+    expect(issues).toEqual([
+      { path: "$.data[1].slug", expected: "string", received: "number" },
+      { path: "$.data[1].coordinates", expected: "[number, number] | null", received: "object" },
+    ])
+  })
+
+  it("ignores keys the schema does not declare", () => {
+    const schema = s.object({ slug: s.string() })
+    expect(validateSchema(schema, { slug: "a", added_later: true })).toEqual([])
+  })
+
+  it("accepts well-formed GeoJSON features", () => {
+    expect(validateSchema(responseSchemas.geoFeature, geoFeature)).toEqual([])
+  })
+})
+
+describe("InheritageClient response validation", () => {
+  const drifted = { ...geoFeature, geometry: { type: "Point", coordinates: "78,27" } }
+
+  it("does not validate by default", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(drifted))
+    const client = new InheritageClient({ fetch: fetchMock as unknown as typeof fetch })
+
+    const response = await client.getGeoFeature("taj-mahal")
+    expect(response.data).toEqual(drifted)
+  })
+
+  it("reports issues in warn mode and still returns data", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(drifted))
+    const onValidationIssues = vi.fn()
+    const client = new InheritageClient({
+      fetch: fetchMock as unknown as typeof fetch,
+      validate: "warn",
+      onValidationIssues,
+    })
+
+    const response = await client.getGeoFeature("taj-mahal")
+
+    expect(response.data).toEqual(drifted)
+    expect(onValidationIssues).toHaveBeenCalledWith({
+      method: "GET",
+      path: "/geo/heritage/taj-mahal",
+      status: 200,
+      traceId: "trace-1",
+      issues: [{ path: "$.geometry.coordinates", expected: "[number, number]", received: "string" }],
+    })
+  })
+
+  it("throws ResponseValidationError in strict mode, overridable per call", async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(drifted))
+    const client = new InheritageClient({ fetch: fetchMock as unknown as typeof fetch, validate: "warn", onValidationIssues: () => undefined })
+
+    const error = await client.getGeoFeature("taj-mahal", { validate: "strict" }).catch((err: unknown) => err)
+
+    expect(error).toBeInstanceOf(ResponseValidationError)
+    expect(error).toMatchObject({
+      code: "SCHEMA_MISMATCH",
+      traceId: "trace-1",
+      issues: [{ path: "$.geometry.coordinates" }],
+    })
+
+    await expect(client.getGeoFeature("taj-mahal", { validate: "off" })).resolves.toMatchObject({ data: drifted })
+  })
+
+  it("skips validation for field projections", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ slug: "taj-mahal" }))
+    const client = new InheritageClient({ fetch: fetchMock as unknown as typeof fetch, validate: "strict" })
+
+    await expect(client.getHeritage("taj-mahal", { fields: ["slug"] })).resolves.toMatchObject({ data: { slug: "taj-mahal" } })
+  })
+})
+
+describe("fields projections", () => {
+  it("narrows result types to the requested keys", async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({ data: [{ slug: "hampi", name: "Hampi" }], meta: { total: 1, limit: 1, offset: 0 } }))
+    const client = new InheritageClient({ fetch: fetchMock as unknown as typeof fetch })
+
+    const projected = await client.listHeritage({ fields: ["slug", "name"] })
+    const full = await client.listHeritage()
+
+    expectTypeOf(projected.data.data[0]!).toEqualTypeOf<Pick<Heritage, "slug" | "name">>()
+    expectTypeOf(full.data.data[0]!).toEqualTypeOf<Pick<Heritage, keyof Heritage>>()
+    expect(new URL(fetchMock.mock.calls[0]![0] as string).searchParams.get("fields")).toBe("slug,name")
+  })
+
+  it("lists unrequested keys per item", () => {
+    expect(projectionIssues(["slug"], { data: [{ slug: "a" }, { slug: "b", description: null }] })).toEqual([
+      { path: "$.data[1].description", expected: "absent (not in fields)", received: "null" },
+    ])
+    expect(projectionIssues(["slug"], { slug: "a", name: "A" })).toEqual([
+      { path: "$.name", expected: "absent (not in fields)", received: "string" },
+    ])
+  })
+
+  it("reports unrequested keys even when schema validation is off", async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({ slug: "hampi", name: "Hampi", summary: "..." }))
+    const onValidationIssues = vi.fn()
+    const client = new InheritageClient({ fetch: fetchMock as unknown as typeof fetch, checkProjections: true, onValidationIssues })
+
+    const response = await client.getHeritage("hampi", { fields: ["slug", "name"] })
+
+    expect(response.data).toMatchObject({ slug: "hampi" })
+    expect(onValidationIssues).toHaveBeenCalledWith(
+      expect.objectContaining({ path: "/heritage/hampi", issues: [{ path: "$.summary", expected: "absent (not in fields)", received: "string" }] })
+    )
+    await expect(client.getHeritage("hampi", { fields: ["slug", "name"] }, { validate: "strict" })).rejects.toBeInstanceOf(ResponseValidationError)
+  })
+
+  it("skips the projection check when disabled", async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({ slug: "hampi", name: "Hampi" }))
+    const onValidationIssues = vi.fn()
+    const client = new InheritageClient({ fetch: fetchMock as unknown as typeof fetch, checkProjections: false, onValidationIssues })
+
+    await client.getHeritage("hampi", { fields: ["slug"] })
+
+    expect(onValidationIssues).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,168 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi } from "vitest"
+import { ValidationError } from "../src/errors"
+import { mapSparqlResults, paginateSparql, querySparql, sparqlLiteral, sparqlSelect, sparqlTermValue } from "../src/sparql"
+import type { SparqlResponse } from "../src/types"
+
+const XSD = "http://www.w3.org/2001/XMLSchema#"
+
+function sparqlClient(pages: SparqlResponse["results"]["bindings"][]) {
+  const executeSparqlQuery = vi.fn(async (_request: { query: string }) => ({
+    status: 200,
+    data: { head: { vars: [] }, results: { bindings: pages.shift() ?? [] } } as SparqlResponse,
+    headers: new Headers(),
+    notModified: false,
+  }))
+  return { executeSparqlQuery }
+}
+
+describe("sparqlSelect", () => {
+  it("builds SPARQL 1.1 and declares only the prefixes it uses", () => {
+    const query = sparqlSelect("site", "?name", "begin")
+      .distinct()
+      .where("?site", "a", "crm:E22_Human-Made_Object")
+      .where("?site", "crm:P2_has_type", "aat:300007466")
+      .where("?site", "rdfs:label", "?name")
+      .where("?site", "crm:P53_has_former_or_current_location/rdfs:label", sparqlLiteral("Halebidu", "en"))
+      .optional((group) => group.where("?site", "crm:P108i_was_produced_by/crm:P4_has_time-span/crm:P82a_begin_of_the_begin", "?begin"))
+      .filterLang("name", "en")
+      .filter(`?begin >= ${sparqlLiteral("1100", "xsd:gYear")}`)
+      .orderBy("begin", "desc")
+      .orderBy("name")
+      .limit(10)
+      .offset(20)
+
+    expect(query.variables).toEqual(["site", "name", "begin"])
+    expect(query.build()).toBe(
+      [
+        "PREFIX aat: <http://vocab.getty.edu/aat/>",
+        "PREFIX crm: <http://www.cidoc-crm.org/cidoc-crm/>",
+        "PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>",
+        "PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>",
+        "",
+        "SELECT DISTINCT ?site ?name ?begin",
+        "WHERE {",
+        "  ?site a crm:E22_Human-Made_Object .",
+        "  ?site crm:P2_has_type aat:300007466 .",
+        "  ?site rdfs:label ?name .",
+        '  ?site crm:P53_has_former_or_current_location/rdfs:label "Halebidu"@en .',
+        "  OPTIONAL { ?site crm:P108i_was_produced_by/crm:P4_has_time-span/crm:P82a_begin_of_the_begin ?begin . }",
+        '  FILTER(langMatches(lang(?name), "en"))',
+        '  FILTER(?begin >= "1100"^^xsd:gYear)',
+        "}",
+        "ORDER BY DESC(?begin) ASC(?name)",
+        "LIMIT 10",
+        "OFFSET 20",
+      ].join("\n")
+    )
+  })
+
+  it("writes IRIs, literals, unions and custom prefixes", () => {
+    const query = sparqlSelect()
+      .prefix("inh", "https://inheritage.foundation/ontology#")
+      .union(
+        (group) => group.where("https://inheritage.foundation/heritage/hampi", "inh:partOf", "?x"),
+        (group) => group.where("?x", "^inh:partOf", "<https://inheritage.foundation/heritage/hampi>")
+      )
+      .where("?x", "inh:height", 73.5)
+      .where("?x", "inh:listed", true)
+      .where("?x", "inh:note", sparqlLiteral('say "hi"\n'))
+
+    expect(query.toString()).toBe(
+      [
+        "PREFIX inh: <https://inheritage.foundation/ontology#>",
+        "",
+        "SELECT *",
+        "WHERE {",
+        "  { <https://inheritage.foundation/heritage/hampi> inh:partOf ?x . } UNION { ?x ^inh:partOf <https://inheritage.foundation/heritage/hampi> . }",
+        "  ?x inh:height 73.5 .",
+        "  ?x inh:listed true .",
+        '  ?x inh:note "say \\"hi\\"\\n" .',
+        "}",
+      ].join("\n")
+    )
+  })
+
+  it("rejects unsafe terms, unknown prefixes and bad paging values", () => {
+    expect(() => sparqlSelect("site").where("?site", "rdfs:label", "Hampi } ; DROP ALL")).toThrow(ValidationError)
+    expect(() => sparqlSelect("site").where("<https://a.org/x> }", "a", "?o")).toThrow(ValidationError)
+    expect(() => sparqlSelect("site name")).toThrow(ValidationError)
+    expect(() => sparqlSelect("site").limit(-1)).toThrow(ValidationError)
+    expect(() => sparqlSelect("site").where("?site", "foaf:name", "?name").build()).toThrow(/unknown prefix "foaf:"/)
+    expect(() => sparqlSelect("site").build()).toThrow(/no WHERE patterns/)
+  })
+})
+
+describe("sparqlTermValue", () => {
+  it("coerces numbers, booleans, dates and language tags", () => {
+    expect(sparqlTermValue({ type: "uri", value: "http://vocab.getty.edu/aat/300007466" })).toBe("http://vocab.getty.edu/aat/300007466")
+    expect(sparqlTermValue({ type: "bnode", value: "b0" })).toBe("_:b0")
+    expect(sparqlTermValue({ type: "literal", value: "Hampi" })).toBe("Hampi")
+    expect(sparqlTermValue({ type: "literal", value: "ಹಂಪಿ", "xml:lang": "kn" })).toEqual({ value: "ಹಂಪಿ", language: "kn" })
+    expect(sparqlTermValue({ type: "literal", value: "42", datatype: `${XSD}integer` })).toBe(42)
+    expect(sparqlTermValue({ type: "typed-literal", value: "13.213", datatype: `${XSD}decimal` })).toBe(13.213)
+    expect(sparqlTermValue({ type: "literal", value: "-INF", datatype: `${XSD}double` })).toBe(-Infinity)
+    expect(sparqlTermValue({ type: "literal", value: "-0300", datatype: `${XSD}gYear` })).toBe(-300)
+    expect(sparqlTermValue({ type: "literal", value: "1", datatype: `${XSD}boolean` })).toBe(true)
+    expect(sparqlTermValue({ type: "literal", value: "1121-01-01", datatype: `${XSD}date` })).toEqual(new Date("1121-01-01"))
+    expect(sparqlTermValue({ type: "literal", value: "12th century", datatype: `${XSD}date` })).toBe("12th century")
+    expect(sparqlTermValue({ type: "literal", value: "n/a", datatype: `${XSD}integer` })).toBe("n/a")
+  })
+
+  it("keeps non-XSD forms and unsafe integers as strings and reads zoneless date-times as UTC", () => {
+    expect(sparqlTermValue({ type: "literal", value: "0x10", datatype: `${XSD}integer` })).toBe("0x10")
+    expect(sparqlTermValue({ type: "literal", value: "1e3", datatype: `${XSD}integer` })).toBe("1e3")
+    expect(sparqlTermValue({ type: "literal", value: "1e3", datatype: `${XSD}double` })).toBe(1000)
+    expect(sparqlTermValue({ type: "literal", value: "1e3", datatype: `${XSD}decimal` })).toBe("1e3")
+    expect(sparqlTermValue({ type: "literal", value: "9007199254740993", datatype: `${XSD}long` })).toBe("9007199254740993")
+    expect(sparqlTermValue({ type: "literal", value: "true", datatype: `${XSD}integer` })).toBe("true")
+    expect(sparqlTermValue({ type: "literal", value: "2026-03-01T10:30:00", datatype: `${XSD}dateTime` })).toEqual(new Date("2026-03-01T10:30:00Z"))
+    expect(sparqlTermValue({ type: "literal", value: "2026-03-01T10:30:00+05:30", datatype: `${XSD}dateTime` })).toEqual(new Date("2026-03-01T05:00:00Z"))
+    expect(sparqlTermValue({ type: "literal", value: "2026-02-30", datatype: `${XSD}date` })).toBe("2026-02-30")
+    expect(sparqlTermValue({ type: "literal", value: "2026-03-01 10:30", datatype: `${XSD}dateTime` })).toBe("2026-03-01 10:30")
+  })
+
+  it("maps response bindings to rows, leaving unbound variables out", () => {
+    expect(
+      mapSparqlResults<"site" | "begin">({
+        head: { vars: ["site", "begin"] },
+        results: {
+          bindings: [
+            { site: { type: "uri", value: "https://inheritage.foundation/heritage/hampi" }, begin: { type: "literal", value: "1336", datatype: `${XSD}gYear` } },
+            { site: { type: "uri", value: "https://inheritage.foundation/heritage/badami" } },
+          ],
+        },
+      })
+    ).toEqual([{ site: "https://inheritage.foundation/heritage/hampi", begin: 1336 }, { site: "https://inheritage.foundation/heritage/badami" }])
+  })
+})
+
+describe("querySparql / paginateSparql", () => {
+  const query = () => sparqlSelect("site").where("?site", "a", "crm:E22_Human-Made_Object").orderBy("site")
+  const site = (slug: string) => ({ site: { type: "uri", value: `https://inheritage.foundation/heritage/${slug}` } })
+
+  it("runs a query and returns typed rows", async () => {
+    const client = sparqlClient([[site("hampi")]])
+
+    const rows = await querySparql(client, query().limit(5))
+
+    expect(rows[0].site).toBe("https://inheritage.foundation/heritage/hampi")
+    expect(client.executeSparqlQuery.mock.calls[0][0].query).toMatch(/LIMIT 5$/)
+  })
+
+  it("pages with LIMIT/OFFSET until a short page", async () => {
+    const client = sparqlClient([[site("hampi"), site("badami")], [site("aihole")]])
+
+    const rows = await paginateSparql(client, query().limit(2).offset(4)).collect()
+
+    expect(rows.map((row) => row.site)).toEqual([
+      "https://inheritage.foundation/heritage/hampi",
+      "https://inheritage.foundation/heritage/badami",
+      "https://inheritage.foundation/heritage/aihole",
+    ])
+    expect(client.executeSparqlQuery.mock.calls.map((call) => call[0].query.split("\n").slice(-2))).toEqual([
+      ["LIMIT 2", "OFFSET 4"],
+      ["LIMIT 2", "OFFSET 6"],
+    ])
+  })
+})
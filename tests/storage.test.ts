@@ -0,0 +1,133 @@
+/// <reference types="vitest" />
+import { describe, it, expect, afterEach } from "vitest"
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import {
+  FileSystemHeritageStore,
+  MemoryHeritageStore,
+  SqliteHeritageStore,
+  toStoredRecord,
+  type HeritageStore,
+  type SqliteDatabase,
+} from "../src/storage"
+import type { AIVectorRecord, GeoFeature, Heritage, MediaResponse } from "../src/types"
+
+function site(slug: string, state: string, dynasty: string | null, category = "Temple"): Heritage {
+  return { slug, name: slug, state, dynasty, category } as Heritage
+}
+
+const sites = [
+  site("hampi", "Karnataka", "Vijayanagara", "Ruins"),
+  site("hoysaleswara-temple", "Karnataka", "Hoysala"),
+  site("konark-sun-temple", "Odisha", "Eastern Ganga"),
+]
+
+const directories: string[] = []
+afterEach(async () => {
+  await Promise.all(directories.splice(0).map((directory) => rm(directory, { recursive: true, force: true })))
+})
+
+async function tempDirectory() {
+  const directory = await mkdtemp(path.join(tmpdir(), "inheritage-store-"))
+  directories.push(directory)
+  return directory
+}
+
+const adapters: Array<[string, () => Promise<HeritageStore>]> = [
+  ["MemoryHeritageStore", async () => new MemoryHeritageStore()],
+  ["FileSystemHeritageStore (ndjson)", async () => new FileSystemHeritageStore({ directory: await tempDirectory(), shards: 4 })],
+  ["FileSystemHeritageStore (json)", async () => new FileSystemHeritageStore({ directory: await tempDirectory(), format: "json", shards: 2 })],
+]
+
+describe.each(adapters)("%s", (_name, create) => {
+  it("looks up, filters, counts and deletes records per kind", async () => {
+    const store = await create()
+    await store.put("heritage", sites.map((record) => toStoredRecord("heritage", record)))
+    await store.put("vectors", [toStoredRecord("vectors", { slug: "hampi", vector: [0.1] } as AIVectorRecord)])
+
+    expect((await store.get("heritage", "hampi"))?.dynasty).toBe("Vijayanagara")
+    expect((await store.find("heritage", { state: "karnataka" })).map((record) => record.slug)).toEqual(["hampi", "hoysaleswara-temple"])
+    expect((await store.find("heritage", { state: "Karnataka", category: "Temple" })).map((record) => record.slug)).toEqual([
+      "hoysaleswara-temple",
+    ])
+    expect(await store.count("heritage")).toBe(3)
+    expect(await store.count("vectors")).toBe(1)
+
+    await store.delete("heritage", ["hampi"])
+    expect(await store.get("heritage", "hampi")).toBeUndefined()
+    expect(await store.get("vectors", "hampi")).toMatchObject({ vector: [0.1] })
+  })
+
+  it("persists the cursor and dataset hash, and clears everything", async () => {
+    const store = await create()
+    await store.setState({ cursor: "2025-01-01T00:00:00Z", datasetHash: "sha256:abc", syncedAt: null })
+    await store.put("heritage", [toStoredRecord("heritage", sites[0]!)])
+
+    expect(await store.getState()).toEqual({ cursor: "2025-01-01T00:00:00Z", datasetHash: "sha256:abc", syncedAt: null })
+
+    await store.clear()
+    expect(await store.getState()).toBeUndefined()
+    expect(await store.count("heritage")).toBe(0)
+  })
+})
+
+describe("FileSystemHeritageStore", () => {
+  it("reloads shards written by another instance", async () => {
+    const directory = await tempDirectory()
+    await new FileSystemHeritageStore({ directory, shards: 4 }).put("heritage", sites.map((record) => toStoredRecord("heritage", record)))
+
+    const reopened = new FileSystemHeritageStore({ directory, shards: 4 })
+    expect(await reopened.count("heritage")).toBe(3)
+
+    const files = await readdir(path.join(directory, "heritage"))
+    expect(files.every((file) => file.endsWith(".ndjson"))).toBe(true)
+    const lines = (await Promise.all(files.map((file) => readFile(path.join(directory, "heritage", file), "utf8"))))
+      .join("")
+      .trim()
+      .split("\n")
+    expect(lines).toHaveLength(3)
+  })
+})
+
+describe("toStoredRecord", () => {
+  it("derives index columns for geo features and media bundles", () => {
+    const feature = {
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [76.46, 15.33] },
+      properties: { slug: "hampi", state: "Karnataka", category: "Ruins" },
+    } as GeoFeature
+    expect(toStoredRecord("geo", feature)).toMatchObject({ slug: "hampi", state: "Karnataka", category: "Ruins", dynasty: null })
+
+    const media = { heritage_id: "uuid-1", items: [], citations: [] } as MediaResponse
+    expect(toStoredRecord("media", media, { slug: "hampi", state: "Karnataka" })).toMatchObject({ slug: "hampi", state: "Karnataka" })
+    expect(toStoredRecord("media", media).slug).toBe("uuid-1")
+  })
+})
+
+describe("SqliteHeritageStore", () => {
+  it("creates its tables, binds filter parameters and wraps writes in a transaction", () => {
+    const executed: string[] = []
+    const prepared: Array<{ sql: string; params: unknown[] }> = []
+    const database: SqliteDatabase = {
+      exec: (sql) => executed.push(sql.trim().split(/\s+/).slice(0, 3).join(" ")),
+      prepare: (sql) => ({
+        run: (...params) => prepared.push({ sql, params }),
+        get: (...params) => (prepared.push({ sql, params }), undefined),
+        all: (...params) => (prepared.push({ sql, params }), []),
+      }),
+    }
+
+    const store = new SqliteHeritageStore({ database, tablePrefix: "mirror_" })
+    store.put("heritage", [toStoredRecord("heritage", sites[0]!)])
+    store.find("heritage", { state: "Karnataka", dynasty: "Vijayanagara" })
+
+    expect(executed).toEqual(["CREATE TABLE IF", "BEGIN", "COMMIT"])
+    expect(prepared[0]!.params.slice(0, 5)).toEqual(["heritage", "hampi", "Karnataka", "Vijayanagara", "Ruins"])
+    expect(prepared[1]).toEqual({
+      sql: "SELECT data FROM mirror_records WHERE kind = ? AND state = ? AND dynasty = ? ORDER BY slug",
+      params: ["heritage", "Karnataka", "Vijayanagara"],
+    })
+    expect(() => new SqliteHeritageStore({ database, tablePrefix: "x; DROP" })).toThrow()
+  })
+})
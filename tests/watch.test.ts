@@ -0,0 +1,210 @@
+/// <reference types="vitest" />
+import { afterEach, describe, it, expect, vi } from "vitest"
+import { InheritageClient } from "../src/client"
+import type { ChangefeedEntry, ChangefeedResponse } from "../src/types"
+import { ChangeWatcher, MemoryCursorStore } from "../src/watch"
+
+function entry(slug: string, operation: ChangefeedEntry["operation"] = "upsert"): ChangefeedEntry {
+  return {
+    slug,
+    updated_at: "2026-03-01T00:00:00Z",
+    created_at: null,
+    published: operation === "upsert",
+    operation,
+    checksum: `${slug}-sum`,
+    url: null,
+  }
+}
+
+function page(data: ChangefeedEntry[], meta: Partial<ChangefeedResponse["meta"]> = {}) {
+  return {
+    status: 200,
+    headers: new Headers(),
+    notModified: false,
+    data: {
+      data,
+      meta: {
+        count: data.length,
+        limit: 500,
+        since: "",
+        next_since: null,
+        has_more: false,
+        dataset_hash: "hash-1",
+        last_updated: null,
+        ...meta,
+      },
+    },
+  }
+}
+
+function feedClient(pages: ReturnType<typeof page>[]) {
+  const getChangefeed = vi.fn(async (_params: { since?: string | Date; limit?: number }, _options?: unknown) => {
+    return pages.shift() ?? page([], { next_since: null })
+  })
+  return { getChangefeed }
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("ChangeWatcher.poll", () => {
+  it("follows has_more, emits typed events and persists the cursor", async () => {
+    const client = feedClient([
+      page([entry("hampi"), entry("old-fort", "unpublished")], { next_since: "2026-03-01T00:00:01Z", has_more: true }),
+      page([entry("konark")], { next_since: "2026-03-01T00:00:02Z", dataset_hash: "hash-2" }),
+    ])
+    const cursorStore = new MemoryCursorStore()
+    const watcher = new ChangeWatcher(client, { since: "2026-02-28T00:00:00Z", cursorStore })
+    const events: string[] = []
+    watcher.on("upsert", ({ slug }) => events.push(`upsert:${slug}`))
+    watcher.on("unpublished", ({ slug }) => events.push(`unpublished:${slug}`))
+    watcher.on("datasetHashChanged", ({ previous, current }) => events.push(`hash:${previous}->${current}`))
+
+    expect(await watcher.poll()).toBe(3)
+
+    expect(events).toEqual(["upsert:hampi", "unpublished:old-fort", "hash:hash-1->hash-2", "upsert:konark"])
+    expect(client.getChangefeed.mock.calls.map(([params]) => params.since)).toEqual([
+      "2026-02-28T00:00:00Z",
+      "2026-03-01T00:00:01Z",
+    ])
+    expect(client.getChangefeed.mock.calls[0][1]).toMatchObject({ cache: "no-store" })
+    expect(cursorStore.load()).toEqual({ since: "2026-03-01T00:00:02Z", datasetHash: "hash-2" })
+  })
+
+  it("resumes from a stored cursor and applies the filter", async () => {
+    const client = feedClient([page([entry("hampi"), entry("konark")])])
+    const cursorStore = new MemoryCursorStore()
+    cursorStore.save({ since: "2026-03-05T00:00:00Z", datasetHash: "hash-1" })
+    const watcher = new ChangeWatcher(client, {
+      since: "2020-01-01T00:00:00Z",
+      cursorStore,
+      filter: (change) => change.slug === "konark",
+    })
+    const slugs: string[] = []
+    watcher.on("upsert", ({ slug }) => slugs.push(slug))
+
+    await watcher.poll()
+
+    expect(client.getChangefeed.mock.calls[0][0].since).toBe("2026-03-05T00:00:00Z")
+    expect(slugs).toEqual(["konark"])
+  })
+
+  it("POSTs each event to the webhook and keeps the cursor when delivery fails", async () => {
+    const client = feedClient([
+      page([entry("hampi")], { next_since: "2026-03-01T00:00:01Z" }),
+      page([entry("hampi")], { next_since: "2026-03-01T00:00:01Z" }),
+    ])
+    const webhookFetch = vi
+      .fn(async (_url: string | URL | Request, _init?: RequestInit) => new Response(null, { status: 204 }))
+      .mockResolvedValueOnce(new Response(null, { status: 500 }))
+    const cursorStore = new MemoryCursorStore()
+    const watcher = new ChangeWatcher(client, {
+      since: "2026-02-28T00:00:00Z",
+      cursorStore,
+      webhook: { url: "http://localhost:3000/hooks", headers: { "X-Secret": "s" }, fetch: webhookFetch as typeof fetch },
+    })
+    const upserts: string[] = []
+    watcher.on("upsert", ({ slug }) => upserts.push(slug))
+
+    await expect(watcher.poll()).rejects.toMatchObject({
+      name: "WebhookDeliveryError",
+      status: 500,
+      url: "http://localhost:3000/hooks",
+      message: "Webhook http://localhost:3000/hooks responded with 500",
+    })
+    expect(cursorStore.load()).toBeNull()
+    expect(upserts).toEqual([])
+
+    await watcher.poll()
+    const [url, init] = webhookFetch.mock.calls[1]
+    expect(url).toBe("http://localhost:3000/hooks")
+    expect(init?.method).toBe("POST")
+    expect(new Headers(init?.headers).get("X-Secret")).toBe("s")
+    expect(JSON.parse(String(init?.body))).toMatchObject({ type: "upsert", slug: "hampi" })
+    expect(cursorStore.load()?.since).toBe("2026-03-01T00:00:01Z")
+    expect(upserts).toEqual(["hampi"])
+  })
+
+  it("saves the cursor before emitting so a throwing listener does not cause redelivery", async () => {
+    const client = feedClient([page([entry("hampi")], { next_since: "2026-03-01T00:00:01Z" }), page([])])
+    const body = new ReadableStream({ start: (controller) => controller.enqueue(new TextEncoder().encode("ok")) })
+    const cancel = vi.spyOn(body, "cancel")
+    const webhookFetch = vi.fn(async (_url: string | URL | Request, _init?: RequestInit) => new Response(body, { status: 200 }))
+    const cursorStore = new MemoryCursorStore()
+    const watcher = new ChangeWatcher(client, {
+      since: "2026-02-28T00:00:00Z",
+      cursorStore,
+      webhook: { url: "http://localhost:3000/hooks", fetch: webhookFetch as typeof fetch },
+    })
+    watcher.on("upsert", () => {
+      throw new Error("handler failed")
+    })
+
+    await expect(watcher.poll()).rejects.toThrow("handler failed")
+    expect(cursorStore.load()?.since).toBe("2026-03-01T00:00:01Z")
+    expect(cancel).toHaveBeenCalled()
+
+    await watcher.poll()
+    expect(client.getChangefeed.mock.calls[1][0].since).toBe("2026-03-01T00:00:01Z")
+    expect(webhookFetch).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("ChangeWatcher polling loop", () => {
+  it("backs off while the feed is idle and resets once changes arrive", async () => {
+    vi.useFakeTimers()
+    const client = feedClient([page([]), page([]), page([]), page([entry("hampi")], { next_since: "2026-03-01T00:00:01Z" })])
+    const watcher = new ChangeWatcher(client, { since: "2026-02-28T00:00:00Z", intervalMs: 1_000, maxIntervalMs: 3_000 })
+
+    watcher.start()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(client.getChangefeed).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(1_000)
+    expect(client.getChangefeed).toHaveBeenCalledTimes(2)
+
+    await vi.advanceTimersByTimeAsync(1_999)
+    expect(client.getChangefeed).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(client.getChangefeed).toHaveBeenCalledTimes(3)
+
+    await vi.advanceTimersByTimeAsync(3_000)
+    expect(client.getChangefeed).toHaveBeenCalledTimes(4)
+
+    await vi.advanceTimersByTimeAsync(1_000)
+    expect(client.getChangefeed).toHaveBeenCalledTimes(5)
+
+    await watcher.stop()
+    expect(watcher.running).toBe(false)
+  })
+
+  it("reports poll errors as events and keeps running", async () => {
+    vi.useFakeTimers()
+    const getChangefeed = vi.fn().mockRejectedValueOnce(new Error("offline")).mockResolvedValue(page([]))
+    const watcher = new ChangeWatcher({ getChangefeed }, { intervalMs: 100 })
+    const errors: unknown[] = []
+    watcher.on("error", ({ error }) => errors.push(error))
+
+    watcher.start()
+    await vi.advanceTimersByTimeAsync(100)
+
+    expect(errors).toEqual([new Error("offline")])
+    expect(getChangefeed).toHaveBeenCalledTimes(2)
+    await watcher.stop()
+  })
+
+  it("is available on the client and stops when its signal aborts", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(page([]).data), { status: 200, headers: { "Content-Type": "application/json" } }))
+    const client = new InheritageClient({ fetch: fetchMock as typeof fetch })
+    const controller = new AbortController()
+
+    const watcher = client.watchChanges({ since: "2026-03-01T00:00:00Z", intervalMs: 60_000, signal: controller.signal })
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1))
+    expect(String((fetchMock.mock.calls[0] as unknown[])[0])).toContain("/changes?since=2026-03-01T00%3A00%3A00Z")
+
+    controller.abort()
+    await watcher.stop()
+    expect(watcher.running).toBe(false)
+  })
+})
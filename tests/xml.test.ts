@@ -0,0 +1,68 @@
+/// <reference types="vitest" />
+import { describe, it, expect } from "vitest"
+import { ParseError } from "../src/errors"
+import { attribute, childElement, childElements, escapeXml, findElements, parseXml, textContent } from "../src/xml"
+
+describe("parseXml", () => {
+  it("builds an element tree with namespaces, attributes, entities and CDATA", () => {
+    const root = parseXml(`<?xml version="1.0" encoding="UTF-8"?>
+<!-- harvested -->
+<!DOCTYPE note [ <!ELEMENT note ANY> ]>
+<root xmlns="urn:default" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <dc:title xml:lang="en">Taj &amp; Mahal &#x2014; &#169;</dc:title>
+  <item id='1'/>
+  <note><![CDATA[<b>raw</b>]]> text</note>
+</root>`)
+
+    expect(root).toMatchObject({ name: "root", localName: "root", namespace: "urn:default", line: 4 })
+    const title = childElement(root, "title")!
+    expect(title).toMatchObject({ name: "dc:title", namespace: "http://purl.org/dc/elements/1.1/", line: 5 })
+    expect(textContent(title)).toBe("Taj & Mahal — ©")
+    expect(attribute(title, "lang")).toBe("en")
+    expect(childElement(root, "item")).toMatchObject({ attributes: { id: "1" }, children: [], namespace: "urn:default" })
+    expect(textContent(childElement(root, "note"))).toBe("<b>raw</b> text")
+    expect(childElements(root).map((element) => element.localName)).toEqual(["title", "item", "note"])
+  })
+
+  it("finds descendants by local name in document order", () => {
+    const root = parseXml("<a><b><c>1</c></b><c>2</c></a>")
+
+    expect(findElements(root, "c").map(textContent)).toEqual(["1", "2"])
+  })
+
+  it.each([
+    ["<a><b></a>", /unexpected <\/a>, expected <\/b>/],
+    ["<a>", /unclosed <a>/],
+    ["<a/><b/>", /multiple root elements/],
+    ["<x:a/>", /undeclared namespace prefix x/],
+    ["<a>&nbsp;</a>", /Unknown XML entity &nbsp;/],
+    ["<a b='1' b='2'/>", /duplicate attribute b/],
+    ["<a>&#x110000;</a>", /Invalid character reference &#x110000;/],
+    ["<a>&#99999999;</a>", /Invalid character reference &#99999999;/],
+    ["<a v='&#0;'/>", /Invalid character reference &#0;/],
+  ])("rejects malformed XML %s", (xml, message) => {
+    expect(() => parseXml(xml)).toThrow(ParseError)
+    expect(() => parseXml(xml)).toThrow(message)
+  })
+
+  it("accepts attribute names that shadow Object.prototype members", () => {
+    const element = parseXml(`<a constructor="c" toString="t" __proto__="p"/>`)
+
+    expect(attribute(element, "constructor")).toBe("c")
+    expect(attribute(element, "__proto__")).toBe("p")
+    expect(attribute(element, "hasOwnProperty")).toBeUndefined()
+    expect(Object.keys(element.attributes)).toEqual(["constructor", "toString", "__proto__"])
+  })
+
+  it("reports the line of the error", () => {
+    expect(() => parseXml("<a>\n\n<b></c>\n</a>")).toThrow(/line 3/)
+  })
+})
+
+describe("escapeXml", () => {
+  it("round-trips through the parser", () => {
+    const text = `Fort & "Palace" <1600s> 'north'`
+    expect(textContent(parseXml(`<a>${escapeXml(text)}</a>`))).toBe(text)
+    expect(attribute(parseXml(`<a v="${escapeXml(text)}"/>`), "v")).toBe(text)
+  })
+})
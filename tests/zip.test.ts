@@ -0,0 +1,69 @@
+/// <reference types="vitest" />
+import { describe, it, expect } from "vitest"
+import { ParseError } from "../src/errors"
+import { listZipEntries, readZipEntries, readZipEntry } from "../src/zip"
+import { createZip } from "./helpers/zip"
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes)
+
+describe("listZipEntries", () => {
+  it("reads the central directory", () => {
+    const archive = createZip(
+      [
+        { name: "lido/", content: "" },
+        { name: "lido/taj-mahal.xml", content: "<lido/>".repeat(50), deflate: true },
+      ],
+      "export page 1"
+    )
+
+    expect(listZipEntries(archive.buffer as ArrayBuffer)).toEqual([
+      expect.objectContaining({ filename: "lido/", directory: true, size: 0 }),
+      expect.objectContaining({
+        filename: "lido/taj-mahal.xml",
+        directory: false,
+        method: 8,
+        size: 350,
+        modifiedAt: new Date("2026-03-01T12:30:10Z"),
+      }),
+    ])
+  })
+
+  it.each([
+    [new Uint8Array(10), /end of central directory not found/],
+    [createZip([{ name: "a.xml", content: "a" }]).slice(0, 40), /end of central directory not found/],
+  ])("rejects truncated archives", (archive, message) => {
+    expect(() => listZipEntries(archive)).toThrow(ParseError)
+    expect(() => listZipEntries(archive)).toThrow(message)
+  })
+})
+
+describe("readZipEntry", () => {
+  it("reads stored and deflated entries", async () => {
+    const archive = createZip([
+      { name: "stored.xml", content: "<a>stored</a>" },
+      { name: "deflated.xml", content: "<a>ताज महल</a>".repeat(20), deflate: true },
+    ])
+
+    const files: [string, string][] = []
+    for await (const { entry, data } of readZipEntries(archive)) files.push([entry.filename, text(data)])
+
+    expect(files).toEqual([
+      ["stored.xml", "<a>stored</a>"],
+      ["deflated.xml", "<a>ताज महल</a>".repeat(20)],
+    ])
+  })
+
+  it("verifies the CRC-32", async () => {
+    const archive = createZip([{ name: "a.xml", content: "<a>1</a>" }])
+    archive[30 + "a.xml".length + 3] = "2".charCodeAt(0)
+
+    await expect(readZipEntry(archive, listZipEntries(archive)[0])).rejects.toThrow(/checksum mismatch for a.xml/)
+  })
+
+  it("rejects unsupported compression methods", async () => {
+    const archive = createZip([{ name: "a.xml", content: "<a/>" }])
+    const [entry] = listZipEntries(archive)
+
+    await expect(readZipEntry(archive, { ...entry, method: 14 })).rejects.toThrow(/unsupported compression method 14/)
+  })
+})